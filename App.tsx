@@ -1,11 +1,48 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Search, Upload, Share2, Grid, Folder, FileText, Settings, X, Plus, BarChart2, Moon, Sun, Network, Sprout, Minus, Flower2, ArrowRight, Edit3, MapPin, FolderOpen, Video, Image as ImageIcon, ChevronRight, ChevronDown, Eye, EyeOff, Music, Table, FolderPlus, FilePlus, ArrowUp, Trash2, FileSearch, ExternalLink, Play, Link as LinkIcon, Download, Monitor, ChevronLeft, Bell, Zap, Calendar } from 'lucide-react';
+import { Search, Upload, Share2, Grid, Folder, FileText, Settings, X, Plus, BarChart2, Moon, Sun, Network, Sprout, Minus, Flower2, ArrowRight, Edit3, MapPin, FolderOpen, Video, Image as ImageIcon, ChevronRight, ChevronDown, Eye, EyeOff, Music, Table, FolderPlus, FilePlus, ArrowUp, Trash2, FileSearch, ExternalLink, Play, Link as LinkIcon, Download, Monitor, ChevronLeft, Bell, Zap, Calendar, History, Cloud, CloudOff, Undo2, Redo2, ImageDown, AlertTriangle, Loader2, Copy, Filter, FolderSearch, Clock, Activity, MessageSquare, Tags } from 'lucide-react';
 import MindMap from './components/MindMap';
 import Stats from './components/Stats';
 import ProjectsView from './components/ProjectsView';
+import MapSwitcher from './components/MapSwitcher';
+import HistoryPanel from './components/HistoryPanel';
+import MapTransferDialog from './components/MapTransferDialog';
+import ImageExportDialog from './components/ImageExportDialog';
+import PdfViewer from './components/PdfViewer';
+import SearchSuggestions from './components/SearchSuggestions';
+import DuplicateUploadDialog from './components/DuplicateUploadDialog';
+import DuplicatesReport from './components/DuplicatesReport';
+import HighlightedText from './components/HighlightedText';
+import FacetPanel from './components/FacetPanel';
+import SearchHistoryPanel from './components/SearchHistoryPanel';
+import AIDebugPanel from './components/AIDebugPanel';
+import AskPanel from './components/AskPanel';
+import TagReviewPanel from './components/TagReviewPanel';
 import { searchAndGenerateGraph, getDocumentSummary } from './services/geminiService';
+import { listMaps, loadMap, saveMap, renameMap, duplicateMap, deleteMap, loadSettings, saveSettings, saveFileBlob, pruneFileBlobs, createMapId, summarizeMap, pruneResponseCache, clearResponseCache } from './services/storageService';
+import { EMPTY_HISTORY, HistoryState, WorkspaceSnapshot, recordHistoryEntry, undoHistory, redoHistory, jumpToHistoryEntry, createHistoryGroupId, patchHistoryDocument, patchHistoryNode } from './services/historyService';
+import { MapBundle, ImportMode, createMapBundle, downloadMapBundle, extractBundleFiles, mergeBundleIntoMap } from './services/bundleService';
+import { OutlineFormat, OutlineItem, graphToOutline, outlineToMarkdown, outlineToOpml, outlineToGraph } from './services/outlineService';
+import { downloadTextFile, toFileSlug } from './services/downloadService';
+import { extractText, extractionUpdate, getExtractableKind, PENDING_CONTENT } from './services/ingestionService';
+import { pageForOffset } from './services/pageOffsets';
+import { createSearchIndex, queryDocuments, suggestQuery, syncSearchIndex } from './services/searchIndex';
+import { buildVocabulary, scoreNameMatch } from './services/fuzzyMatch';
+import { Suggestion, applyFilterSuggestion, buildSuggestions } from './services/suggestionService';
+import { isPlainTextQuery, parseSearchQuery } from './services/queryParser';
+import { Snippet, buildSnippets } from './services/snippetService';
+import { DEFAULT_AI_SETTINGS, createAIProvider } from './services/aiProvider';
+import { DEFAULT_CONTEXT_TOKENS, MIN_CONTEXT_TOKENS } from './services/contextBuilder';
+import { AICallRecord, isAbortError, withRequestLayer } from './services/aiRequestLayer';
+import { localEmbeddingProvider } from './services/embeddingService';
+import { createVectorIndex, semanticSearch, syncVectorIndex } from './services/vectorIndex';
+import { EMPTY_FACET_SELECTION, FacetDisplayMode, FacetKey, FacetSelection, buildFacets, hasActiveFacets, matchesFacets, matchingNodeIds } from './services/facetService';
+import { createSearchHistoryEntry, recordSearch } from './services/searchHistoryService';
+import { logRepairReport, repairGeneratedGraph } from './services/graphRepair';
+import { appendTurn, askDocuments } from './services/qaService';
+import { applyTagSuggestion, queueSuggestion, suggestCategorization } from './services/categorizationService';
+import { DuplicateCandidate, DuplicateResolution, findDuplicateGroups, findUploadDuplicates, hashFile } from './services/duplicateService';
 import { MOCK_DOCUMENTS, INITIAL_GRAPH_DATA, THEMES } from './constants';
-import { GraphData, Node, Document, AppTheme, NodeType, LinkStyle, NodeIconType, LayoutMode } from './types';
+import { GraphData, Node, Document, AppTheme, NodeType, LinkStyle, NodeIconType, LayoutMode, GraphicsQuality, MindMapWorkspace, MapSummary, SearchAnswer, SearchHistoryEntry, AIProviderSettings, QATurn, PassageCitation, TagSuggestion } from './types';
 
 // Palette for dynamic node coloring
 const NODE_COLORS = [
@@ -20,7 +57,39 @@ const NODE_COLORS = [
   '#f97316', // Orange
 ];
 
-type TabType = 'all' | 'video' | 'photo' | 'doc' | 'audio' | 'data';
+
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+// Delay between the last change and the IndexedDB write
+const AUTOSAVE_DELAY_MS = 800;
+// Older AI responses are dropped from the cache on startup
+const MAX_CACHED_AI_RESPONSES = 500;
+// Entries shown in the AI request panel
+const MAX_AI_CALL_RECORDS = 200;
+
+// Graph node that shows a document as a leaf of its parent
+const createDocumentNode = (doc: Document, level: number, description: string): Node => ({
+  id: doc.id,
+  name: doc.title,
+  type: NodeType.DOCUMENT,
+  val: 10,
+  description,
+  iconType: doc.type === 'link' ? 'link' :
+            doc.type === 'mp4' ? 'video' :
+            (doc.type === 'jpg' || doc.type === 'png') ? 'image' :
+            doc.type === 'mp3' ? 'music' :
+            (doc.type === 'xlsx' || doc.type === 'csv') ? 'spreadsheet' : 'file',
+  level,
+  project: doc.project,
+  collapsed: false
+});
+
+// Files the upload skips: system files, hidden files and anything inside hidden folders (e.g. .git/objects/...)
+const isIgnoredUpload = (file: File) => {
+  if (file.name.startsWith('.') || file.name.startsWith('__') || file.name === 'Thumbs.db' || file.name === 'desktop.ini') return true;
+  const pathParts = file.webkitRelativePath ? file.webkitRelativePath.split('/') : [file.name];
+  return pathParts.some(part => part.startsWith('.'));
+};
 
 // Mock Updates Data
 const UPDATES = [
@@ -64,16 +133,153 @@ function App() {
   const [theme, setTheme] = useState<AppTheme>(AppTheme.DEFAULT);
   const [linkStyle, setLinkStyle] = useState<LinkStyle>(LinkStyle.ROOT);
   const [layoutMode, setLayoutMode] = useState<LayoutMode>(LayoutMode.SPIDER);
-  const [graphicsQuality, setGraphicsQuality] = useState<'low' | 'mid' | 'high'>('high');
+  const [graphicsQuality, setGraphicsQuality] = useState<GraphicsQuality>('high');
+  const [aiSettings, setAiSettings] = useState<AIProviderSettings>(DEFAULT_AI_SETTINGS);
+  const [aiCalls, setAiCalls] = useState<AICallRecord[]>([]);
+  // Cached, retried and time-limited; every call is listed in the AI request panel
+  const aiProvider = useMemo(() => withRequestLayer(createAIProvider(aiSettings), {
+    onRecord: record => setAiCalls(prev => [record, ...prev].slice(0, MAX_AI_CALL_RECORDS))
+  }), [aiSettings]);
+  // A newer search or selection cancels the AI call of the previous one
+  const searchAbortRef = useRef<AbortController | null>(null);
+  const summaryAbortRef = useRef<AbortController | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [showTransfer, setShowTransfer] = useState(false);
+  // Open image export dialog; subtreeRootId limits the export to one branch
+  const [imageExport, setImageExport] = useState<{ subtreeRootId: string | null } | null>(null);
   const [showGraphicsPrompt, setShowGraphicsPrompt] = useState(false);
-  const [sidebarTab, setSidebarTab] = useState<TabType>('all');
   const [isDriveConnected, setIsDriveConnected] = useState(false);
   
   // New State for Landing Page
   const [isLanding, setIsLanding] = useState(true);
   const carouselRef = useRef<HTMLDivElement>(null);
 
+  // Persistence State (IndexedDB autosave)
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+
+  // Named Maps (Workspaces)
+  const [maps, setMaps] = useState<MapSummary[]>([]);
+  const [activeMapId, setActiveMapId] = useState<string>(() => createMapId());
+  const [activeMapName, setActiveMapName] = useState('My Mind Map');
+  const [activeMapCreatedAt, setActiveMapCreatedAt] = useState(() => new Date().toISOString());
+  const isActiveMapStored = maps.some(m => m.id === activeMapId);
+  // Map being deleted; a debounced autosave must not write it back while the delete is in flight
+  const deletingMapIdRef = useRef<string | null>(null);
+
+  // Live simulation nodes from the MindMap, read when exporting positions
+  const mindMapPositionsRef = useRef<Map<string, Node> | null>(null);
+  // Bumped to remount the MindMap so a replaced graph starts from its saved positions
+  const [mindMapEpoch, setMindMapEpoch] = useState(0);
+  const mindMapSvgRef = useRef<SVGSVGElement | null>(null);
+
+  // Full-text index over documents; kept in step with `documents` below
+  const searchIndexRef = useRef(createSearchIndex());
+  // Chunk embeddings for semantic matches, filled in the background
+  const embeddingProvider = localEmbeddingProvider;
+  const vectorIndexRef = useRef(createVectorIndex(embeddingProvider.id));
+  // Parsed as the user types so syntax errors show up under the search bar
+  const parsedQuery = useMemo(() => parseSearchQuery(query), [query]);
+  // Corrected query offered after a search without hits
+  const [didYouMean, setDidYouMean] = useState<string | null>(null);
+  // Search-as-you-type panel; activeSuggestion indexes the flattened groups (-1 = none)
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const suggestionGroups = useMemo(
+      () => showSuggestions ? buildSuggestions(query, masterGraphData.nodes, documents) : [],
+      [showSuggestions, query, masterGraphData.nodes, documents]
+  );
+  const flatSuggestions = useMemo(() => suggestionGroups.flatMap(group => group.items), [suggestionGroups]);
+  // Last query that was run; its matches are highlighted in tooltips and the context panel until the box is cleared
+  const [activeSearch, setActiveSearch] = useState<string | null>(null);
+  const documentSnippets = useMemo(() => {
+      const snippets: Record<string, Snippet[]> = {};
+      if (!activeSearch) return snippets;
+      const hitIds = new Set(queryDocuments(searchIndexRef.current, documents, parseSearchQuery(activeSearch)).map(hit => hit.docId));
+      documents.filter(d => hitIds.has(d.id)).forEach(doc => {
+          const found = buildSnippets(doc, activeSearch, searchIndexRef.current);
+          if (found.length > 0) snippets[doc.id] = found;
+      });
+      return snippets;
+  }, [activeSearch, documents]);
+  // Past searches of the active map, newest first; saved with the map
+  const [searchHistory, setSearchHistory] = useState<SearchHistoryEntry[]>([]);
+
+  // Questions asked about this map's documents
+  const [qaThread, setQaThread] = useState<QATurn[]>([]);
+  const [isAsking, setIsAsking] = useState(false);
+  const askAbortRef = useRef<AbortController | null>(null);
+  // Passage a Q&A citation points at; shown and scrolled to in the context panel
+  const [focusedCitation, setFocusedCitation] = useState<PassageCitation | null>(null);
+  const citedPassageRef = useRef<HTMLDivElement>(null);
+
+  // Suggested tags, projects and categories for uploads, waiting for review; saved with the map
+  const [tagSuggestions, setTagSuggestions] = useState<TagSuggestion[]>([]);
+  const [pendingCategorizations, setPendingCategorizations] = useState(0);
+  const categorizeAbortRef = useRef<AbortController | null>(null);
+  // Extraction runs long after the upload; it reads the current settings, not those of the upload's render
+  const categorizeSettingsRef = useRef({ enabled: !!aiSettings.autoCategorize, provider: aiProvider });
+  categorizeSettingsRef.current = { enabled: !!aiSettings.autoCategorize, provider: aiProvider };
+  // Page the PDF preview should jump to after clicking a match; the nonce makes a repeated click on the same page count
+  const [pdfPageRequest, setPdfPageRequest] = useState<{ docId: string, page: number, nonce: number } | null>(null);
+  const requestPdfPage = (docId: string, page: number) => {
+    setPdfPageRequest(prev => ({ docId, page, nonce: (prev?.nonce || 0) + 1 }));
+  };
+
+  // Upload paused until the user decides what to do with duplicate files
+  const [pendingUpload, setPendingUpload] = useState<{ files: File[], hashes: (string | null)[], parentNode: Node, candidates: DuplicateCandidate[] } | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+
+  // Smart folders list the current matches of their saved query; recomputed from documents, never stored as links.
+  // Filled in by an effect after the search index has caught up with the documents
+  const [smartFolderResults, setSmartFolderResults] = useState<Map<string, string[]>>(new Map());
+
+  // masterGraphData plus smart folder children: documents already in the graph get an extra link, others a node of their own
+  const liveGraphData = useMemo((): GraphData => {
+      if (smartFolderResults.size === 0) return masterGraphData;
+      const nodeIds = new Set(masterGraphData.nodes.map(n => n.id));
+      const docsById = new Map(documents.map(d => [d.id, d]));
+      const nodes = [...masterGraphData.nodes];
+      const links = [...masterGraphData.links];
+      smartFolderResults.forEach((docIds, folderId) => {
+          const folder = masterGraphData.nodes.find(n => n.id === folderId)!;
+          docIds.forEach(docId => {
+              if (!nodeIds.has(docId)) {
+                  nodeIds.add(docId);
+                  nodes.push(createDocumentNode(docsById.get(docId)!, (folder.level || 0) + 1, `Matches "${folder.smartFolder!.query}"`));
+              }
+              links.push({ source: folderId, target: docId, value: 1 });
+          });
+      });
+      return { nodes, links };
+  }, [masterGraphData, documents, smartFolderResults]);
+
+  // Facet filters over the map's documents; they only change what the map shows, never masterGraphData
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>(EMPTY_FACET_SELECTION);
+  const [facetDisplayMode, setFacetDisplayMode] = useState<FacetDisplayMode>('dim');
+  const facets = useMemo(() => buildFacets(documents, facetSelection), [documents, facetSelection]);
+  const facetMatchCount = useMemo(() => documents.filter(d => matchesFacets(d, facetSelection)).length, [documents, facetSelection]);
+  // null while no filter is active
+  const facetNodeIds = useMemo(
+      () => hasActiveFacets(facetSelection) ? matchingNodeIds(liveGraphData, documents, facetSelection) : null,
+      [liveGraphData, documents, facetSelection]
+  );
+
+  // Text extraction progress for uploads, keyed by document id (0..1)
+  const [extractionProgress, setExtractionProgress] = useState<Record<string, { title: string, progress: number }>>({});
+
+  // Undo/Redo History
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  // Left overlay of the workspace; only one is open at a time
+  const [leftPanel, setLeftPanel] = useState<'history' | 'facets' | 'searches' | 'requests' | 'ask' | 'review' | null>(null);
+  const toggleLeftPanel = (panel: 'history' | 'facets' | 'searches' | 'requests' | 'ask' | 'review') => setLeftPanel(prev => prev === panel ? null : panel);
+  // Latest graph + documents, updated synchronously so consecutive commands in one event see each other's results
+  const workspaceRef = useRef<WorkspaceSnapshot>({ graph: masterGraphData, documents });
+  workspaceRef.current = { graph: masterGraphData, documents };
+  // While set, every recorded mutation merges into a single undo step
+  const historyGroupRef = useRef<{ id: string, label: string } | null>(null);
+
   const themeConfig = THEMES[theme];
   const isDarkMode = theme === AppTheme.CYBER || theme === AppTheme.MINIMAL;
 
@@ -91,10 +297,10 @@ function App() {
           const currentId = queue.shift()!;
           visibleNodeIds.add(currentId);
 
-          const currentNode = masterGraphData.nodes.find(n => n.id === currentId);
+          const currentNode = liveGraphData.nodes.find(n => n.id === currentId);
           // If node exists and is NOT collapsed (Blossomed), add children to queue
           if (currentNode && !currentNode.collapsed) {
-              const childrenLinks = masterGraphData.links.filter(l => {
+              const childrenLinks = liveGraphData.links.filter(l => {
                   const s = typeof l.source === 'object' ? l.source.id : l.source;
                   return s === currentId;
               });
@@ -108,8 +314,13 @@ function App() {
           }
       }
 
-      const nodes = masterGraphData.nodes.filter(n => visibleNodeIds.has(n.id));
-      const links = masterGraphData.links.filter(l => {
+      // Hidden facet mode drops non-matching nodes the same way collapsing does
+      if (facetNodeIds && facetDisplayMode === 'hide') {
+          visibleNodeIds.forEach(id => { if (!facetNodeIds.has(id)) visibleNodeIds.delete(id); });
+      }
+
+      const nodes = liveGraphData.nodes.filter(n => visibleNodeIds.has(n.id));
+      const links = liveGraphData.links.filter(l => {
           const s = typeof l.source === 'object' ? l.source.id : l.source;
           const t = typeof l.target === 'object' ? l.target.id : l.target;
           return visibleNodeIds.has(s as string) && visibleNodeIds.has(t as string);
@@ -117,7 +328,526 @@ function App() {
 
       return { nodes, links };
 
-  }, [masterGraphData]);
+  }, [liveGraphData, facetNodeIds, facetDisplayMode]);
+
+  const dimmedNodeIds = useMemo(() => {
+      if (!facetNodeIds || facetDisplayMode !== 'dim') return undefined;
+      return new Set(visibleGraphData.nodes.filter(n => !facetNodeIds.has(n.id)).map(n => n.id));
+  }, [visibleGraphData, facetNodeIds, facetDisplayMode]);
+
+  const handleToggleFacet = (key: FacetKey, value: string) => {
+      setFacetSelection(prev => ({
+          ...prev,
+          [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value]
+      }));
+  };
+
+  // --- WORKSPACE PERSISTENCE ---
+
+  const buildActiveMap = (): MindMapWorkspace => ({
+    id: activeMapId,
+    name: activeMapName,
+    graph: masterGraphData,
+    documents,
+    layoutMode,
+    createdAt: activeMapCreatedAt,
+    updatedAt: lastSavedAt || activeMapCreatedAt,
+    searchHistory,
+    qaThread,
+    tagSuggestions
+  });
+
+  // Keep the listing ordered by recency: the map that was just touched goes first
+  const upsertMapSummary = (summary: MapSummary) => {
+    setMaps(prev => [summary, ...prev.filter(m => m.id !== summary.id)]);
+  };
+
+  const applyMap = (map: MindMapWorkspace) => {
+    setActiveMapId(map.id);
+    setActiveMapName(map.name);
+    setActiveMapCreatedAt(map.createdAt);
+    setLastSavedAt(map.updatedAt);
+    setMasterGraphData(map.graph);
+    setDocuments(map.documents);
+    setLayoutMode(map.layoutMode);
+    setIsDriveConnected(map.graph.nodes.some(n => n.id === 'drive-root'));
+    setSelectedNode(null);
+    setSelectedDocSummary('');
+    setQuery('');
+    setActiveSearch(null);
+    setFacetSelection(EMPTY_FACET_SELECTION);
+    setSearchHistory(map.searchHistory || []);
+    askAbortRef.current?.abort();
+    setQaThread(map.qaThread || []);
+    setFocusedCitation(null);
+    // Suggestions still being computed belong to the previous map
+    categorizeAbortRef.current?.abort();
+    categorizeAbortRef.current = null;
+    setPendingCategorizations(0);
+    setTagSuggestions(map.tagSuggestions || []);
+    // History belongs to a single map
+    workspaceRef.current = { graph: map.graph, documents: map.documents };
+    setHistory(EMPTY_HISTORY);
+    resumePendingExtractions(map.documents);
+    backfillContentHashes(map.documents);
+  };
+
+  // Blob URLs of the map being closed are no longer reachable
+  const releaseActiveFileUrls = () => {
+    documents.forEach(d => { if (d.fileUrl) URL.revokeObjectURL(d.fileUrl); });
+  };
+
+  const persistActiveMap = async () => {
+    const saved = await saveMap(buildActiveMap());
+    upsertMapSummary(summarizeMap(saved));
+    return saved;
+  };
+
+  // Restore the most recently used map on startup
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([loadSettings(), listMaps()])
+      .then(async ([{ settings, activeMapId: storedActiveId }, storedMaps]) => {
+        if (cancelled) return;
+        if (settings) {
+          setTheme(settings.theme);
+          setLinkStyle(settings.linkStyle);
+          setGraphicsQuality(settings.graphicsQuality);
+          if (settings.ai) setAiSettings({ ...DEFAULT_AI_SETTINGS, ...settings.ai });
+        }
+        setMaps(storedMaps);
+        pruneResponseCache(MAX_CACHED_AI_RESPONSES).catch(err => console.error("AI response cache cleanup failed", err));
+
+        const targetId = storedMaps.some(m => m.id === storedActiveId) ? storedActiveId : storedMaps[0]?.id;
+        if (!targetId) return;
+
+        const map = await loadMap(targetId);
+        if (!map || cancelled) return;
+        applyMap(map);
+        // Nothing in memory references blobs of documents that were not saved, so drop them now
+        pruneFileBlobs(map.id, map.documents.map(d => d.id)).catch(err => console.error("Blob cleanup failed", err));
+      })
+      .catch(err => console.error("Workspace restore failed", err))
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+
+    return () => { cancelled = true; };
+  }, []);
+
+  // Index new and edited documents and drop deleted ones (including deletes via handleDeleteNode and undo)
+  useEffect(() => {
+    syncSearchIndex(searchIndexRef.current, documents);
+    syncVectorIndex(vectorIndexRef.current, documents, embeddingProvider);
+  }, [documents]);
+
+  // Declared after the index sync so the queries see the current documents
+  useEffect(() => {
+    const results = new Map<string, string[]>();
+    masterGraphData.nodes.forEach(n => {
+      if (!n.smartFolder) return;
+      results.set(n.id, queryDocuments(searchIndexRef.current, documents, parseSearchQuery(n.smartFolder.query)).map(hit => hit.docId));
+    });
+    // Maps without smart folders keep the same empty result so the live graph is not rebuilt
+    setSmartFolderResults(prev => prev.size === 0 && results.size === 0 ? prev : results);
+  }, [masterGraphData.nodes, documents]);
+
+  // Autosave the active map (debounced) whenever graph, documents or settings change
+  useEffect(() => {
+    if (isRestoring) return; // Never overwrite stored maps with the initial defaults
+    if (isLanding && !isActiveMapStored) return; // Browsing the landing page should not create an empty map
+
+    const timer = window.setTimeout(() => {
+      if (deletingMapIdRef.current === activeMapId) return;
+      setSaveStatus('saving');
+      Promise.all([
+        persistActiveMap(),
+        saveSettings({ theme, linkStyle, graphicsQuality, ai: aiSettings }, activeMapId)
+      ])
+        .then(([saved]) => {
+          setLastSavedAt(saved.updatedAt);
+          setSaveStatus('saved');
+        })
+        .catch(err => {
+          console.error("Autosave failed", err);
+          setSaveStatus('error');
+        });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => window.clearTimeout(timer);
+  }, [isRestoring, isLanding, activeMapId, activeMapName, masterGraphData, documents, searchHistory, qaThread, tagSuggestions, theme, layoutMode, linkStyle, graphicsQuality, aiSettings]);
+
+  // --- UNDO / REDO HISTORY ---
+
+  /**
+   * Applies an undoable command to the graph and documents and records it in the history.
+   * The mutator must return the same snapshot object when it has nothing to change.
+   */
+  const commitMutation = (label: string, mutate: (current: WorkspaceSnapshot) => WorkspaceSnapshot) => {
+    const before = workspaceRef.current;
+    const after = mutate(before);
+    if (after === before) return;
+
+    workspaceRef.current = after;
+    if (after.graph !== before.graph) setMasterGraphData(after.graph);
+    if (after.documents !== before.documents) setDocuments(after.documents);
+
+    const group = historyGroupRef.current;
+    setHistory(prev => recordHistoryEntry(prev, {
+      label: group ? group.label : label,
+      groupId: group?.id,
+      before,
+      after
+    }));
+  };
+
+  /**
+   * Runs several commands as one undo step (e.g. a bulk folder upload).
+   */
+  const runAsHistoryGroup = (label: string, fn: () => void) => {
+    const outerGroup = historyGroupRef.current;
+    if (!outerGroup) historyGroupRef.current = { id: createHistoryGroupId(), label };
+    try {
+      fn();
+    } finally {
+      if (!outerGroup) historyGroupRef.current = null;
+    }
+  };
+
+  const restoreSnapshot = (snapshot: WorkspaceSnapshot, nextHistory: HistoryState) => {
+    workspaceRef.current = snapshot;
+    setMasterGraphData(snapshot.graph);
+    setDocuments(snapshot.documents);
+    setHistory(nextHistory);
+    // Keep the detail panel in sync with the restored node (or close it if the node is gone)
+    setSelectedNode(prev => prev ? (snapshot.graph.nodes.find(n => n.id === prev.id) || null) : null);
+    setIsDriveConnected(snapshot.graph.nodes.some(n => n.id === 'drive-root'));
+  };
+
+  const handleUndo = () => {
+    const result = undoHistory(history);
+    if (result) restoreSnapshot(result.snapshot, result.history);
+  };
+
+  const handleRedo = () => {
+    const result = redoHistory(history);
+    if (result) restoreSnapshot(result.snapshot, result.history);
+  };
+
+  const handleJumpToHistory = (entryId: string) => {
+    const result = jumpToHistoryEntry(history, entryId);
+    if (result) restoreSnapshot(result.snapshot, result.history);
+  };
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isLanding || !(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      // Leave native text undo alone inside form fields
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- IMPORT / EXPORT ---
+
+  const handleExportBundle = async (includeFiles: boolean) => {
+    const bundle = await createMapBundle({
+      name: activeMapName,
+      layoutMode,
+      createdAt: activeMapCreatedAt,
+      settings: { theme, linkStyle, graphicsQuality },
+      graph: masterGraphData,
+      documents,
+      positions: mindMapPositionsRef.current || undefined
+    }, { includeFiles });
+    downloadMapBundle(bundle);
+  };
+
+  const handleImportBundle = async (bundle: MapBundle, mode: ImportMode) => {
+    const files = extractBundleFiles(bundle);
+
+    if (mode === 'replace') {
+      const importedDocs = await Promise.all(bundle.documents.map(async doc => {
+        const blob = files.get(doc.id);
+        if (!blob) return doc;
+        await saveFileBlob(activeMapId, doc.id, blob);
+        return { ...doc, fileUrl: URL.createObjectURL(blob) };
+      }));
+
+      // Like opening another map: the old documents' blob URLs and stored files are released, so there is no undo
+      releaseActiveFileUrls();
+      workspaceRef.current = { graph: bundle.graph, documents: importedDocs };
+      setMasterGraphData(bundle.graph);
+      setDocuments(importedDocs);
+      setHistory(EMPTY_HISTORY);
+      pruneFileBlobs(activeMapId, importedDocs.filter(d => files.has(d.id)).map(d => d.id)).catch(err => console.error("Blob cleanup failed", err));
+      setLayoutMode(bundle.map.layoutMode);
+      setTheme(bundle.settings.theme);
+      setLinkStyle(bundle.settings.linkStyle);
+      setGraphicsQuality(bundle.settings.graphicsQuality);
+      setIsDriveConnected(bundle.graph.nodes.some(n => n.id === 'drive-root'));
+      setSelectedNode(null);
+      setMindMapEpoch(prev => prev + 1);
+      return;
+    }
+
+    const merged = mergeBundleIntoMap(workspaceRef.current, bundle);
+    const fileUrls = new Map<string, string>();
+    for (const [docId, blob] of files) {
+      const mergedId = merged.idMap.get(docId);
+      if (!mergedId) continue;
+      await saveFileBlob(activeMapId, mergedId, blob);
+      fileUrls.set(mergedId, URL.createObjectURL(blob));
+    }
+
+    commitMutation(`Merge "${bundle.map.name}"`, () => ({
+      graph: merged.graph,
+      documents: merged.documents.map(d => fileUrls.has(d.id) ? { ...d, fileUrl: fileUrls.get(d.id) } : d)
+    }));
+    if (merged.graph.nodes.some(n => n.id === 'drive-root')) setIsDriveConnected(true);
+  };
+
+  const handleExportOutline = (format: OutlineFormat) => {
+    const outline = graphToOutline(masterGraphData, documents);
+    if (format === 'opml') {
+      downloadTextFile(outlineToOpml(outline), `${toFileSlug(activeMapName)}.opml`, 'text/x-opml');
+    } else {
+      downloadTextFile(outlineToMarkdown(outline), `${toFileSlug(activeMapName)}.md`, 'text/markdown');
+    }
+  };
+
+  const handleImportOutline = (outline: OutlineItem) => {
+    const root = workspaceRef.current.graph.nodes.find(n => n.id === 'root');
+    if (!root) return;
+
+    const imported = outlineToGraph(outline.children, root);
+    commitMutation(`Import outline${outline.text ? ` "${outline.text}"` : ''} (${imported.nodes.length} nodes)`, ws => ({
+      graph: {
+        nodes: ws.graph.nodes.map(n => n.id === 'root' ? { ...n, collapsed: false } : n).concat(imported.nodes),
+        links: [...ws.graph.links, ...imported.links]
+      },
+      documents: imported.documents.length > 0 ? [...ws.documents, ...imported.documents] : ws.documents
+    }));
+    setCurrentView('map');
+  };
+
+  // Node ids of a branch (the node and all of its descendants)
+  const collectSubtreeIds = (rootId: string) => {
+    const ids = new Set<string>([rootId]);
+    const queue = [rootId];
+    while (queue.length > 0) {
+      const currentId = queue.pop()!;
+      masterGraphData.links.forEach(l => {
+        const s = typeof l.source === 'object' ? l.source.id : l.source;
+        const t = typeof l.target === 'object' ? l.target.id : l.target;
+        if (s === currentId && !ids.has(t)) {
+          ids.add(t);
+          queue.push(t);
+        }
+      });
+    }
+    return ids;
+  };
+
+  const imageExportSubtreeRoot = imageExport?.subtreeRootId
+    ? masterGraphData.nodes.find(n => n.id === imageExport.subtreeRootId)
+    : undefined;
+
+  // --- TEXT EXTRACTION ---
+
+  /**
+   * Applies a background update to one document without recording an undo step.
+   */
+  const patchDocument = (docId: string, updates: Partial<Document>) => {
+    const patch = (docs: Document[]) => docs.some(d => d.id === docId) ? docs.map(d => d.id === docId ? { ...d, ...updates } : d) : docs;
+    workspaceRef.current = { ...workspaceRef.current, documents: patch(workspaceRef.current.documents) };
+    setDocuments(patch);
+    setHistory(prev => patchHistoryDocument(prev, docId, updates));
+  };
+
+  /**
+   * Extracts text from uploaded files one at a time (keeps memory flat for big folders).
+   */
+  const runExtractionJobs = async (jobs: { docId: string, file: File }[]) => {
+    if (jobs.length === 0) return;
+    setExtractionProgress(prev => ({
+      ...prev,
+      ...Object.fromEntries(jobs.map(job => [job.docId, { title: job.file.name, progress: 0 }]))
+    }));
+
+    const extractedIds: string[] = [];
+    for (const job of jobs) {
+      try {
+        const result = await extractText(job.file, progress => {
+          setExtractionProgress(prev => prev[job.docId] ? { ...prev, [job.docId]: { ...prev[job.docId], progress } } : prev);
+        });
+        patchDocument(job.docId, extractionUpdate(result));
+        extractedIds.push(job.docId);
+      } catch (err) {
+        console.error(`Text extraction failed for ${job.file.name}`, err);
+        patchDocument(job.docId, extractionUpdate({ error: err instanceof Error ? err.message : 'Could not read file' }));
+      }
+      setExtractionProgress(prev => {
+        const { [job.docId]: _done, ...rest } = prev;
+        return rest;
+      });
+    }
+    categorizeUploads(extractedIds);
+  };
+
+  /**
+   * Queues tag, project and category suggestions for freshly extracted uploads, one document at a time.
+   * Does nothing unless auto-categorization is switched on.
+   */
+  const categorizeUploads = async (docIds: string[]) => {
+    const { enabled, provider } = categorizeSettingsRef.current;
+    if (!enabled || docIds.length === 0) return;
+    if (!categorizeAbortRef.current) categorizeAbortRef.current = new AbortController();
+    const controller = categorizeAbortRef.current;
+    setPendingCategorizations(prev => prev + docIds.length);
+
+    for (const docId of docIds) {
+      try {
+        const doc = workspaceRef.current.documents.find(d => d.id === docId);
+        if (!doc || !doc.content.trim()) continue;
+        const suggestion = await suggestCategorization(doc, workspaceRef.current, provider, controller.signal);
+        if (suggestion) setTagSuggestions(prev => queueSuggestion(prev, suggestion));
+      } catch (error) {
+        // Cancelled by switching maps; the new map's counter was already reset
+        if (isAbortError(error)) return;
+      } finally {
+        if (!controller.signal.aborted) setPendingCategorizations(prev => Math.max(0, prev - 1));
+      }
+    }
+  };
+
+  /**
+   * Restarts extractions that were interrupted by a reload, reading the file back from its stored blob.
+   */
+  const resumePendingExtractions = async (docs: Document[]) => {
+    const pending = docs.filter(d => d.extractionStatus === 'pending' && d.fileUrl);
+    const jobs: { docId: string, file: File }[] = [];
+    for (const doc of pending) {
+      try {
+        const blob = await (await fetch(doc.fileUrl!)).blob();
+        jobs.push({ docId: doc.id, file: new File([blob], doc.title) });
+      } catch (err) {
+        patchDocument(doc.id, extractionUpdate({ error: 'The uploaded file is no longer available' }));
+      }
+    }
+    runExtractionJobs(jobs);
+  };
+
+  /**
+   * Hashes uploads stored before content hashes existed, so they take part in duplicate detection.
+   */
+  const backfillContentHashes = async (docs: Document[]) => {
+    for (const doc of docs.filter(d => d.fileUrl && !d.contentHash)) {
+      try {
+        const hash = await hashFile(await (await fetch(doc.fileUrl!)).blob());
+        if (!hash) return;
+        patchDocument(doc.id, { contentHash: hash });
+      } catch (err) {
+        console.warn(`Could not hash ${doc.title}`, err);
+      }
+    }
+  };
+
+  // --- MAP MANAGEMENT ---
+
+  const handleSwitchMap = async (mapId: string) => {
+    if (mapId === activeMapId) {
+      setIsLanding(false);
+      setCurrentView('map');
+      return;
+    }
+
+    try {
+      if (isActiveMapStored || !isLanding) await persistActiveMap();
+      const map = await loadMap(mapId);
+      if (!map) return;
+      releaseActiveFileUrls();
+      applyMap(map);
+      setIsLanding(false);
+      setCurrentView('map');
+      pruneFileBlobs(map.id, map.documents.map(d => d.id)).catch(err => console.error("Blob cleanup failed", err));
+    } catch (err) {
+      console.error("Could not open map", err);
+      alert("Could not open that map.");
+    }
+  };
+
+  const handleRenameMap = async (mapId: string) => {
+    const current = mapId === activeMapId ? activeMapName : maps.find(m => m.id === mapId)?.name;
+    const name = prompt("Rename mind map:", current || '')?.trim();
+    if (!name || name === current) return;
+
+    if (mapId === activeMapId) {
+      setActiveMapName(name); // Autosave persists the new name
+      return;
+    }
+
+    try {
+      const summary = await renameMap(mapId, name);
+      if (summary) upsertMapSummary(summary);
+    } catch (err) {
+      console.error("Rename failed", err);
+    }
+  };
+
+  const handleDuplicateMap = async (mapId: string) => {
+    try {
+      if (mapId === activeMapId) await persistActiveMap();
+      const sourceName = mapId === activeMapId ? activeMapName : maps.find(m => m.id === mapId)?.name;
+      const copy = await duplicateMap(mapId, `${sourceName || 'Mind Map'} (copy)`);
+      if (copy) upsertMapSummary(summarizeMap(copy));
+    } catch (err) {
+      console.error("Duplicate failed", err);
+      alert("Could not duplicate that map.");
+    }
+  };
+
+  const handleDeleteMap = async (mapId: string) => {
+    const name = mapId === activeMapId ? activeMapName : maps.find(m => m.id === mapId)?.name;
+    if (!confirm(`Delete "${name}"? Its graph and uploaded files will be removed from this browser.`)) return;
+
+    deletingMapIdRef.current = mapId;
+    try {
+      await deleteMap(mapId);
+      const remaining = maps.filter(m => m.id !== mapId);
+      setMaps(remaining);
+      if (mapId !== activeMapId) return;
+
+      releaseActiveFileUrls();
+      const next = remaining[0] ? await loadMap(remaining[0].id) : null;
+      if (next) {
+        applyMap(next);
+      } else {
+        // Last map gone: fall back to a fresh, unsaved map on the landing page
+        const now = new Date().toISOString();
+        applyMap({ id: createMapId(), name: 'My Mind Map', graph: INITIAL_GRAPH_DATA, documents: MOCK_DOCUMENTS, layoutMode: LayoutMode.SPIDER, createdAt: now, updatedAt: now });
+        setIsLanding(true);
+      }
+    } catch (err) {
+      console.error("Delete failed", err);
+      alert("Could not delete that map.");
+    } finally {
+      deletingMapIdRef.current = null;
+    }
+  };
 
   // Reset root node appearance when switching modes or starting fresh
   useEffect(() => {
@@ -165,9 +895,17 @@ function App() {
     }));
   }, [layoutMode]);
 
-  const handleStartProject = (mode: LayoutMode) => {
-      setLayoutMode(mode);
-      setIsLanding(false);
+  const handleStartProject = async (mode: LayoutMode) => {
+      // Keep the current map; a new one is created alongside it
+      if (isActiveMapStored || !isLanding) {
+          try {
+              await persistActiveMap();
+          } catch (err) {
+              console.error("Could not save current map", err);
+          }
+      }
+      releaseActiveFileUrls();
+
       
       const startNodeName = mode === LayoutMode.SEED ? "Grow your idea tree" : "MindSearch AI";
       // Explicitly start as SEED icon for Seed Mode
@@ -185,14 +923,18 @@ function App() {
           collapsed: false 
       };
       
-      const nodes = [rootNode];
-      const links: any[] = [];
-
-      setMasterGraphData({
-        nodes,
-        links
+      const now = new Date().toISOString();
+      applyMap({
+          id: createMapId(),
+          name: `${mode === LayoutMode.SEED ? 'Idea Tree' : 'Mind Map'} ${maps.length + 1}`,
+          graph: { nodes: [rootNode], links: [] },
+          documents: MOCK_DOCUMENTS,
+          layoutMode: mode,
+          createdAt: now,
+          updatedAt: now
       });
-      setQuery('');
+      setIsLanding(false);
+      setCurrentView('map');
 
       // Show graphics prompt if Seed mode
       if (mode === LayoutMode.SEED) {
@@ -205,71 +947,165 @@ function App() {
       setCurrentView('map');
   };
 
-  const handleSearch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!query.trim()) return;
+  /**
+   * Expands every collapsed ancestor of a node so it is visible in the map.
+   */
+  const revealNode = (node: Node) => {
+    const parentMap = new Map<string, string>();
+    masterGraphData.links.forEach(l => {
+        const s = typeof l.source === 'object' ? l.source.id : l.source;
+        const t = typeof l.target === 'object' ? l.target.id : l.target;
+        parentMap.set(t as string, s as string);
+    });
 
-    // --- 1. LOCAL SEARCH (Priority) ---
-    // Search within existing graph first (File Searcher behavior)
-    const lowerQuery = query.toLowerCase();
-    const matches = masterGraphData.nodes.filter(n => 
-        n.name.toLowerCase().includes(lowerQuery) || 
-        (n.description && n.description.toLowerCase().includes(lowerQuery))
-    );
+    const nodesToExpand = new Set<string>();
+    let curr = node.id;
+    while(curr) {
+        const pid = parentMap.get(curr);
+        if (!pid || nodesToExpand.has(pid)) break;
+        nodesToExpand.add(pid);
+        curr = pid;
+    }
 
-    // Rank matches: Exact > StartsWith > Includes
-    matches.sort((a, b) => {
-        const aName = a.name.toLowerCase();
-        const bName = b.name.toLowerCase();
-        if (aName === lowerQuery && bName !== lowerQuery) return -1;
-        if (bName === lowerQuery && aName !== lowerQuery) return 1;
-        if (aName.startsWith(lowerQuery) && !bName.startsWith(lowerQuery)) return -1;
-        if (bName.startsWith(lowerQuery) && !aName.startsWith(lowerQuery)) return 1;
-        return 0;
-    });
+    if (masterGraphData.nodes.some(n => nodesToExpand.has(n.id) && n.collapsed)) {
+        commitMutation(`Reveal "${node.name}"`, ws => ({
+            ...ws,
+            graph: {
+                ...ws.graph,
+                nodes: ws.graph.nodes.map(n => 
+                    nodesToExpand.has(n.id) ? { ...n, collapsed: false } : n
+                )
+            }
+        }));
+    }
+  };
 
-    const bestMatch = matches[0];
+  // Opens a document's detail panel, through its graph node when it has one
+  const openDocument = (doc: Document) => {
+      const fileNode = masterGraphData.nodes.find(n => n.id === doc.id);
+      if (fileNode) {
+          handleNodeSelect(fileNode);
+          return;
+      }
+      // Temporary node for viewing documents that aren't visually on the graph
+      const parentNode = masterGraphData.nodes.find(n => n.id === doc.parentId);
+      handleNodeSelect({
+          ...createDocumentNode(doc, (parentNode?.level || 0) + 1, doc.content || 'Attached File'),
+          project: parentNode?.project ?? doc.project
+      });
+  };
 
-    if (bestMatch) {
-        // Expand path to the found node so it's visible
-        const parentMap = new Map<string, string>();
-        masterGraphData.links.forEach(l => {
-            const s = typeof l.source === 'object' ? l.source.id : l.source;
-            const t = typeof l.target === 'object' ? l.target.id : l.target;
-            parentMap.set(t as string, s as string);
-        });
+  const handleChooseSuggestion = (suggestion: Suggestion) => {
+      setActiveSuggestion(-1);
+      if (suggestion.kind === 'tag' || suggestion.kind === 'project') {
+          setQuery(applyFilterSuggestion(query, suggestion));
+          return;
+      }
 
-        const nodesToExpand = new Set<string>();
-        let curr = bestMatch.id;
-        while(curr) {
-            const pid = parentMap.get(curr);
-            if (!pid) break;
-            nodesToExpand.add(pid);
-            curr = pid;
-        }
+      setShowSuggestions(false);
+      setQuery(suggestion.label);
+      if (suggestion.kind === 'node') {
+          const node = masterGraphData.nodes.find(n => n.id === suggestion.id);
+          if (!node) return;
+          revealNode(node);
+          setCurrentView('map');
+          // Selecting sets focusedNodeId, which makes the MindMap zoom to the node
+          handleNodeSelect(node);
+      } else {
+          const doc = documents.find(d => d.id === suggestion.id);
+          if (doc) openDocument(doc);
+      }
+  };
 
-        setMasterGraphData(prev => ({
-            ...prev,
-            nodes: prev.nodes.map(n => 
-                nodesToExpand.has(n.id) ? { ...n, collapsed: false } : n
-            )
-        }));
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      const count = flatSuggestions.length;
+      if (!showSuggestions || count === 0) return;
+      if (e.key === 'ArrowDown') {
+          e.preventDefault();
+          setActiveSuggestion(prev => (prev + 1) % count);
+      } else if (e.key === 'ArrowUp') {
+          e.preventDefault();
+          setActiveSuggestion(prev => (prev <= 0 ? count - 1 : prev - 1));
+      } else if (e.key === 'Enter' && activeSuggestion >= 0 && activeSuggestion < count) {
+          e.preventDefault();
+          handleChooseSuggestion(flatSuggestions[activeSuggestion]);
+      } else if (e.key === 'Escape') {
+          setShowSuggestions(false);
+      }
+  };
 
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    runSearch(query);
+  };
+
+  const runSearch = async (searchText: string) => {
+    const parsed = parseSearchQuery(searchText);
+    if (!searchText.trim() || parsed.errors.length > 0) return;
+    setDidYouMean(null);
+    setShowSuggestions(false);
+    setActiveSearch(searchText);
+
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    setIsLoading(false);
+
+    // --- 1. LOCAL SEARCH (Priority) ---
+    // Search within existing graph first (File Searcher behavior); structured queries go straight to document search
+    // Rank matches: Exact > StartsWith > Includes > Description > Fuzzy (typos)
+    const lowerQuery = searchText.toLowerCase();
+    const matches = !isPlainTextQuery(parsed) ? [] : masterGraphData.nodes
+        .map(n => {
+            const nameScore = scoreNameMatch(n.name, searchText);
+            const descriptionScore = n.description && n.description.toLowerCase().includes(lowerQuery) ? 50 : 0;
+            return { node: n, score: Math.max(nameScore, descriptionScore) };
+        })
+        .filter(m => m.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .map(m => m.node);
+
+    const bestMatch = matches[0];
+
+    if (bestMatch) {
+        revealNode(bestMatch);
         setSelectedNode(bestMatch);
+        const documentIds = new Set(documents.map(d => d.id));
+        recordSearchRun(searchText, matches.filter(n => documentIds.has(n.id)).map(n => n.id), 'local');
         return; // Stop here if local match found
     }
 
-    // --- 2. GENERATIVE FALLBACK ---
+    // Documents close in meaning count as hits even without shared words
+    const semantic = await semanticSearch(vectorIndexRef.current, embeddingProvider, parsed.text);
+    if (controller.signal.aborted) return;
+
+    // --- 2. NO HITS: SUGGEST A SPELLING ---
+    if (queryDocuments(searchIndexRef.current, documents, parsed, semantic).length === 0) {
+        const suggestion = suggestQuery(searchIndexRef.current, searchText, buildVocabulary(masterGraphData.nodes.map(n => n.name)));
+        if (suggestion) {
+            setDidYouMean(suggestion);
+            recordSearchRun(searchText, [], 'none');
+            return;
+        }
+    }
+
+    // --- 3. GENERATIVE FALLBACK ---
     // If no local file found, generate content via AI
     setIsLoading(true);
     
     try {
-      const result = await searchAndGenerateGraph(query, documents);
+      const result = await searchAndGenerateGraph(searchText, documents, searchIndexRef.current, aiProvider, {
+        semantic,
+        contextTokens: aiSettings.contextTokens,
+        signal: controller.signal
+      });
+      if (controller.signal.aborted) return;
       
       const currentRoot = masterGraphData.nodes.find(n => n.id === 'root');
       const isDefaultName = currentRoot?.name === "Grow your idea tree" || currentRoot?.name === "MindSearch AI" || currentRoot?.name === "Grow your idea starting here";
       
-      const rootName = isDefaultName ? query : (currentRoot?.name || query);
+      const queryLabel = parsed.text || searchText;
+      const rootName = isDefaultName ? queryLabel : (currentRoot?.name || queryLabel);
 
       const rootNode: Node = {
         id: 'root',
@@ -283,8 +1119,18 @@ function App() {
         collapsed: false
       };
 
+      // Model output is checked against the map and the documents before anything is merged
+      const { graph: repaired, report } = repairGeneratedGraph(result, {
+        query: searchText,
+        documents,
+        reservedIds: new Set(masterGraphData.nodes.map(n => n.id)),
+        namespace: `search-${Date.now().toString(36)}`,
+        passages: result.context?.passages
+      });
+      logRepairReport(report);
+
       const newData: GraphData = {
-        nodes: [rootNode, ...result.nodes.filter(n => n.id !== 'root').map((n, i) => ({
+        nodes: [rootNode, ...repaired.nodes.map((n, i) => ({
             ...n,
             // Force Green for main projects/folders
             color: n.type === NodeType.PROJECT ? '#22c55e' : NODE_COLORS[i % NODE_COLORS.length],
@@ -293,30 +1139,214 @@ function App() {
             project: n.type === NodeType.PROJECT ? n.name : 'General',
             collapsed: false 
         }))],
-        links: result.links.map(l => ({
-           source: typeof l.source === 'string' && l.source !== 'root' ? l.source : 'root',
-           target: l.target,
-           value: l.value
-        }))
+        links: repaired.links
       };
-      
       const nodeIds = new Set(newData.nodes.map(n => n.id));
-      newData.links = newData.links.filter(l => nodeIds.has(l.source as string) && nodeIds.has(l.target as string));
 
-      setMasterGraphData(newData);
+      recordSearchRun(searchText, repaired.nodes.filter(n => n.type === NodeType.DOCUMENT).map(n => n.id), result.answeredBy);
+
+      commitMutation(`Search "${searchText}"`, ws => {
+          // Saved searches outlive the result set they were created next to
+          const smartFolders = ws.graph.nodes.filter(n => n.smartFolder && !nodeIds.has(n.id));
+          return {
+              ...ws,
+              graph: {
+                  nodes: [...newData.nodes, ...smartFolders.map(n => ({ ...n, level: 1 }))],
+                  links: [...newData.links, ...smartFolders.map(n => ({ source: 'root', target: n.id, value: 2 }))]
+              }
+          };
+      });
       setCurrentView('map');
     } catch (error) {
-      console.error("Search failed", error);
+      if (!isAbortError(error)) console.error("Search failed", error);
     } finally {
-      setIsLoading(false);
+      // A newer search owns the loading state now
+      if (searchAbortRef.current === controller) setIsLoading(false);
     }
   };
 
-  const handleNodeUpdate = (nodeId: string, updates: Partial<Node>) => {
-    setMasterGraphData(prev => ({
-      ...prev,
-      nodes: prev.nodes.map(n => n.id === nodeId ? { ...n, ...updates } : n)
+  const recordSearchRun = (searchText: string, resultIds: string[], answeredBy: SearchAnswer) => {
+    setSearchHistory(prev => recordSearch(prev, createSearchHistoryEntry(searchText, resultIds, answeredBy)));
+  };
+
+  const handleReplaySearch = (entry: SearchHistoryEntry) => {
+    setQuery(entry.query);
+    runSearch(entry.query);
+  };
+
+  // --- ASK YOUR DOCUMENTS ---
+
+  const handleAsk = async (question: string) => {
+    askAbortRef.current?.abort();
+    const controller = new AbortController();
+    askAbortRef.current = controller;
+    setIsAsking(true);
+
+    try {
+      const semantic = await semanticSearch(vectorIndexRef.current, embeddingProvider, question);
+      const turn = await askDocuments(question, documents, searchIndexRef.current, aiProvider, qaThread, {
+        semantic,
+        contextTokens: aiSettings.contextTokens,
+        signal: controller.signal
+      });
+      if (!controller.signal.aborted) setQaThread(prev => appendTurn(prev, turn));
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Question failed", error);
+    } finally {
+      if (askAbortRef.current === controller) setIsAsking(false);
+    }
+  };
+
+  /**
+   * Selects the cited document's node (zooming the map to it) and shows the passage in the context panel.
+   */
+  const handleCitationClick = (citation: PassageCitation) => {
+    const doc = documents.find(d => d.id === citation.docId);
+    if (!doc) return;
+    const node = masterGraphData.nodes.find(n => n.id === doc.id);
+    if (node) {
+        revealNode(node);
+        handleNodeSelect(node);
+    } else {
+        openDocument(doc);
+    }
+    setCurrentView('map');
+    setFocusedCitation(citation);
+    if (doc.pageOffsets) requestPdfPage(doc.id, pageForOffset(doc.pageOffsets, citation.start));
+  };
+
+  useEffect(() => {
+    if (focusedCitation) citedPassageRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusedCitation]);
+
+  // --- UPLOAD CATEGORIZATION ---
+
+  const handleAcceptSuggestion = (suggestion: TagSuggestion, tags: string[]) => {
+    const doc = workspaceRef.current.documents.find(d => d.id === suggestion.docId);
+    if (doc) commitMutation(`File "${doc.title}" under "${suggestion.category}"`, ws => applyTagSuggestion(ws, suggestion, tags));
+    setTagSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+  };
+
+  const handleAcceptAllSuggestions = (accepted: { suggestion: TagSuggestion, tags: string[] }[]) => {
+    runAsHistoryGroup(`File ${accepted.length} upload${accepted.length === 1 ? '' : 's'}`, () => {
+      accepted.forEach(({ suggestion, tags }) => handleAcceptSuggestion(suggestion, tags));
+    });
+  };
+
+  const handleRejectSuggestion = (suggestion: TagSuggestion) => {
+    setTagSuggestions(prev => prev.filter(s => s.id !== suggestion.id));
+  };
+
+  // Suggestions for deleted documents stay out of the badge and the panel
+  const reviewCount = tagSuggestions.filter(s => documents.some(d => d.id === s.docId)).length;
+
+  // --- SMART FOLDERS ---
+
+  /**
+   * Applies a background update to one node, in the map and in every history snapshot, without recording an undo step.
+   */
+  const patchNode = (nodeId: string, update: (node: Node) => Node) => {
+    const patch = (graph: GraphData) => graph.nodes.some(n => n.id === nodeId)
+      ? { ...graph, nodes: graph.nodes.map(n => n.id === nodeId ? update(n) : n) }
+      : graph;
+    workspaceRef.current = { ...workspaceRef.current, graph: patch(workspaceRef.current.graph) };
+    setMasterGraphData(patch);
+    setHistory(prev => patchHistoryNode(prev, nodeId, update));
+  };
+
+  // Stamp a smart folder whenever its result set changes
+  useEffect(() => {
+    smartFolderResults.forEach((docIds, folderId) => {
+      const folder = masterGraphData.nodes.find(n => n.id === folderId)?.smartFolder;
+      // Compared as sets: rank order shifts whenever other documents change the scores
+      if (!folder || (folder.resultIds.length === docIds.length && folder.resultIds.every(id => docIds.includes(id)))) return;
+      const refreshedAt = new Date().toISOString();
+      // Snapshots from before an edit of the query keep the results of their own query
+      patchNode(folderId, node => node.smartFolder?.query === folder.query
+        ? { ...node, smartFolder: { ...node.smartFolder, resultIds: docIds, refreshedAt } }
+        : node);
+    });
+  }, [smartFolderResults]);
+
+  /**
+   * Checks a smart folder query; alerts and returns false when it does not parse.
+   */
+  const validateSmartQuery = (smartQuery: string) => {
+    const parsed = parseSearchQuery(smartQuery);
+    if (!parsed.ast) {
+        alert("A smart folder needs a query.");
+        return false;
+    }
+    if (parsed.errors.length > 0) {
+        alert(`Invalid query: ${parsed.errors[0].message}`);
+        return false;
+    }
+    return true;
+  };
+
+  const handleSaveSmartFolder = () => {
+    const smartQuery = query.trim();
+    if (!validateSmartQuery(smartQuery)) return;
+    const name = prompt("Smart folder name:", parseSearchQuery(smartQuery).text || smartQuery);
+    if (!name) return;
+
+    const folderNode: Node = {
+        id: `smart-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+        name,
+        type: NodeType.CATEGORY,
+        val: 18,
+        description: `Smart folder: ${smartQuery}`,
+        color: '#8b5cf6',
+        iconType: 'smart',
+        level: 1,
+        collapsed: false,
+        smartFolder: {
+            query: smartQuery,
+            resultIds: queryDocuments(searchIndexRef.current, documents, parseSearchQuery(smartQuery)).map(hit => hit.docId),
+            refreshedAt: new Date().toISOString()
+        }
+    };
+    commitMutation(`Add smart folder "${name}"`, ws => ({
+        ...ws,
+        graph: {
+            nodes: [...ws.graph.nodes, folderNode],
+            links: [...ws.graph.links, { source: 'root', target: folderNode.id, value: 2 }]
+        }
     }));
+    setSelectedNode(folderNode);
+    setCurrentView('map');
+  };
+
+  const handleEditSmartFolder = (nodeId: string) => {
+    const node = masterGraphData.nodes.find(n => n.id === nodeId);
+    if (!node?.smartFolder) return;
+    const smartQuery = prompt(`Query for "${node.name}":`, node.smartFolder.query)?.trim();
+    if (!smartQuery || smartQuery === node.smartFolder.query || !validateSmartQuery(smartQuery)) return;
+    // Results and the refresh time follow from the new query on the next render
+    handleNodeUpdate(nodeId, { smartFolder: { ...node.smartFolder, query: smartQuery }, description: `Smart folder: ${smartQuery}` });
+  };
+
+  const describeNodeUpdate = (node: Node | undefined, updates: Partial<Node>) => {
+    const name = node ? `"${node.name}"` : 'node';
+    const keys = Object.keys(updates);
+    if (keys.length === 1 && keys[0] === 'collapsed') return `${updates.collapsed ? 'Fold' : 'Expand'} ${name}`;
+    if (keys.length === 1 && keys[0] === 'name') return `Rename ${name}`;
+    return `Edit ${name}`;
+  };
+
+  const handleNodeUpdate = (nodeId: string, updates: Partial<Node>) => {
+    commitMutation(describeNodeUpdate(workspaceRef.current.graph.nodes.find(n => n.id === nodeId), updates), ws => {
+      const target = ws.graph.nodes.find(n => n.id === nodeId);
+      // Skip no-op updates so they don't clutter the history
+      if (!target || (Object.keys(updates) as (keyof Node)[]).every(k => target[k] === updates[k])) return ws;
+      return {
+        ...ws,
+        graph: {
+          ...ws.graph,
+          nodes: ws.graph.nodes.map(n => n.id === nodeId ? { ...n, ...updates } : n)
+        }
+      };
+    });
     if (selectedNode && selectedNode.id === nodeId) {
         setSelectedNode(prev => prev ? ({...prev, ...updates}) : null);
     }
@@ -326,6 +1356,7 @@ function App() {
       if (nodeId === 'root') return; // Protect root
 
       // Recursive delete logic to remove subtree
+      const graph = workspaceRef.current.graph;
       const nodesToDelete = new Set<string>();
       const queue = [nodeId];
 
@@ -334,7 +1365,7 @@ function App() {
           nodesToDelete.add(currentId);
           
           // Find children
-          const childrenLinks = masterGraphData.links.filter(l => {
+          const childrenLinks = graph.links.filter(l => {
               const s = typeof l.source === 'object' ? l.source.id : l.source;
               return s === currentId;
           });
@@ -347,14 +1378,24 @@ function App() {
           });
       }
 
-      setMasterGraphData(prev => ({
-          nodes: prev.nodes.filter(n => !nodesToDelete.has(n.id)),
-          links: prev.links.filter(l => {
-              const s = typeof l.source === 'object' ? l.source.id : l.source;
-              const t = typeof l.target === 'object' ? l.target.id : l.target;
-              return !nodesToDelete.has(s as string) && !nodesToDelete.has(t as string);
-          })
-      }));
+      const deletedNode = graph.nodes.find(n => n.id === nodeId);
+      const label = nodesToDelete.size > 1 ? `Delete "${deletedNode?.name}" and ${nodesToDelete.size - 1} descendants` : `Delete "${deletedNode?.name}"`;
+
+      commitMutation(label, ws => {
+          // Files attached to any removed node go with it
+          const isDeletedDoc = (d: Document) => nodesToDelete.has(d.id) || (!!d.parentId && nodesToDelete.has(d.parentId));
+          return {
+              graph: {
+                  nodes: ws.graph.nodes.filter(n => !nodesToDelete.has(n.id)),
+                  links: ws.graph.links.filter(l => {
+                      const s = typeof l.source === 'object' ? l.source.id : l.source;
+                      const t = typeof l.target === 'object' ? l.target.id : l.target;
+                      return !nodesToDelete.has(s as string) && !nodesToDelete.has(t as string);
+                  })
+              },
+              documents: ws.documents.some(isDeletedDoc) ? ws.documents.filter(d => !isDeletedDoc(d)) : ws.documents
+          };
+      });
 
       if (selectedNode && nodesToDelete.has(selectedNode.id)) {
           setSelectedNode(null);
@@ -461,16 +1502,21 @@ function App() {
         value: 2
     };
 
-    setMasterGraphData(prev => ({
-        nodes: [...prev.nodes, newNode],
-        links: [...prev.links, newLink]
+    commitMutation(`Add "${newNode.name}"`, ws => ({
+        ...ws,
+        graph: {
+            nodes: [...ws.graph.nodes, newNode],
+            links: [...ws.graph.links, newLink]
+        }
     }));
   };
 
   const handleNodeExpandInteraction = (node: Node) => {
+     // Smart folder results are not part of the stored graph, so nothing can grow from them
+     if (!masterGraphData.nodes.some(n => n.id === node.id)) return;
      const hasChildren = masterGraphData.links.some(l => (typeof l.source === 'string' ? l.source : l.source.id) === node.id);
      
-     if (hasChildren) {
+     if (hasChildren || node.smartFolder) {
          toggleNodeBlossom(node);
      } else {
          expandNode(node);
@@ -485,26 +1531,10 @@ function App() {
     const parentId = doc.parentId;
     if (!parentId) return;
 
-    // Force expand parent so new node is visible
-    handleNodeUpdate(parentId, { collapsed: false });
-
     const parentNode = masterGraphData.nodes.find(n => n.id === parentId);
     const parentLevel = parentNode?.level || 0;
 
-    const newNode: Node = {
-      id: doc.id,
-      name: doc.title,
-      type: NodeType.DOCUMENT,
-      val: 10,
-      description: 'Manually added file',
-      iconType: doc.type === 'mp4' ? 'video' :
-                (doc.type === 'jpg' || doc.type === 'png') ? 'image' :
-                doc.type === 'mp3' ? 'music' :
-                (doc.type === 'xlsx' || doc.type === 'csv') ? 'spreadsheet' : 'file',
-      level: parentLevel + 1,
-      project: doc.project,
-      collapsed: false
-    };
+    const newNode = createDocumentNode(doc, parentLevel + 1, 'Manually added file');
 
     const newLink = {
       source: parentId,
@@ -512,22 +1542,40 @@ function App() {
       value: 1
     };
 
-    setMasterGraphData(prev => ({
-      nodes: [...prev.nodes, newNode],
-      links: [...prev.links, newLink]
-    }));
+    runAsHistoryGroup(`Add "${doc.title}"`, () => {
+      // Force expand parent so new node is visible
+      handleNodeUpdate(parentId, { collapsed: false });
+
+      commitMutation(`Add "${doc.title}"`, ws => ({
+        ...ws,
+        graph: {
+          nodes: [...ws.graph.nodes, newNode],
+          links: [...ws.graph.links, newLink]
+        }
+      }));
+    });
   };
 
   const handleNodeSelect = async (node: Node) => {
     setSelectedNode(node);
+    setFocusedCitation(null);
+    summaryAbortRef.current?.abort();
+    const controller = new AbortController();
+    summaryAbortRef.current = controller;
     
     if (node.type === NodeType.DOCUMENT) {
       const doc = documents.find(d => d.id === node.id);
       if (doc) {
         if (!doc.fileUrl && !doc.externalUrl) {
             setSelectedDocSummary("Loading summary...");
-            const summary = await getDocumentSummary(doc);
-            setSelectedDocSummary(summary);
+            const summary = await getDocumentSummary(doc, aiProvider, controller.signal);
+            if (!controller.signal.aborted) setSelectedDocSummary(summary);
+        } else if (doc.extractionStatus === 'done') {
+            setSelectedDocSummary("Loading summary...");
+            const summary = await getDocumentSummary(doc, aiProvider, controller.signal);
+            if (!controller.signal.aborted) setSelectedDocSummary(summary);
+        } else if (doc.extractionStatus === 'error') {
+            setSelectedDocSummary(`Text could not be extracted: ${doc.extractionError}`);
         } else if (doc.externalUrl) {
             setSelectedDocSummary("External Linked Resource");
         } else {
@@ -542,23 +1590,98 @@ function App() {
   };
 
   // --- RECURSIVE FOLDER UPLOAD LOGIC (REFINED - SMART GROUPING) ---
-  const processFileList = (fileList: FileList, parentNode: Node) => {
-      const filesArray = Array.from(fileList);
-      
+  const processFileList = async (fileList: FileList, parentNode: Node) => {
+      const files = Array.from(fileList).filter(file => !isIgnoredUpload(file));
+      if (files.length === 0) return;
+
+      // Hash one file at a time so a large folder is never fully in memory
+      const hashes: (string | null)[] = [];
+      for (const file of files) {
+          try {
+              hashes.push(await hashFile(file));
+          } catch (err) {
+              console.warn(`Could not hash ${file.name}`, err);
+              hashes.push(null);
+          }
+      }
+
+      const candidates = findUploadDuplicates(
+          files.map((file, i) => ({ name: file.name, hash: hashes[i] })),
+          workspaceRef.current.documents,
+          parentNode.project || 'Repository'
+      );
+      if (candidates.length > 0) {
+          setPendingUpload({ files, hashes, parentNode, candidates });
+          return;
+      }
+      addUploadedFiles(files, hashes, parentNode, []);
+  };
+
+  /**
+   * Folder path of a node ("Projects / Reports / Documents"), following the first parent link up to the root.
+   */
+  const nodePath = (nodeId: string): string => {
+      const names: string[] = [];
+      const seen = new Set<string>();
+      let currentId: string | undefined = nodeId;
+      while (currentId && currentId !== 'root' && !seen.has(currentId)) {
+          seen.add(currentId);
+          const node = masterGraphData.nodes.find(n => n.id === currentId);
+          if (!node) break;
+          names.unshift(node.name);
+          const parentLink = masterGraphData.links.find(l => (typeof l.target === 'object' ? l.target.id : l.target) === currentId);
+          currentId = parentLink ? (typeof parentLink.source === 'object' ? parentLink.source.id : parentLink.source) as string : undefined;
+      }
+      return names.join(' / ');
+  };
+
+  const handleSelectDuplicate = (doc: Document) => {
+      const node = masterGraphData.nodes.find(n => n.id === doc.id) || masterGraphData.nodes.find(n => n.id === doc.parentId);
+      if (!node) return;
+      setShowDuplicates(false);
+      setCurrentView('map');
+      handleNodeSelect(node);
+  };
+
+  const handleResolveDuplicates = (resolutions: Record<number, DuplicateResolution>) => {
+      if (!pendingUpload) return;
+      const { files, hashes, parentNode, candidates } = pendingUpload;
+      setPendingUpload(null);
+      addUploadedFiles(files, hashes, parentNode, candidates.map(candidate => ({ candidate, resolution: resolutions[candidate.index] || 'skip' })));
+  };
+
+  const addUploadedFiles = (
+      files: File[],
+      hashes: (string | null)[],
+      parentNode: Node,
+      duplicates: { candidate: DuplicateCandidate, resolution: DuplicateResolution }[]
+  ) => {
       const newNodes: Node[] = [];
       const newLinks: any[] = [];
       const newDocs: Document[] = [];
+      const extractionJobs: { docId: string, file: File }[] = [];
+
+      const duplicateByIndex = new Map(duplicates.map(d => [d.candidate.index, d]));
+      const docIdByIndex = new Map<number, string>();
+      // Documents superseded by a "replace" and new locations that point at an existing document
+      const replacedDocIds = new Set<string>();
+      const linkRequests: { parentId: string, docId: string }[] = [];
+      // Replaced document -> the new document that superseded it, so later duplicates follow the chain
+      const replacementOf = new Map<string, string>();
+      const resolveDocId = (docId: string): string => {
+          let current = docId;
+          while (replacementOf.has(current)) current = replacementOf.get(current)!;
+          return current;
+      };
+      const unresolvedFiles: string[] = [];
       
       // 1. Identify Root Folder(s) if expanding from directory upload
       const rootFoldersMap = new Map<string, Node>(); // Key -> Node
 
-      filesArray.forEach(file => {
-          // Robust filter: System files, hidden files, or deep configs
-          if (file.name.startsWith('.') || file.name.startsWith('__') || file.name === 'Thumbs.db' || file.name === 'desktop.ini') return;
+      files.forEach((file, fileIndex) => {
+          const duplicate = duplicateByIndex.get(fileIndex);
+          if (duplicate?.resolution === 'skip') return;
           const pathParts = file.webkitRelativePath ? file.webkitRelativePath.split('/') : [file.name];
-          
-          // Deep filter: If any part of path starts with '.', skip it (e.g. .git/objects/...)
-          if (pathParts.some(part => part.startsWith('.'))) return;
 
           let targetParentId = parentNode.id;
           let currentLevel = (parentNode.level || 0);
@@ -685,12 +1808,33 @@ function App() {
               }
           }
 
+          // Matching document: already in the map, or created for an earlier file of this batch
+          const matchId = duplicate && (duplicate.candidate.existingDocId ?? docIdByIndex.get(duplicate.candidate.batchIndex!));
+          const matchDocId = matchId && resolveDocId(matchId);
+          if ((duplicate?.resolution === 'link' || duplicate?.resolution === 'replace') && !matchDocId) {
+              // The earlier file this one matched was never added; adding it as new would ignore the choice
+              unresolvedFiles.push(file.name);
+              return;
+          }
+          if (duplicate?.resolution === 'link' && matchDocId) {
+              linkRequests.push({ parentId: catNode.id, docId: matchDocId });
+              return;
+          }
+
           // 3. Create Document Object with BLOB URL
           const fileId = `file-${Date.now()}-${Math.random()}`;
+          if (duplicate?.resolution === 'replace' && matchDocId) {
+              replacedDocIds.add(matchDocId);
+              replacementOf.set(matchDocId, fileId);
+          }
           const fileUrl = URL.createObjectURL(file);
+          // Keep the raw file so the preview can be rebuilt after a reload
+          saveFileBlob(activeMapId, fileId, file).catch(err => console.error(`Could not store ${file.name}`, err));
           
+          const extractableKind = getExtractableKind(file.name);
+
           let docType = 'txt';
-          if (name.endsWith('pdf')) docType = 'pdf';
+          if (extractableKind) docType = extractableKind;
           else if (name.endsWith('docx')) docType = 'docx';
           else if (name.endsWith('xlsx')) docType = 'xlsx';
           else if (name.endsWith('mp3')) docType = 'mp3';
@@ -700,24 +1844,59 @@ function App() {
           const newDoc: Document = {
               id: fileId,
               title: file.name,
-              content: "Uploaded content pending analysis...",
+              content: extractableKind ? PENDING_CONTENT : "Uploaded content pending analysis...",
               project: parentNode.project || 'Repository',
               date: new Date().toISOString().split('T')[0],
               type: docType as any,
               tags: ['upload', bucketKey],
               parentId: catNode.id, // Link to the Category Node
-              fileUrl: fileUrl // Store local preview URL
+              fileUrl: fileUrl, // Store local preview URL
+              contentHash: hashes[fileIndex] || undefined,
+              ...(extractableKind ? { extractionStatus: 'pending' as const } : {})
           };
           newDocs.push(newDoc);
+          docIdByIndex.set(fileIndex, fileId);
+          if (extractableKind) extractionJobs.push({ docId: fileId, file });
       });
 
-      setDocuments(prev => [...prev, ...newDocs]);
-      
-      // Update Graph
-      setMasterGraphData(prev => ({
-          nodes: prev.nodes.map(n => n.id === parentNode.id ? { ...n, collapsed: false } : n).concat(newNodes),
-          links: [...prev.links, ...newLinks]
-      }));
+      if (unresolvedFiles.length > 0) {
+          alert(`Skipped because the file they duplicate was not added: ${unresolvedFiles.join(', ')}`);
+      }
+
+      const keptDocs = newDocs.filter(d => !replacedDocIds.has(d.id));
+      // A location linked to a document that a later file replaced links to the replacement instead
+      const keptLinkRequests = linkRequests.map(r => ({ ...r, docId: resolveDocId(r.docId) }));
+      if (keptDocs.length === 0 && keptLinkRequests.length === 0 && replacedDocIds.size === 0) return;
+
+      const label = keptLinkRequests.length > 0 && keptDocs.length === 0
+          ? `Link ${keptLinkRequests.length} existing file${keptLinkRequests.length === 1 ? '' : 's'} to "${parentNode.name}"`
+          : `Upload ${keptDocs.length} file${keptDocs.length === 1 ? '' : 's'} to "${parentNode.name}"`;
+
+      // Documents and graph change together so the whole upload undoes as one step
+      commitMutation(label, ws => {
+          const linkId = (end: string | Node) => typeof end === 'object' ? end.id : end;
+          const documents = [...ws.documents.filter(d => !replacedDocIds.has(d.id)), ...keptDocs];
+          const nodes = ws.graph.nodes.filter(n => !replacedDocIds.has(n.id)).map(n => n.id === parentNode.id ? { ...n, collapsed: false } : n).concat(newNodes);
+          const links = [...ws.graph.links.filter(l => !replacedDocIds.has(linkId(l.source)) && !replacedDocIds.has(linkId(l.target))), ...newLinks];
+
+          // A linked duplicate becomes one document node shared by its original folder and the new location
+          keptLinkRequests.forEach(({ parentId, docId }) => {
+              const doc = documents.find(d => d.id === docId);
+              if (!doc) return;
+              if (!nodes.some(n => n.id === docId)) {
+                  const parentLevel = nodes.find(n => n.id === doc.parentId)?.level || 0;
+                  nodes.push(createDocumentNode(doc, parentLevel + 1, 'Shared file'));
+                  if (doc.parentId) links.push({ source: doc.parentId, target: docId, value: 1 });
+              }
+              if (!links.some(l => linkId(l.source) === parentId && linkId(l.target) === docId)) {
+                  links.push({ source: parentId, target: docId, value: 1 });
+              }
+          });
+
+          return { documents, graph: { nodes, links } };
+      });
+
+      runExtractionJobs(extractionJobs.filter(job => !replacedDocIds.has(job.docId)));
   };
 
   const handleFileUploadToNode = (e: React.ChangeEvent<HTMLInputElement>, parentNode: Node) => {
@@ -747,8 +1926,6 @@ function App() {
           externalUrl: url
       };
       
-      setDocuments(prev => [...prev, newDoc]);
-      
       // We don't necessarily need a new GRAPH node if it's just a file in the sidebar list.
       // However, if we want it to be a visual leaf node, we can add it.
       // Let's add it as a leaf node to be consistent with visualization.
@@ -766,12 +1943,17 @@ function App() {
           collapsed: false
       };
       
-      setMasterGraphData(prev => ({
-          nodes: [...prev.nodes, newNode],
-          links: [...prev.links, { source: parentNode.id, target: linkId, value: 1 }]
-      }));
-      
-      handleNodeUpdate(parentNode.id, { collapsed: false });
+      runAsHistoryGroup(`Add link "${name}"`, () => {
+          commitMutation(`Add link "${name}"`, ws => ({
+              documents: [...ws.documents, newDoc],
+              graph: {
+                  nodes: [...ws.graph.nodes, newNode],
+                  links: [...ws.graph.links, { source: parentNode.id, target: linkId, value: 1 }]
+              }
+          }));
+          
+          handleNodeUpdate(parentNode.id, { collapsed: false });
+      });
   };
 
   const handleConnectDrive = () => {
@@ -862,17 +2044,18 @@ function App() {
           value: 1
       }));
 
-      setDocuments(prev => [...prev, ...driveDocs]);
-
-      setMasterGraphData(prev => ({
-          nodes: [...prev.nodes, driveNode, sub1, sub2, ...docNodes],
-          links: [
-              ...prev.links,
-              { source: 'root', target: driveId, value: 3 },
-              { source: driveId, target: sub1.id, value: 2 },
-              { source: driveId, target: sub2.id, value: 2 },
-              ...docLinks
-          ]
+      commitMutation('Connect Google Drive', ws => ({
+          documents: [...ws.documents, ...driveDocs],
+          graph: {
+              nodes: [...ws.graph.nodes, driveNode, sub1, sub2, ...docNodes],
+              links: [
+                  ...ws.graph.links,
+                  { source: 'root', target: driveId, value: 3 },
+                  { source: driveId, target: sub1.id, value: 2 },
+                  { source: driveId, target: sub2.id, value: 2 },
+                  ...docLinks
+              ]
+          }
       }));
       
       alert("Google Drive Connected! Folders and files added.");
@@ -881,21 +2064,25 @@ function App() {
   // Helper to get children for sidebar list (Graph Nodes)
   const getSelectedNodeChildren = () => {
       if (!selectedNode) return [];
-      const childLinks = masterGraphData.links.filter(l => (typeof l.source === 'string' ? l.source : l.source.id) === selectedNode.id);
+      const childLinks = liveGraphData.links.filter(l => (typeof l.source === 'string' ? l.source : l.source.id) === selectedNode.id);
       const childIds = new Set(childLinks.map(l => (typeof l.target === 'string' ? l.target : l.target.id)));
-      return masterGraphData.nodes.filter(n => childIds.has(n.id));
+      return liveGraphData.nodes.filter(n => childIds.has(n.id));
   };
 
   // Helper to get attached documents (Leaf Files)
   const getAttachedDocuments = () => {
       if (!selectedNode) return [];
-      return documents.filter(d => d.parentId === selectedNode.id);
+      // Linked duplicates hang off extra parents as graph children
+      const childIds = new Set(getSelectedNodeChildren().map(n => n.id));
+      return documents.filter(d => d.parentId === selectedNode.id || childIds.has(d.id));
   }
 
   const attachedDocs = getAttachedDocuments();
   const subFolders = getSelectedNodeChildren().filter(n => n.type === NodeType.PROJECT || n.type === NodeType.CATEGORY);
 
   const selectedDoc = selectedNode?.type === NodeType.DOCUMENT ? documents.find(d => d.id === selectedNode.id) : null;
+  // Read from the graph: the refresh stamp changes without going through selectedNode
+  const selectedSmartFolder = selectedNode?.smartFolder ? masterGraphData.nodes.find(n => n.id === selectedNode.id)?.smartFolder : undefined;
 
   // Carousel Scrolling Logic
   const scrollCarousel = (direction: 'left' | 'right') => {
@@ -943,6 +2130,41 @@ function App() {
                         </p>
                     </div>
 
+                    {/* Recent Maps */}
+                    {maps.length > 0 && (
+                        <div>
+                            <div className="flex items-center gap-3 mb-4">
+                                <div className="p-2 rounded-lg bg-purple-500/10 text-purple-500">
+                                    <History size={20} />
+                                </div>
+                                <h2 className="text-2xl font-bold">Recent Maps</h2>
+                            </div>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+                                {maps.slice(0, 6).map(map => (
+                                    <div
+                                        key={map.id}
+                                        onClick={() => handleSwitchMap(map.id)}
+                                        className={`p-5 rounded-2xl border cursor-pointer transition-all hover:shadow-lg hover:scale-[1.01] flex items-center gap-4 ${isDarkMode ? 'bg-slate-800/50 border-slate-800 hover:bg-slate-800' : 'bg-white border-slate-200 hover:border-purple-300'}`}
+                                    >
+                                        <div className={`w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0 ${map.layoutMode === LayoutMode.SEED ? 'bg-emerald-100 text-emerald-600' : 'bg-blue-100 text-blue-600'}`}>
+                                            {map.layoutMode === LayoutMode.SEED ? <Sprout size={22} /> : <Network size={22} />}
+                                        </div>
+                                        <div className="flex-1 min-w-0">
+                                            <h4 className="font-bold truncate">{map.name}</h4>
+                                            <p className="text-xs opacity-50">
+                                                {map.nodeCount} nodes · {map.documentCount} docs
+                                            </p>
+                                            <p className="text-[10px] opacity-40 flex items-center gap-1 mt-1">
+                                                <Calendar size={10} /> {new Date(map.updatedAt).toLocaleString()}
+                                            </p>
+                                        </div>
+                                        <ArrowRight size={16} className="opacity-40" />
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+
                     {/* Placards Carousel */}
                     <div className="relative group">
                         <button 
@@ -1163,6 +2385,16 @@ function App() {
              <span className="hidden md:block font-medium text-sm">Upload Doc</span>
            </label>
            
+           <button onClick={() => setShowTransfer(true)} className="flex items-center gap-3 p-3 mt-2 rounded-xl hover:bg-slate-200/50 dark:hover:bg-slate-800/50 w-full">
+             <Share2 size={20} />
+             <span className="hidden md:block font-medium">Import / Export</span>
+           </button>
+
+           <button onClick={() => setShowDuplicates(true)} className="flex items-center gap-3 p-3 mt-2 rounded-xl hover:bg-slate-200/50 dark:hover:bg-slate-800/50 w-full">
+             <Copy size={20} />
+             <span className="hidden md:block font-medium">Duplicates</span>
+           </button>
+
            <button onClick={() => setShowSettings(!showSettings)} className="flex items-center gap-3 p-3 mt-2 rounded-xl hover:bg-slate-200/50 dark:hover:bg-slate-800/50 w-full">
              <Settings size={20} />
              <span className="hidden md:block font-medium">Settings</span>
@@ -1175,18 +2407,123 @@ function App() {
         
         {/* Top Header / Search */}
         <header className={`h-16 flex-shrink-0 border-b flex items-center justify-between px-6 ${isDarkMode ? 'border-slate-800 bg-slate-900/50' : 'border-slate-200 bg-white/50'}`}>
+           <MapSwitcher
+              maps={isActiveMapStored ? maps : [{ id: activeMapId, name: activeMapName, layoutMode, nodeCount: masterGraphData.nodes.length, documentCount: documents.length, updatedAt: activeMapCreatedAt }, ...maps]}
+              activeMapId={activeMapId}
+              activeMapName={activeMapName}
+              onSwitch={handleSwitchMap}
+              onCreate={() => handleStartProject(layoutMode)}
+              onRename={handleRenameMap}
+              onDuplicate={handleDuplicateMap}
+              onDelete={handleDeleteMap}
+              darkMode={isDarkMode}
+           />
            <form onSubmit={handleSearch} className="flex-1 max-w-2xl relative">
               <Search className={`absolute left-4 top-1/2 -translate-y-1/2 ${isDarkMode ? 'text-slate-500' : 'text-slate-400'}`} size={20} />
               <input 
                 type="text" 
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
-                placeholder="Search for files, folders, or branches..."
-                className={`w-full pl-12 pr-4 py-2.5 rounded-xl outline-none transition-all border ${isDarkMode ? 'bg-slate-800 border-slate-700 focus:border-cyan-500 text-white placeholder-slate-500' : 'bg-slate-100 border-slate-200 focus:border-blue-500 text-slate-900 placeholder-slate-500'}`}
+                onChange={(e) => { setQuery(e.target.value); setDidYouMean(null); setShowSuggestions(true); setActiveSuggestion(-1); if (!e.target.value.trim()) setActiveSearch(null); }}
+                onFocus={() => setShowSuggestions(true)}
+                onBlur={() => setShowSuggestions(false)}
+                onKeyDown={handleSearchKeyDown}
+                placeholder='Search files, folders, or branches (try type:pdf tag:finance "exact phrase" -draft)'
+                className={`w-full pl-12 pr-12 py-2.5 rounded-xl outline-none transition-all border ${parsedQuery.errors.length > 0 ? '!border-red-500' : ''} ${isDarkMode ? 'bg-slate-800 border-slate-700 focus:border-cyan-500 text-white placeholder-slate-500' : 'bg-slate-100 border-slate-200 focus:border-blue-500 text-slate-900 placeholder-slate-500'}`}
               />
+              {query.trim() && parsedQuery.errors.length === 0 && (
+                  <button
+                      type="button"
+                      onClick={handleSaveSmartFolder}
+                      className={`absolute right-3 top-1/2 -translate-y-1/2 p-1 rounded-lg transition-colors ${isDarkMode ? 'text-slate-500 hover:text-violet-400 hover:bg-slate-700' : 'text-slate-400 hover:text-violet-600 hover:bg-slate-200'}`}
+                      title="Save as smart folder"
+                  >
+                      <FolderSearch size={18} />
+                  </button>
+              )}
+              {/* Query syntax errors */}
+              {parsedQuery.errors.length > 0 && (
+                  <div className={`absolute left-0 right-0 top-full mt-1 z-50 rounded-lg border px-3 py-2 space-y-0.5 shadow-lg ${isDarkMode ? 'bg-slate-900 border-red-500/40' : 'bg-white border-red-200'}`}>
+                      {parsedQuery.errors.map((error, i) => (
+                          <div key={i} className="text-xs text-red-500 flex items-center gap-2">
+                              <AlertTriangle size={12} className="flex-shrink-0" />
+                              <span>{error.message}</span>
+                              <code className="ml-auto opacity-60 font-mono truncate max-w-[40%]">{query.slice(error.start, error.end) || query.slice(-10)}</code>
+                          </div>
+                      ))}
+                  </div>
+              )}
+              {/* Search-as-you-type suggestions */}
+              {showSuggestions && !didYouMean && parsedQuery.errors.length === 0 && suggestionGroups.length > 0 && (
+                  <SearchSuggestions
+                      groups={suggestionGroups}
+                      activeIndex={activeSuggestion}
+                      onChoose={handleChooseSuggestion}
+                      onHover={setActiveSuggestion}
+                      darkMode={isDarkMode}
+                  />
+              )}
+              {/* Spelling suggestion after a search without hits */}
+              {didYouMean && parsedQuery.errors.length === 0 && (
+                  <div className={`absolute left-0 right-0 top-full mt-1 z-50 rounded-lg border px-3 py-2 text-xs shadow-lg ${isDarkMode ? 'bg-slate-900 border-slate-700' : 'bg-white border-slate-200'}`}>
+                      <span className="opacity-60">No results. Did you mean </span>
+                      <button
+                          type="button"
+                          onClick={() => { setQuery(didYouMean); runSearch(didYouMean); }}
+                          className="font-bold text-blue-500 hover:underline"
+                      >
+                          {didYouMean}
+                      </button>
+                      <span className="opacity-60">?</span>
+                  </div>
+              )}
            </form>
            
            <div className="flex items-center gap-4 ml-6">
+              {saveStatus !== 'idle' && (
+                  <div
+                      className={`hidden md:flex items-center gap-1.5 text-xs font-medium ${saveStatus === 'error' ? 'text-red-500' : 'opacity-50'}`}
+                      title={lastSavedAt ? `Last saved ${new Date(lastSavedAt).toLocaleString()}` : undefined}
+                  >
+                      {saveStatus === 'error' ? <CloudOff size={14} /> : <Cloud size={14} />}
+                      {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved' : 'Save failed'}
+                  </div>
+              )}
+              <div className="flex items-center gap-1">
+                  <button onClick={handleUndo} disabled={history.past.length === 0} className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${isDarkMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`} title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}>
+                      <Undo2 size={20} />
+                  </button>
+                  <button onClick={handleRedo} disabled={history.future.length === 0} className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${isDarkMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`} title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}>
+                      <Redo2 size={20} />
+                  </button>
+                  {currentView === 'map' && (
+                      <button onClick={() => setImageExport({ subtreeRootId: null })} className={`p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`} title="Export as image">
+                          <ImageDown size={20} />
+                      </button>
+                  )}
+                  {currentView === 'map' && (
+                      <button onClick={() => toggleLeftPanel('facets')} className={`p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-100'} ${leftPanel === 'facets' || hasActiveFacets(facetSelection) ? 'text-blue-500' : isDarkMode ? 'text-slate-400' : 'text-slate-500'}`} title="Filter the map">
+                          <Filter size={20} />
+                      </button>
+                  )}
+                  <button onClick={() => toggleLeftPanel('searches')} className={`p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-100'} ${leftPanel === 'searches' ? 'text-blue-500' : isDarkMode ? 'text-slate-400' : 'text-slate-500'}`} title="Search history">
+                      <Clock size={20} />
+                  </button>
+                  <button onClick={() => toggleLeftPanel('history')} className={`p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-100'} ${leftPanel === 'history' ? 'text-blue-500' : isDarkMode ? 'text-slate-400' : 'text-slate-500'}`} title="Edit history">
+                      <History size={20} />
+                  </button>
+                  <button onClick={() => toggleLeftPanel('ask')} className={`p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-100'} ${leftPanel === 'ask' ? 'text-blue-500' : isDarkMode ? 'text-slate-400' : 'text-slate-500'}`} title="Ask your documents">
+                      <MessageSquare size={20} />
+                  </button>
+                  <button onClick={() => toggleLeftPanel('review')} className={`relative p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-100'} ${leftPanel === 'review' ? 'text-blue-500' : isDarkMode ? 'text-slate-400' : 'text-slate-500'}`} title="Review upload suggestions">
+                      <Tags size={20} />
+                      {reviewCount > 0 && (
+                          <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-blue-500 text-white text-[10px] font-bold leading-4 text-center">{reviewCount}</span>
+                      )}
+                  </button>
+                  <button onClick={() => toggleLeftPanel('requests')} className={`p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-100'} ${leftPanel === 'requests' ? 'text-blue-500' : isDarkMode ? 'text-slate-400' : 'text-slate-500'}`} title="AI requests">
+                      <Activity size={20} />
+                  </button>
+              </div>
               <button onClick={() => setTheme(prev => prev === AppTheme.CYBER ? AppTheme.DEFAULT : AppTheme.CYBER)} className={`p-2 rounded-lg transition-colors ${isDarkMode ? 'hover:bg-slate-800 text-slate-400' : 'hover:bg-slate-100 text-slate-500'}`}>
                   {isDarkMode ? <Sun size={20} /> : <Moon size={20} />}
               </button>
@@ -1197,6 +2534,7 @@ function App() {
         <div className="flex-1 overflow-hidden relative">
             {currentView === 'map' && (
                 <MindMap 
+                    key={mindMapEpoch}
                     data={visibleGraphData}
                     onNodeExpand={handleNodeExpandInteraction}
                     onNodeSelect={handleNodeSelect}
@@ -1207,6 +2545,12 @@ function App() {
                     layoutMode={layoutMode}
                     graphicsQuality={graphicsQuality}
                     focusedNodeId={selectedNode?.id}
+                    positionsRef={mindMapPositionsRef}
+                    svgExportRef={mindMapSvgRef}
+                    onExportSubtree={(nodeId) => setImageExport({ subtreeRootId: nodeId })}
+                    nodeSnippets={documentSnippets}
+                    dimmedNodeIds={dimmedNodeIds}
+                    onEditSmartFolder={handleEditSmartFolder}
                 />
             )}
             
@@ -1228,6 +2572,114 @@ function App() {
                  />
             )}
             
+            {/* Upload text extraction progress */}
+            {Object.keys(extractionProgress).length > 0 && (
+                <div className={`absolute bottom-4 left-4 z-40 w-72 rounded-xl shadow-xl border p-3 space-y-2 backdrop-blur-md ${isDarkMode ? 'bg-slate-900/90 border-slate-700' : 'bg-white/90 border-slate-200'}`}>
+                    <div className="text-xs font-bold flex items-center gap-2">
+                        <Loader2 size={14} className="animate-spin text-blue-500" />
+                        Extracting text from {Object.keys(extractionProgress).length} file{Object.keys(extractionProgress).length === 1 ? '' : 's'}
+                    </div>
+                    <div className="max-h-40 overflow-y-auto space-y-1.5">
+                        {Object.entries(extractionProgress).map(([docId, job]) => (
+                            <div key={docId}>
+                                <div className="text-[10px] truncate opacity-70">{job.title}</div>
+                                <div className={`h-1 rounded-full overflow-hidden ${isDarkMode ? 'bg-slate-700' : 'bg-slate-200'}`}>
+                                    <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {/* Edit History (Left overlay) */}
+            {leftPanel === 'history' && (
+                <HistoryPanel
+                    history={history}
+                    onJump={handleJumpToHistory}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    onClose={() => setLeftPanel(null)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Facet Filters (Left overlay) */}
+            {leftPanel === 'facets' && currentView === 'map' && (
+                <FacetPanel
+                    facets={facets}
+                    selection={facetSelection}
+                    displayMode={facetDisplayMode}
+                    matchCount={facetMatchCount}
+                    totalCount={documents.length}
+                    onToggle={handleToggleFacet}
+                    onClear={() => setFacetSelection(EMPTY_FACET_SELECTION)}
+                    onDisplayModeChange={setFacetDisplayMode}
+                    onClose={() => setLeftPanel(null)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Search History (Left overlay) */}
+            {leftPanel === 'searches' && (
+                <SearchHistoryPanel
+                    history={searchHistory}
+                    documents={documents}
+                    onReplay={handleReplaySearch}
+                    onSelectDocument={openDocument}
+                    onClear={() => { if (confirm("Clear the search history of this map?")) setSearchHistory([]); }}
+                    onClose={() => setLeftPanel(null)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Ask Your Documents (Left overlay) */}
+            {leftPanel === 'ask' && (
+                <AskPanel
+                    thread={qaThread}
+                    documents={documents}
+                    isAsking={isAsking}
+                    providerLabel={aiProvider.label}
+                    onAsk={handleAsk}
+                    onCitationClick={handleCitationClick}
+                    onClear={() => { if (confirm("Clear the conversation of this map?")) setQaThread([]); }}
+                    onClose={() => setLeftPanel(null)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Upload Suggestions Review (Left overlay) */}
+            {leftPanel === 'review' && (
+                <TagReviewPanel
+                    suggestions={tagSuggestions}
+                    documents={documents}
+                    locationOf={(doc) => doc.parentId ? nodePath(doc.parentId) : doc.project}
+                    pendingCount={pendingCategorizations}
+                    onAccept={handleAcceptSuggestion}
+                    onReject={handleRejectSuggestion}
+                    onAcceptAll={handleAcceptAllSuggestions}
+                    onRejectAll={() => { if (confirm("Reject all suggestions?")) setTagSuggestions([]); }}
+                    onOpenDocument={openDocument}
+                    onClose={() => setLeftPanel(null)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* AI Requests (Left overlay) */}
+            {leftPanel === 'requests' && (
+                <AIDebugPanel
+                    calls={aiCalls}
+                    onClearLog={() => setAiCalls([])}
+                    onClearCache={() => {
+                        if (confirm("Delete all cached AI responses? Searches and summaries will be requested again.")) {
+                            clearResponseCache().catch(err => console.error("Clearing the AI response cache failed", err));
+                        }
+                    }}
+                    onClose={() => setLeftPanel(null)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
             {/* Context Panel (Right Sidebar for selected node) */}
             {selectedNode && (
                 <div className={`absolute top-4 right-4 z-50 w-96 max-h-[calc(100%-2rem)] rounded-2xl shadow-2xl border flex flex-col overflow-hidden backdrop-blur-md transition-all ${isDarkMode ? 'bg-slate-900/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-200 text-slate-800'}`}>
@@ -1235,6 +2687,7 @@ function App() {
                         <div className="flex items-center gap-2 font-bold">
                            {selectedNode.type === NodeType.PROJECT ? <Folder size={18} className="text-blue-500" /> : 
                             selectedNode.type === NodeType.ROOT ? <Network size={18} className="text-purple-500" /> :
+                            selectedNode.smartFolder ? <FolderSearch size={18} className="text-violet-500" /> :
                             selectedNode.type === NodeType.CATEGORY ? <FolderOpen size={18} className="text-orange-500" /> :
                             selectedNode.iconType === 'link' ? <LinkIcon size={18} className="text-violet-500" /> :
                             <FileText size={18} className="text-emerald-500" />}
@@ -1268,6 +2721,35 @@ function App() {
                                         <video src={selectedDoc.fileUrl} controls className="w-full h-auto max-h-60 object-contain bg-black" />
                                     ) : selectedDoc.type === 'jpg' || selectedDoc.type === 'png' ? (
                                         <img src={selectedDoc.fileUrl} alt="Preview" className="w-full h-auto max-h-60 object-contain bg-black/20" />
+                                    ) : selectedDoc.type === 'pdf' ? (
+                                        <PdfViewer key={selectedDoc.id} fileUrl={selectedDoc.fileUrl} fileName={selectedDoc.title} initialPage={pdfPageRequest?.docId === selectedDoc.id ? pdfPageRequest.page : undefined} pageRequestId={pdfPageRequest?.nonce} darkMode={isDarkMode} />
+                                    ) : selectedDoc.tablePreview ? (
+                                        <div className="p-2 max-h-60 overflow-auto">
+                                            <table className="w-full text-[10px] border-collapse">
+                                                <tbody>
+                                                    {selectedDoc.tablePreview.rows.map((row, i) => (
+                                                        <tr key={i} className={i === 0 ? 'font-bold' : ''}>
+                                                            {row.map((cell, j) => (
+                                                                <td key={j} className={`px-1.5 py-1 border truncate max-w-[80px] ${isDarkMode ? 'border-slate-700' : 'border-slate-200'}`} title={cell}>{cell}</td>
+                                                            ))}
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                            <div className="text-[10px] opacity-50 mt-1 px-1">
+                                                {selectedDoc.tablePreview.sheetName ? `${selectedDoc.tablePreview.sheetName} · ` : ''}
+                                                {selectedDoc.tablePreview.totalRows} rows
+                                            </div>
+                                        </div>
+                                    ) : selectedDoc.extractionStatus === 'done' ? (
+                                        <pre className="p-3 max-h-60 overflow-auto text-[11px] leading-relaxed whitespace-pre-wrap font-mono opacity-80">
+                                            {selectedDoc.content.substring(0, 4000)}
+                                        </pre>
+                                    ) : selectedDoc.extractionStatus === 'error' ? (
+                                        <div className="p-6 flex flex-col items-center justify-center gap-2 text-red-500 text-center">
+                                            <AlertTriangle size={32} />
+                                            <span className="text-xs">{selectedDoc.extractionError}</span>
+                                        </div>
                                     ) : selectedDoc.type === 'mp3' ? (
                                         <div className="p-6 flex flex-col items-center justify-center gap-4 bg-slate-900 text-white">
                                             <Music size={48} className="animate-pulse" />
@@ -1310,11 +2792,116 @@ function App() {
                             <label className="text-xs font-bold uppercase tracking-wider opacity-50 mb-1 block">Description</label>
                             <p className="text-sm leading-relaxed opacity-90">{selectedDocSummary || selectedNode.description}</p>
                         </div>
+
+                        {/* Cited Passage (opened from a Q&A answer) */}
+                        {selectedDoc && focusedCitation?.docId === selectedDoc.id && (
+                            <div ref={citedPassageRef}>
+                                <label className="text-xs font-bold uppercase tracking-wider opacity-50 mb-2 block flex items-center justify-between">
+                                    Cited Passage
+                                    <button onClick={() => setFocusedCitation(null)} className="p-0.5 rounded hover:bg-black/10 normal-case" title="Dismiss">
+                                        <X size={12} />
+                                    </button>
+                                </label>
+                                <div className={`p-2 rounded-lg text-xs leading-relaxed border-2 border-yellow-500/60 ${isDarkMode ? 'bg-yellow-500/10' : 'bg-yellow-50'}`}>
+                                    <div className="mb-1 text-[10px] font-bold uppercase tracking-wider opacity-50">
+                                        {selectedDoc.pageOffsets ? `Page ${pageForOffset(selectedDoc.pageOffsets, focusedCitation.start)}` : `Char ${focusedCitation.start}`}
+                                    </div>
+                                    <p className="whitespace-pre-wrap">{selectedDoc.content.slice(focusedCitation.start, focusedCitation.end).trim()}</p>
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Search Matches (for Documents) */}
+                        {selectedDoc && documentSnippets[selectedDoc.id] && (
+                            <div>
+                                <label className="text-xs font-bold uppercase tracking-wider opacity-50 mb-2 block flex items-center justify-between">
+                                    Matches
+                                    <span className="text-[10px] bg-yellow-500/20 text-yellow-600 px-1.5 py-0.5 rounded normal-case tracking-normal truncate max-w-[60%]">{activeSearch}</span>
+                                </label>
+                                <div className="space-y-2">
+                                    {documentSnippets[selectedDoc.id].map((snippet, i) => (
+                                        <div key={i} className={`p-2 rounded-lg text-xs leading-relaxed border ${isDarkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
+                                            <div className="flex items-center gap-2 mb-1 text-[10px] font-bold uppercase tracking-wider opacity-50">
+                                                <span>{snippet.field}</span>
+                                                {snippet.page ? (
+                                                    <button
+                                                        onClick={() => requestPdfPage(selectedDoc.id, snippet.page!)}
+                                                        className="hover:underline text-blue-500"
+                                                        title="Show this page in the preview"
+                                                    >
+                                                        Page {snippet.page}
+                                                    </button>
+                                                ) : snippet.field === 'content' && (
+                                                    <span>Char {snippet.offset}</span>
+                                                )}
+                                            </div>
+                                            <HighlightedText text={snippet.text} highlights={snippet.highlights} darkMode={isDarkMode} />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Sources: passages a generated description was drawn from */}
+                        {selectedNode.citations && selectedNode.citations.length > 0 && (
+                            <div>
+                                <label className="text-xs font-bold uppercase tracking-wider opacity-50 mb-2 block">Sources</label>
+                                <div className="space-y-2">
+                                    {selectedNode.citations.map(citation => {
+                                        const doc = documents.find(d => d.id === citation.docId);
+                                        if (!doc) return null;
+                                        const page = doc.pageOffsets ? pageForOffset(doc.pageOffsets, citation.start) : undefined;
+                                        const excerpt = doc.content.slice(citation.start, citation.end).replace(/\s+/g, ' ').trim();
+                                        return (
+                                            <div key={`${citation.docId}-${citation.start}`} className={`p-2 rounded-lg text-xs leading-relaxed border ${isDarkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
+                                                <div className="flex items-center gap-2 mb-1 text-[10px] font-bold">
+                                                    {doc.id === selectedNode.id ? (
+                                                        <span className="uppercase tracking-wider opacity-50">This document</span>
+                                                    ) : (
+                                                        <button onClick={() => openDocument(doc)} className="truncate text-blue-500 hover:underline" title="Open document">{doc.title}</button>
+                                                    )}
+                                                    {page ? (
+                                                        <button
+                                                            onClick={() => { if (doc.id !== selectedNode.id) openDocument(doc); requestPdfPage(doc.id, page); }}
+                                                            className="ml-auto shrink-0 uppercase tracking-wider hover:underline text-blue-500"
+                                                            title="Show this page in the preview"
+                                                        >
+                                                            Page {page}
+                                                        </button>
+                                                    ) : (
+                                                        <span className="ml-auto shrink-0 uppercase tracking-wider opacity-50">Char {citation.start}</span>
+                                                    )}
+                                                </div>
+                                                <p className="opacity-80">{excerpt.length > 240 ? `${excerpt.slice(0, 240)}…` : excerpt || doc.title}</p>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Smart Folder: saved query and when its results last changed */}
+                        {selectedSmartFolder && (
+                            <div>
+                                <label className="text-xs font-bold uppercase tracking-wider opacity-50 mb-1 block">Saved Query</label>
+                                <div className={`p-2 rounded-lg font-mono text-xs break-all border ${isDarkMode ? 'bg-slate-800/50 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
+                                    {selectedSmartFolder.query}
+                                </div>
+                                <div className="mt-2 flex items-center justify-between text-xs">
+                                    <span className="opacity-60" title={new Date(selectedSmartFolder.refreshedAt).toLocaleString()}>
+                                        {smartFolderResults.get(selectedNode.id)?.length ?? 0} matches · updated {new Date(selectedSmartFolder.refreshedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                                    </span>
+                                    <button onClick={() => handleEditSmartFolder(selectedNode.id)} className="flex items-center gap-1 font-bold text-violet-500 hover:underline">
+                                        <Edit3 size={12} /> Edit query
+                                    </button>
+                                </div>
+                            </div>
+                        )}
                         
                         {/* Actions */}
                         <div className="grid grid-cols-2 gap-2">
                              <button onClick={() => handleNodeExpandInteraction(selectedNode)} className={`p-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 border ${isDarkMode ? 'border-slate-700 hover:bg-slate-800' : 'border-slate-200 hover:bg-slate-50'}`}>
-                                 {selectedNode.collapsed ? <><Eye size={14} /> Expand</> : <><Plus size={14} /> Add Child</>}
+                                 {selectedNode.collapsed ? <><Eye size={14} /> Expand</> : selectedNode.smartFolder ? <><EyeOff size={14} /> Fold</> : <><Plus size={14} /> Add Child</>}
                              </button>
                              <button onClick={() => handleDeleteNode(selectedNode.id)} className={`p-2 rounded-lg text-xs font-bold flex items-center justify-center gap-2 border border-red-500/20 text-red-500 hover:bg-red-500/10`}>
                                  <Trash2 size={14} /> Delete
@@ -1354,32 +2941,7 @@ function App() {
                                     {attachedDocs.length > 0 ? attachedDocs.map(doc => (
                                         <div 
                                             key={doc.id} 
-                                            // Find the node corresponding to this doc to select it
-                                            onClick={() => {
-                                                const fileNode = masterGraphData.nodes.find(n => n.id === doc.id);
-                                                if (fileNode) {
-                                                    handleNodeSelect(fileNode);
-                                                } else {
-                                                    // Create temp node for viewing documents that aren't visually on the graph
-                                                    const tempNode: Node = {
-                                                        id: doc.id,
-                                                        name: doc.title,
-                                                        type: NodeType.DOCUMENT,
-                                                        val: 10,
-                                                        description: doc.content || 'Attached File',
-                                                        iconType: doc.type === 'link' ? 'link' : (
-                                                              doc.type === 'mp4' ? 'video' :
-                                                              (doc.type === 'jpg' || doc.type === 'png') ? 'image' :
-                                                              doc.type === 'mp3' ? 'music' :
-                                                              (doc.type === 'xlsx' || doc.type === 'csv') ? 'spreadsheet' : 'file'
-                                                        ),
-                                                        level: (selectedNode.level || 0) + 1,
-                                                        project: selectedNode.project,
-                                                        collapsed: false
-                                                    };
-                                                    handleNodeSelect(tempNode);
-                                                }
-                                            }}
+                                            onClick={() => openDocument(doc)}
                                             className={`flex items-center gap-2 p-2 rounded-lg text-sm border cursor-pointer transition-colors ${isDarkMode ? 'bg-slate-800/50 border-slate-700 hover:bg-slate-800' : 'bg-slate-50 border-slate-200 hover:bg-slate-100'}`}
                                         >
                                             {doc.externalUrl ? <LinkIcon size={14} className="text-violet-500" /> :
@@ -1387,7 +2949,27 @@ function App() {
                                              doc.type === 'jpg' || doc.type === 'png' ? <ImageIcon size={14} className="text-sky-500" /> :
                                              doc.type === 'mp3' ? <Music size={14} className="text-pink-500" /> :
                                              <FileText size={14} className="text-slate-500" />}
-                                            <span className="truncate flex-1">{doc.title}</span>
+                                            <div className="flex-1 min-w-0">
+                                                <div className="truncate">{doc.title}</div>
+                                                {documentSnippets[doc.id] && (
+                                                    <div className="text-[10px] opacity-70 line-clamp-2">
+                                                        <HighlightedText text={documentSnippets[doc.id][0].text} highlights={documentSnippets[doc.id][0].highlights} darkMode={isDarkMode} />
+                                                    </div>
+                                                )}
+                                                {doc.extractionStatus === 'pending' && (
+                                                    <div className="text-[10px] opacity-60">
+                                                        Extracting text{extractionProgress[doc.id] ? ` ${Math.round(extractionProgress[doc.id].progress * 100)}%` : '...'}
+                                                    </div>
+                                                )}
+                                                {doc.extractionStatus === 'error' && (
+                                                    <div className="text-[10px] text-red-500 truncate" title={doc.extractionError}>{doc.extractionError}</div>
+                                                )}
+                                                {doc.isTruncated && (
+                                                    <div className="text-[10px] text-amber-500">Large file: content truncated</div>
+                                                )}
+                                            </div>
+                                            {doc.extractionStatus === 'pending' && <Loader2 size={12} className="animate-spin opacity-60" />}
+                                            {doc.extractionStatus === 'error' && <AlertTriangle size={12} className="text-red-500" />}
                                             {doc.externalUrl && <ExternalLink size={12} className="opacity-50" />}
                                         </div>
                                     )) : (
@@ -1474,6 +3056,54 @@ function App() {
                 </div>
             )}
             
+            {/* Import / Export Modal Overlay */}
+            {showTransfer && (
+                <MapTransferDialog
+                    mapName={activeMapName}
+                    onExport={handleExportBundle}
+                    onImport={handleImportBundle}
+                    onExportOutline={handleExportOutline}
+                    onImportOutline={handleImportOutline}
+                    onClose={() => setShowTransfer(false)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Duplicate Upload Resolution */}
+            {pendingUpload && (
+                <DuplicateUploadDialog
+                    candidates={pendingUpload.candidates}
+                    totalFiles={pendingUpload.files.length}
+                    onConfirm={handleResolveDuplicates}
+                    onCancel={() => setPendingUpload(null)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Duplicates Report */}
+            {showDuplicates && (
+                <DuplicatesReport
+                    groups={findDuplicateGroups(documents)}
+                    unhashedCount={documents.filter(d => d.fileUrl && !d.contentHash).length}
+                    locationOf={(doc) => doc.parentId ? nodePath(doc.parentId) : doc.project}
+                    onSelectDocument={handleSelectDuplicate}
+                    onClose={() => setShowDuplicates(false)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
+            {/* Image Export Modal Overlay */}
+            {imageExport && (
+                <ImageExportDialog
+                    svgRef={mindMapSvgRef}
+                    mapName={activeMapName}
+                    subtree={imageExportSubtreeRoot ? { rootName: imageExportSubtreeRoot.name, nodeIds: collectSubtreeIds(imageExportSubtreeRoot.id) } : null}
+                    backgroundColor={THEMES[theme].canvas}
+                    onClose={() => setImageExport(null)}
+                    darkMode={isDarkMode}
+                />
+            )}
+
             {/* Settings Modal Overlay */}
             {showSettings && (
                 <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
@@ -1525,6 +3155,75 @@ function App() {
                                         ))}
                                 </div>
                             </div>
+
+                            <div>
+                                <label className="block text-sm font-medium mb-3 opacity-80">AI Provider</label>
+                                <div className="flex gap-2">
+                                    {([['gemini', 'Gemini'], ['mock', 'Offline mock']] as [AIProviderSettings['provider'], string][]).map(([provider, label]) => (
+                                        <button
+                                            key={provider}
+                                            onClick={() => setAiSettings(prev => ({ ...prev, provider }))}
+                                            className={`flex-1 py-2 px-3 rounded-lg text-sm font-medium ${aiSettings.provider === provider ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400'}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                                {aiSettings.provider === 'gemini' ? (
+                                    <div className="mt-3 space-y-2">
+                                        {/* Model and key apply on blur: each change rebuilds the provider and schedules a save */}
+                                        <input
+                                            defaultValue={aiSettings.model}
+                                            onBlur={(e) => {
+                                                const model = e.target.value.trim();
+                                                if (model !== aiSettings.model) setAiSettings(prev => ({ ...prev, model }));
+                                            }}
+                                            placeholder={DEFAULT_AI_SETTINGS.model}
+                                            className={`w-full px-3 py-2 rounded-lg text-sm border outline-none focus:border-blue-500 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}
+                                        />
+                                        <input
+                                            type="password"
+                                            defaultValue={aiSettings.apiKey}
+                                            onBlur={(e) => {
+                                                const apiKey = e.target.value.trim();
+                                                if (apiKey !== aiSettings.apiKey) setAiSettings(prev => ({ ...prev, apiKey }));
+                                            }}
+                                            placeholder="API key (leave empty to use the built-in key)"
+                                            autoComplete="off"
+                                            className={`w-full px-3 py-2 rounded-lg text-sm border outline-none focus:border-blue-500 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}
+                                        />
+                                        <p className="text-xs opacity-50">The key is stored in this browser only.</p>
+                                    </div>
+                                ) : (
+                                    <p className="mt-3 text-xs opacity-50">Graphs, summaries and tags are computed from your documents without any network calls.</p>
+                                )}
+                                <label className="mt-3 flex items-center gap-2 text-sm cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={!!aiSettings.autoCategorize}
+                                        onChange={(e) => setAiSettings(prev => ({ ...prev, autoCategorize: e.target.checked }))}
+                                    />
+                                    Suggest tags and categories for uploads
+                                </label>
+                                <div className="mt-3 flex items-center justify-between gap-3">
+                                    <span className="text-xs opacity-70">Search context budget (tokens)</span>
+                                    <input
+                                        type="number"
+                                        min={MIN_CONTEXT_TOKENS}
+                                        step={1000}
+                                        // Applied on blur so partial numbers are not clamped while typing; the key resets the field afterwards
+                                        key={aiSettings.contextTokens ?? DEFAULT_CONTEXT_TOKENS}
+                                        defaultValue={aiSettings.contextTokens ?? DEFAULT_CONTEXT_TOKENS}
+                                        onBlur={(e) => {
+                                            const tokens = parseInt(e.target.value, 10);
+                                            const contextTokens = Number.isNaN(tokens) ? DEFAULT_CONTEXT_TOKENS : Math.max(MIN_CONTEXT_TOKENS, tokens);
+                                            e.target.value = String(contextTokens);
+                                            setAiSettings(prev => ({ ...prev, contextTokens }));
+                                        }}
+                                        className={`w-28 px-3 py-1.5 rounded-lg text-sm border outline-none focus:border-blue-500 ${isDarkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}
+                                    />
+                                </div>
+                            </div>
                         </div>
                     </div>
                 </div>
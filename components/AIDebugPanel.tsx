@@ -0,0 +1,94 @@
+import React from 'react';
+import { Activity, Database, Trash2, X } from 'lucide-react';
+import { AICallOutcome, AICallRecord } from '../services/aiRequestLayer';
+
+interface AIDebugPanelProps {
+  calls: AICallRecord[]; // Newest first
+  onClearLog: () => void;
+  onClearCache: () => void;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+const OUTCOME_STYLES: Record<AICallOutcome, string> = {
+  hit: 'bg-emerald-500/15 text-emerald-500',
+  miss: 'bg-sky-500/15 text-sky-500',
+  error: 'bg-red-500/15 text-red-500',
+  timeout: 'bg-amber-500/15 text-amber-600',
+  aborted: 'bg-slate-500/15 opacity-70'
+};
+
+const formatPercent = (part: number, whole: number) => whole > 0 ? `${Math.round(part / whole * 100)}%` : '—';
+const formatDuration = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const AIDebugPanel: React.FC<AIDebugPanelProps> = ({ calls, onClearLog, onClearCache, onClose, darkMode }) => {
+  const hits = calls.filter(c => c.outcome === 'hit').length;
+  const misses = calls.filter(c => c.outcome === 'miss').length;
+  // Rates are over answered calls; failed and cancelled calls are counted separately
+  const answered = hits + misses;
+  const failed = calls.length - answered;
+  const totalTokens = calls.reduce((sum, c) => sum + (c.usage?.totalTokens || 0), 0);
+
+  return (
+    <div className={`absolute top-4 left-4 z-40 w-96 max-h-[calc(100%-2rem)] rounded-2xl shadow-2xl border flex flex-col overflow-hidden backdrop-blur-md ${darkMode ? 'bg-slate-900/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-200 text-slate-800'}`}>
+      <div className={`p-3 border-b flex items-center justify-between ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        <div className="flex items-center gap-2 font-bold text-sm">
+          <Activity size={16} className="text-blue-500" /> AI Requests
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onClearCache} className="p-1.5 rounded-lg hover:bg-black/10" title="Clear cached responses">
+            <Database size={14} />
+          </button>
+          <button onClick={onClearLog} disabled={calls.length === 0} className="p-1.5 rounded-lg hover:bg-black/10 disabled:opacity-30" title="Clear request log">
+            <Trash2 size={14} />
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/10">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className={`grid grid-cols-4 gap-2 px-3 py-2 border-b text-center ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        {[
+          ['Hit rate', formatPercent(hits, answered)],
+          ['Miss rate', formatPercent(misses, answered)],
+          ['Failed', String(failed)],
+          ['Tokens', totalTokens.toLocaleString()]
+        ].map(([label, value]) => (
+          <div key={label}>
+            <div className="text-sm font-bold">{value}</div>
+            <div className="text-[10px] uppercase tracking-wider opacity-50">{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {calls.map(call => (
+          <div key={call.id} className={`px-3 py-2 border-b last:border-b-0 text-xs ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+            <div className="flex items-center gap-2">
+              <span className={`px-1.5 rounded font-bold text-[10px] uppercase ${OUTCOME_STYLES[call.outcome]}`}>{call.outcome}</span>
+              <span className="font-medium capitalize">{call.kind}</span>
+              <span className="truncate opacity-50 flex-1">{call.provider}</span>
+              <span className="opacity-60">{formatDuration(call.durationMs)}</span>
+            </div>
+            <div className="mt-0.5 flex items-center gap-2 text-[10px] opacity-60">
+              <span>{new Date(call.startedAt).toLocaleTimeString()}</span>
+              {call.attempts > 1 && <span>{call.attempts} attempts</span>}
+              <span className="ml-auto">
+                {call.usage ? `${call.usage.promptTokens.toLocaleString()} in · ${call.usage.outputTokens.toLocaleString()} out` : 'no token usage'}
+              </span>
+            </div>
+            {call.error && <div className="mt-0.5 text-[10px] text-red-500 truncate" title={call.error}>{call.error}</div>}
+          </div>
+        ))}
+
+        {calls.length === 0 && (
+          <div className="px-4 py-6 text-xs text-center opacity-50">No AI requests yet. Searches and document summaries will appear here.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AIDebugPanel;
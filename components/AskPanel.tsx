@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Loader2, MessageSquare, Send, Trash2, X } from 'lucide-react';
+import { Document, PassageCitation, QATurn } from '../types';
+
+interface AskPanelProps {
+  thread: QATurn[]; // Oldest first
+  documents: Document[];
+  isAsking: boolean;
+  providerLabel: string;
+  onAsk: (question: string) => void;
+  onCitationClick: (citation: PassageCitation) => void;
+  onClear: () => void;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+const AskPanel: React.FC<AskPanelProps> = ({ thread, documents, isAsking, providerLabel, onAsk, onCitationClick, onClear, onClose, darkMode }) => {
+  const [question, setQuestion] = useState('');
+  const threadEndRef = useRef<HTMLDivElement>(null);
+  const docsById = new Map(documents.map(d => [d.id, d]));
+
+  // Keep the newest answer in view
+  useEffect(() => {
+    threadEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [thread.length, isAsking]);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim() || isAsking) return;
+    onAsk(question.trim());
+    setQuestion('');
+  };
+
+  // Citation markers become buttons that jump to the cited passage
+  const renderAnswer = (turn: QATurn) => turn.answer.split(/(\[\d+\])/g).map((part, i) => {
+    const marker = part.match(/^\[(\d+)\]$/);
+    const citation = marker ? turn.citations[Number(marker[1]) - 1] : undefined;
+    if (!citation) return <React.Fragment key={i}>{part}</React.Fragment>;
+    const doc = docsById.get(citation.docId);
+    return (
+      <button
+        key={i}
+        onClick={() => onCitationClick(citation)}
+        disabled={!doc}
+        className="mx-0.5 px-1 rounded text-[10px] font-bold align-super bg-blue-500/15 text-blue-500 hover:bg-blue-500/30 disabled:opacity-40"
+        title={doc ? `${doc.title} (characters ${citation.start}-${citation.end})` : 'Document deleted'}
+      >
+        {marker![1]}
+      </button>
+    );
+  });
+
+  return (
+    <div className={`absolute top-4 left-4 z-40 w-96 h-[calc(100%-2rem)] rounded-2xl shadow-2xl border flex flex-col overflow-hidden backdrop-blur-md ${darkMode ? 'bg-slate-900/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-200 text-slate-800'}`}>
+      <div className={`p-3 border-b flex items-center justify-between ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        <div className="flex items-center gap-2 font-bold text-sm">
+          <MessageSquare size={16} className="text-blue-500" /> Ask your documents
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onClear} disabled={thread.length === 0} className="p-1.5 rounded-lg hover:bg-black/10 disabled:opacity-30" title="Clear conversation">
+            <Trash2 size={14} />
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/10">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {thread.map(turn => (
+          <div key={turn.id} className="space-y-1.5">
+            <div className="ml-8 px-3 py-2 rounded-xl rounded-br-sm bg-blue-500 text-white text-sm">{turn.question}</div>
+            <div className={`mr-4 px-3 py-2 rounded-xl rounded-bl-sm text-sm leading-relaxed ${darkMode ? 'bg-slate-800' : 'bg-slate-100'}`}>
+              {renderAnswer(turn)}
+              {turn.answeredBy === 'fallback' && <div className="mt-1 text-[10px] font-bold text-amber-600">Quoted without AI</div>}
+            </div>
+            {turn.citations.length > 0 && (
+              <div className="mr-4 flex flex-wrap gap-1">
+                {turn.citations.map((citation, i) => {
+                  const doc = docsById.get(citation.docId);
+                  return (
+                    <button
+                      key={i}
+                      onClick={() => onCitationClick(citation)}
+                      disabled={!doc}
+                      className={`max-w-full truncate px-1.5 py-0.5 rounded text-[10px] border ${darkMode ? 'border-slate-700 hover:bg-slate-800' : 'border-slate-200 hover:bg-slate-100'} disabled:opacity-40`}
+                    >
+                      <span className="font-bold text-blue-500">{i + 1}</span> {doc ? doc.title : 'deleted document'}
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {thread.length === 0 && !isAsking && (
+          <div className="px-4 py-6 text-xs text-center opacity-50">
+            Ask a question and get an answer drawn from this map's documents, with links to the passages it is based on.
+          </div>
+        )}
+        {isAsking && (
+          <div className="flex items-center gap-2 text-xs opacity-60">
+            <Loader2 size={14} className="animate-spin" /> Reading your documents...
+          </div>
+        )}
+        <div ref={threadEndRef} />
+      </div>
+
+      <form onSubmit={submit} className={`p-3 border-t ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        <div className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-slate-50 border-slate-200'}`}>
+          <input
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder="Ask a question..."
+            className="flex-1 bg-transparent outline-none text-sm"
+          />
+          <button type="submit" disabled={!question.trim() || isAsking} className="p-1 rounded-lg text-blue-500 hover:bg-blue-500/10 disabled:opacity-30" title="Ask">
+            <Send size={16} />
+          </button>
+        </div>
+        <div className="mt-1 text-[10px] opacity-40 truncate">Answered by {providerLabel}</div>
+      </form>
+    </div>
+  );
+};
+
+export default AskPanel;
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Copy, X } from 'lucide-react';
+import { DUPLICATE_RESOLUTIONS, DuplicateCandidate, DuplicateResolution } from '../services/duplicateService';
+
+interface DuplicateUploadDialogProps {
+  candidates: DuplicateCandidate[];
+  totalFiles: number;
+  onConfirm: (resolutions: Record<number, DuplicateResolution>) => void;
+  onCancel: () => void;
+  darkMode: boolean;
+}
+
+const DuplicateUploadDialog: React.FC<DuplicateUploadDialogProps> = ({ candidates, totalFiles, onConfirm, onCancel, darkMode }) => {
+  const [resolutions, setResolutions] = useState<Record<number, DuplicateResolution>>(
+    () => Object.fromEntries(candidates.map(c => [c.index, 'skip' as DuplicateResolution]))
+  );
+
+  const applyToAll = (resolution: DuplicateResolution) =>
+    setResolutions(Object.fromEntries(candidates.map(c => [c.index, resolution])));
+
+  const allSetTo = (resolution: DuplicateResolution) => candidates.every(c => resolutions[c.index] === resolution);
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className={`w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden border ${darkMode ? 'bg-slate-900 border-slate-700 text-slate-200' : 'bg-white border-slate-200 text-slate-800'}`}>
+        <div className="p-4 border-b flex items-center justify-between">
+          <h3 className="font-bold text-lg flex items-center gap-2"><Copy size={18} className="text-amber-500" /> Duplicate files</h3>
+          <button onClick={onCancel}><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm opacity-70">
+            {candidates.length} of {totalFiles} file{totalFiles === 1 ? '' : 's'} in this upload {candidates.length === 1 ? 'has' : 'have'} the same content as a file you already have.
+          </p>
+
+          {/* Apply to all */}
+          <div className="flex gap-2">
+            {DUPLICATE_RESOLUTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => applyToAll(option.value)}
+                className={`flex-1 py-1.5 px-2 rounded-lg text-xs font-medium ${allSetTo(option.value) ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className={`max-h-72 overflow-y-auto rounded-xl border divide-y ${darkMode ? 'border-slate-700 divide-slate-800' : 'border-slate-200 divide-slate-100'}`}>
+            {candidates.map(candidate => (
+              <div key={candidate.index} className="p-3 flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate" title={candidate.fileName}>{candidate.fileName}</div>
+                  <div className="text-[10px] opacity-50 truncate">
+                    Same as "{candidate.matchTitle}" in {candidate.matchProject}
+                  </div>
+                </div>
+                <select
+                  value={resolutions[candidate.index]}
+                  onChange={(e) => setResolutions(prev => ({ ...prev, [candidate.index]: e.target.value as DuplicateResolution }))}
+                  className={`text-xs rounded-lg px-2 py-1 border ${darkMode ? 'bg-slate-800 border-slate-700' : 'bg-white border-slate-200'}`}
+                >
+                  {DUPLICATE_RESOLUTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button onClick={onCancel} className="py-2 rounded-lg border text-sm font-medium hover:bg-black/5">
+              Cancel upload
+            </button>
+            <button onClick={() => onConfirm(resolutions)} className="py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold">
+              Continue
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateUploadDialog;
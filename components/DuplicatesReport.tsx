@@ -0,0 +1,63 @@
+import React from 'react';
+import { Copy, FileText, X } from 'lucide-react';
+import { Document } from '../types';
+import { DuplicateGroup, shortHash } from '../services/duplicateService';
+
+interface DuplicatesReportProps {
+  groups: DuplicateGroup[];
+  unhashedCount: number;
+  locationOf: (doc: Document) => string;
+  onSelectDocument: (doc: Document) => void;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+const DuplicatesReport: React.FC<DuplicatesReportProps> = ({ groups, unhashedCount, locationOf, onSelectDocument, onClose, darkMode }) => {
+  const redundantCount = groups.reduce((sum, group) => sum + group.documents.length - 1, 0);
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className={`w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden border ${darkMode ? 'bg-slate-900 border-slate-700 text-slate-200' : 'bg-white border-slate-200 text-slate-800'}`}>
+        <div className="p-4 border-b flex items-center justify-between">
+          <h3 className="font-bold text-lg flex items-center gap-2"><Copy size={18} className="text-amber-500" /> Duplicates</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          <p className="text-sm opacity-70">
+            {groups.length === 0
+              ? 'No identical files found in this map.'
+              : `${groups.length} file${groups.length === 1 ? '' : 's'} stored more than once (${redundantCount} extra cop${redundantCount === 1 ? 'y' : 'ies'}).`}
+          </p>
+          {unhashedCount > 0 && (
+            <p className="text-xs opacity-50">{unhashedCount} uploaded file{unhashedCount === 1 ? ' is' : 's are'} still being checked.</p>
+          )}
+
+          {groups.map(group => (
+            <div key={group.hash} className={`rounded-xl border p-3 space-y-2 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+              <div className="flex items-center justify-between text-xs">
+                <span className="font-bold">{group.documents.length} copies · {group.projects.length} project{group.projects.length === 1 ? '' : 's'}</span>
+                <span className="font-mono opacity-40" title={group.hash}>{shortHash(group.hash)}</span>
+              </div>
+              {group.documents.map(doc => (
+                <button
+                  key={doc.id}
+                  onClick={() => onSelectDocument(doc)}
+                  className={`w-full text-left p-2 rounded-lg flex items-center gap-2 ${darkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-50'}`}
+                >
+                  <FileText size={14} className="opacity-50 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <div className="text-sm truncate">{doc.title}</div>
+                    <div className="text-[10px] opacity-50 truncate">{doc.project} · {locationOf(doc)}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicatesReport;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Filter, X } from 'lucide-react';
+import { Facet, FacetDisplayMode, FacetKey, FacetSelection, hasActiveFacets, isYearInRange } from '../services/facetService';
+
+interface FacetPanelProps {
+  facets: Facet[];
+  selection: FacetSelection;
+  displayMode: FacetDisplayMode;
+  matchCount: number; // Documents matching the whole selection
+  totalCount: number;
+  onToggle: (key: FacetKey, value: string) => void;
+  onClear: () => void;
+  onDisplayModeChange: (mode: FacetDisplayMode) => void;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+const FacetPanel: React.FC<FacetPanelProps> = ({ facets, selection, displayMode, matchCount, totalCount, onToggle, onClear, onDisplayModeChange, onClose, darkMode }) => {
+  const isActive = hasActiveFacets(selection);
+
+  return (
+    <div className={`absolute top-4 left-4 z-40 w-72 max-h-[calc(100%-2rem)] rounded-2xl shadow-2xl border flex flex-col overflow-hidden backdrop-blur-md ${darkMode ? 'bg-slate-900/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-200 text-slate-800'}`}>
+      <div className={`p-3 border-b flex items-center justify-between ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        <div className="flex items-center gap-2 font-bold text-sm">
+          <Filter size={16} className="text-blue-500" /> Filters
+        </div>
+        <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/10" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* Summary and display mode */}
+      <div className={`px-3 py-2 border-b flex items-center justify-between text-xs ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        <span className="opacity-60">{isActive ? `${matchCount} of ${totalCount} documents` : `${totalCount} documents`}</span>
+        <div className={`flex rounded-lg overflow-hidden border ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+          {(['dim', 'hide'] as FacetDisplayMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => onDisplayModeChange(mode)}
+              className={`px-2 py-0.5 capitalize ${displayMode === mode ? 'bg-blue-500 text-white' : 'hover:bg-black/5'}`}
+              title={mode === 'dim' ? 'Fade nodes that do not match' : 'Hide nodes that do not match'}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {facets.length === 0 && <div className="text-xs opacity-50 text-center py-6">No documents in this map</div>}
+        {facets.map(facet => (
+          <div key={facet.key}>
+            <div className="text-[10px] font-bold uppercase tracking-wider opacity-50 mb-1.5">{facet.title}</div>
+            <div className="space-y-0.5">
+              {facet.values.map(value => {
+                const checked = selection[facet.key].includes(value.value);
+                // Years between the selected ones are part of the range without being ticked
+                const inRange = !checked && facet.key === 'date' && isYearInRange(value.value, selection.date);
+                return (
+                  <label
+                    key={value.value}
+                    className={`flex items-center gap-2 px-1.5 py-1 rounded-md text-xs cursor-pointer ${darkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-100'} ${!checked && value.count === 0 ? 'opacity-40' : ''}`}
+                  >
+                    <input type="checkbox" checked={checked} onChange={() => onToggle(facet.key, value.value)} className="accent-blue-500" />
+                    <span className={`truncate flex-1 ${inRange ? 'text-blue-500' : ''}`}>{value.label}</span>
+                    <span className="text-[10px] opacity-50">{value.count}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isActive && (
+        <div className={`p-3 border-t ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+          <button onClick={onClear} className="w-full text-xs font-bold py-1.5 rounded-lg border border-blue-500/30 text-blue-500 hover:bg-blue-500/10">
+            Clear filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FacetPanel;
@@ -0,0 +1,29 @@
+import React from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: [number, number][]; // Sorted character ranges to mark
+  darkMode: boolean;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({ text, highlights, darkMode }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  highlights.forEach(([start, end]) => {
+    // Overlapping ranges (a phrase and its words) are merged into the earlier mark
+    if (end <= cursor) return;
+    start = Math.max(start, cursor);
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(
+      <mark key={start} className={`rounded px-0.5 ${darkMode ? 'bg-yellow-500/30 text-yellow-100' : 'bg-yellow-200 text-slate-900'}`}>
+        {text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+};
+
+export default HighlightedText;
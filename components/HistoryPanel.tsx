@@ -0,0 +1,75 @@
+import React from 'react';
+import { History, Redo2, Undo2, X } from 'lucide-react';
+import { HistoryState } from '../services/historyService';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onJump: (entryId: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onUndo, onRedo, onClose, darkMode }) => {
+  // Newest first: redoable steps on top (dimmed), then the applied steps
+  const futureEntries = [...history.future].reverse();
+  const pastEntries = [...history.past].reverse();
+  const currentId = history.past[history.past.length - 1]?.id;
+
+  return (
+    <div className={`absolute top-4 left-4 z-40 w-72 max-h-[calc(100%-2rem)] rounded-2xl shadow-2xl border flex flex-col overflow-hidden backdrop-blur-md ${darkMode ? 'bg-slate-900/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-200 text-slate-800'}`}>
+      <div className={`p-3 border-b flex items-center justify-between ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        <div className="flex items-center gap-2 font-bold text-sm">
+          <History size={16} className="text-blue-500" /> History
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={history.past.length === 0} className="p-1.5 rounded-lg hover:bg-black/10 disabled:opacity-30" title="Undo (Ctrl+Z)">
+            <Undo2 size={14} />
+          </button>
+          <button onClick={onRedo} disabled={history.future.length === 0} className="p-1.5 rounded-lg hover:bg-black/10 disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">
+            <Redo2 size={14} />
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/10">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {futureEntries.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(entry.id)}
+            className="w-full text-left px-4 py-2 text-sm flex items-center justify-between gap-2 opacity-40 hover:opacity-70 hover:bg-black/5"
+            title="Redo up to this step"
+          >
+            <span className="truncate line-through">{entry.label}</span>
+            <span className="text-[10px] flex-shrink-0">{formatTime(entry.timestamp)}</span>
+          </button>
+        ))}
+
+        {pastEntries.map(entry => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(entry.id)}
+            className={`w-full text-left px-4 py-2 text-sm flex items-center justify-between gap-2 ${entry.id === currentId ? (darkMode ? 'bg-slate-700/50 font-semibold' : 'bg-blue-50 font-semibold') : 'hover:bg-black/5'}`}
+            title="Go back to this step"
+          >
+            <span className="truncate">{entry.label}</span>
+            <span className="text-[10px] opacity-50 flex-shrink-0">{formatTime(entry.timestamp)}</span>
+          </button>
+        ))}
+
+        {pastEntries.length === 0 && futureEntries.length === 0 && (
+          <div className="px-4 py-6 text-xs text-center opacity-50">No changes yet. Edits to this map will appear here.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ImageDown, X } from 'lucide-react';
+import { ImageExportArea, PngScale, clampPngScale, exportMindMapSvg, rasterizeSvg } from '../services/imageExportService';
+import { downloadBlob, downloadTextFile, toFileSlug } from '../services/downloadService';
+
+interface ImageExportDialogProps {
+  svgRef: React.MutableRefObject<SVGSVGElement | null>;
+  mapName: string;
+  subtree?: { rootName: string, nodeIds: Set<string> } | null;
+  backgroundColor: string;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+type ImageFormat = 'svg' | 'png';
+
+const PNG_SCALES: PngScale[] = [1, 2, 4];
+
+const ImageExportDialog: React.FC<ImageExportDialogProps> = ({ svgRef, mapName, subtree, backgroundColor, onClose, darkMode }) => {
+  const [format, setFormat] = useState<ImageFormat>('png');
+  // A subtree is only meaningful when framed by its own extent
+  const [area, setArea] = useState<ImageExportArea>(subtree ? 'full' : 'view');
+  const [scale, setScale] = useState<PngScale>(2);
+  const [hideScenery, setHideScenery] = useState(!!subtree);
+  const [transparent, setTransparent] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (!svgRef.current) {
+      setError('Open the Mind Map view to export it.');
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const exported = await exportMindMapSvg(svgRef.current, {
+        area: subtree ? 'full' : area,
+        hideScenery,
+        subtreeIds: subtree?.nodeIds,
+        backgroundColor: transparent ? null : backgroundColor
+      });
+      const fileStem = toFileSlug(subtree ? `${mapName} ${subtree.rootName}` : mapName);
+
+      if (format === 'svg') {
+        downloadTextFile(exported.svgText, `${fileStem}.svg`, 'image/svg+xml');
+      } else {
+        const effectiveScale = clampPngScale(exported.width, exported.height, scale);
+        const png = await rasterizeSvg(exported, scale);
+        downloadBlob(png, `${fileStem}@${Math.round(effectiveScale * 100) / 100}x.png`);
+      }
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const optionClass = (active: boolean) =>
+    `flex-1 py-2 px-3 rounded-lg text-sm font-medium ${active ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-400'}`;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className={`w-full max-w-md rounded-2xl shadow-2xl overflow-hidden border ${darkMode ? 'bg-slate-900 border-slate-700 text-slate-200' : 'bg-white border-slate-200 text-slate-800'}`}>
+        <div className="p-4 border-b flex items-center justify-between">
+          <h3 className="font-bold text-lg">{subtree ? `Export "${subtree.rootName}"` : 'Export Image'}</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div>
+            <label className="block text-sm font-medium mb-2 opacity-80">Format</label>
+            <div className="flex gap-2">
+              <button onClick={() => setFormat('png')} className={optionClass(format === 'png')}>PNG</button>
+              <button onClick={() => setFormat('svg')} className={optionClass(format === 'svg')}>SVG</button>
+            </div>
+          </div>
+
+          {!subtree && (
+            <div>
+              <label className="block text-sm font-medium mb-2 opacity-80">Area</label>
+              <div className="flex gap-2">
+                <button onClick={() => setArea('view')} className={optionClass(area === 'view')}>Current view</button>
+                <button onClick={() => setArea('full')} className={optionClass(area === 'full')}>Whole map</button>
+              </div>
+            </div>
+          )}
+
+          {format === 'png' && (
+            <div>
+              <label className="block text-sm font-medium mb-2 opacity-80">Resolution</label>
+              <div className="flex gap-2">
+                {PNG_SCALES.map(s => (
+                  <button key={s} onClick={() => setScale(s)} className={optionClass(scale === s)}>{s}x</button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={hideScenery} onChange={(e) => setHideScenery(e.target.checked)} />
+              Hide background scenery (sky, clouds, hills, stars)
+            </label>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+              Transparent background
+            </label>
+          </div>
+
+          {error && (
+            <div className="flex gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 text-xs">
+              <AlertTriangle size={16} className="flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={isBusy}
+            className="w-full py-2.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+          >
+            <ImageDown size={16} /> {isBusy ? 'Exporting...' : `Download ${format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageExportDialog;
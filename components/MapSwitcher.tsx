@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Copy, Edit3, Network, Plus, Sprout, Trash2, Check } from 'lucide-react';
+import { LayoutMode, MapSummary } from '../types';
+
+interface MapSwitcherProps {
+  maps: MapSummary[];
+  activeMapId: string;
+  activeMapName: string;
+  onSwitch: (mapId: string) => void;
+  onCreate: () => void;
+  onRename: (mapId: string) => void;
+  onDuplicate: (mapId: string) => void;
+  onDelete: (mapId: string) => void;
+  darkMode: boolean;
+}
+
+const MapSwitcher: React.FC<MapSwitcherProps> = ({
+  maps,
+  activeMapId,
+  activeMapName,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  darkMode
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as globalThis.Node)) setIsOpen(false);
+    };
+    window.addEventListener('mousedown', handleClick);
+    return () => window.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const runAndClose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={containerRef} className="relative mr-4 flex-shrink-0">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-sm font-semibold max-w-[220px] transition-colors ${darkMode ? 'border-slate-700 hover:bg-slate-800' : 'border-slate-200 hover:bg-slate-100'}`}
+        title="Switch mind map"
+      >
+        <span className="truncate">{activeMapName}</span>
+        <ChevronDown size={14} className="flex-shrink-0 opacity-60" />
+      </button>
+
+      {isOpen && (
+        <div className={`absolute left-0 top-full mt-2 z-50 w-80 rounded-xl shadow-2xl border overflow-hidden ${darkMode ? 'bg-slate-800 border-slate-700 text-white' : 'bg-white border-slate-200 text-slate-800'}`}>
+          <div className="px-3 py-2 text-xs font-bold uppercase tracking-wider opacity-50 border-b border-gray-500/10">Mind Maps</div>
+
+          <div className="max-h-80 overflow-y-auto">
+            {maps.map(map => (
+              <div
+                key={map.id}
+                onClick={() => runAndClose(() => onSwitch(map.id))}
+                className={`group flex items-center gap-3 px-3 py-2.5 cursor-pointer ${map.id === activeMapId ? (darkMode ? 'bg-slate-700/50' : 'bg-blue-50') : 'hover:bg-black/5'}`}
+              >
+                {map.layoutMode === LayoutMode.SEED
+                  ? <Sprout size={16} className="text-emerald-500 flex-shrink-0" />
+                  : <Network size={16} className="text-blue-500 flex-shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate flex items-center gap-1">
+                    {map.name}
+                    {map.id === activeMapId && <Check size={12} className="text-blue-500" />}
+                  </div>
+                  <div className="text-[10px] opacity-50">
+                    {map.nodeCount} nodes · {map.documentCount} docs · {new Date(map.updatedAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button onClick={(e) => { e.stopPropagation(); runAndClose(() => onRename(map.id)); }} className="p-1 rounded hover:bg-black/10" title="Rename">
+                    <Edit3 size={14} />
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); runAndClose(() => onDuplicate(map.id)); }} className="p-1 rounded hover:bg-black/10" title="Duplicate">
+                    <Copy size={14} />
+                  </button>
+                  <button onClick={(e) => { e.stopPropagation(); runAndClose(() => onDelete(map.id)); }} className="p-1 rounded hover:bg-red-500/10 text-red-500" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={() => runAndClose(onCreate)}
+            className="w-full text-left px-4 py-3 text-sm font-medium hover:bg-black/5 flex items-center gap-3 border-t border-gray-500/10"
+          >
+            <Plus size={16} className="text-green-500" /> New Map
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MapSwitcher;
@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Download, FileJson, GitMerge, ListTree, Replace, Upload, X } from 'lucide-react';
+import { ImportMode, MapBundle, parseMapBundle } from '../services/bundleService';
+import { OutlineFormat, OutlineItem, parseOutlineFile } from '../services/outlineService';
+
+interface MapTransferDialogProps {
+  mapName: string;
+  onExport: (includeFiles: boolean) => Promise<void>;
+  onImport: (bundle: MapBundle, mode: ImportMode) => Promise<void>;
+  onExportOutline: (format: OutlineFormat) => void;
+  onImportOutline: (outline: OutlineItem) => void;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+const MapTransferDialog: React.FC<MapTransferDialogProps> = ({ mapName, onExport, onImport, onExportOutline, onImportOutline, onClose, darkMode }) => {
+  const [includeFiles, setIncludeFiles] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [pendingBundle, setPendingBundle] = useState<MapBundle | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [outlineError, setOutlineError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      await onExport(includeFiles);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setPendingBundle(null);
+    setImportError(null);
+    try {
+      setPendingBundle(parseMapBundle(await file.text()));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Could not read that file.');
+    }
+  };
+
+  const handleImport = async (mode: ImportMode) => {
+    if (!pendingBundle) return;
+    if (mode === 'replace' && !confirm(`Replace the contents of "${mapName}" with "${pendingBundle.map.name}"? This cannot be undone.`)) return;
+
+    setIsBusy(true);
+    try {
+      await onImport(pendingBundle, mode);
+      onClose();
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Import failed.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleOutlineChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setOutlineError(null);
+    try {
+      onImportOutline(parseOutlineFile(await file.text(), file.name));
+      onClose();
+    } catch (err) {
+      setOutlineError(err instanceof Error ? err.message : 'Could not read that outline.');
+    }
+  };
+
+  const sectionClass = `rounded-xl border p-4 space-y-3 ${darkMode ? 'border-slate-700' : 'border-slate-200'}`;
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/50 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className={`w-full max-w-lg rounded-2xl shadow-2xl overflow-hidden border ${darkMode ? 'bg-slate-900 border-slate-700 text-slate-200' : 'bg-white border-slate-200 text-slate-800'}`}>
+        <div className="p-4 border-b flex items-center justify-between">
+          <h3 className="font-bold text-lg">Import / Export</h3>
+          <button onClick={onClose}><X size={20} /></button>
+        </div>
+
+        <div className="p-6 space-y-4 max-h-[75vh] overflow-y-auto">
+          {/* Export */}
+          <div className={sectionClass}>
+            <div className="text-sm font-bold flex items-center gap-2"><Download size={16} className="text-blue-500" /> Export "{mapName}"</div>
+            <p className="text-xs opacity-60">Saves the map, its documents, node positions and theme settings as a versioned JSON bundle.</p>
+            <label className="flex items-center gap-2 text-sm cursor-pointer">
+              <input type="checkbox" checked={includeFiles} onChange={(e) => setIncludeFiles(e.target.checked)} />
+              Embed uploaded files (base64, larger bundle)
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={isBusy}
+              className="w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-sm font-bold disabled:opacity-50"
+            >
+              Download .json
+            </button>
+          </div>
+
+          {/* Import */}
+          <div className={sectionClass}>
+            <div className="text-sm font-bold flex items-center gap-2"><Upload size={16} className="text-green-500" /> Import a bundle</div>
+            <label className={`flex items-center justify-center gap-2 py-2 rounded-lg border border-dashed cursor-pointer text-sm ${darkMode ? 'border-slate-600 hover:bg-slate-800' : 'border-slate-300 hover:bg-slate-50'}`}>
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChosen} />
+              <FileJson size={16} /> Choose file...
+            </label>
+
+            {importError && (
+              <div className="flex gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 text-xs whitespace-pre-line">
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                <span>{importError}</span>
+              </div>
+            )}
+
+            {pendingBundle && (
+              <>
+                <div className={`p-3 rounded-lg text-xs ${darkMode ? 'bg-slate-800' : 'bg-slate-50'}`}>
+                  <div className="font-bold text-sm mb-1">{pendingBundle.map.name}</div>
+                  {pendingBundle.graph.nodes.length} nodes · {pendingBundle.documents.length} docs · {Object.keys(pendingBundle.files || {}).length} embedded files · {pendingBundle.map.layoutMode} layout
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => handleImport('replace')}
+                    disabled={isBusy}
+                    className="py-2 rounded-lg border text-sm font-medium flex items-center justify-center gap-2 hover:bg-black/5 disabled:opacity-50"
+                  >
+                    <Replace size={14} /> Replace map
+                  </button>
+                  <button
+                    onClick={() => handleImport('merge')}
+                    disabled={isBusy}
+                    className="py-2 rounded-lg bg-green-600 hover:bg-green-500 text-white text-sm font-bold flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <GitMerge size={14} /> Merge into map
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Outline (Markdown / OPML) */}
+          <div className={sectionClass}>
+            <div className="text-sm font-bold flex items-center gap-2"><ListTree size={16} className="text-orange-500" /> Outline</div>
+            <p className="text-xs opacity-60">Exchange the node tree with other outliners. Imported items are added under the root node.</p>
+            <div className="grid grid-cols-3 gap-2">
+              <button onClick={() => onExportOutline('markdown')} className="py-2 rounded-lg border text-sm font-medium hover:bg-black/5">
+                Export .md
+              </button>
+              <button onClick={() => onExportOutline('opml')} className="py-2 rounded-lg border text-sm font-medium hover:bg-black/5">
+                Export .opml
+              </button>
+              <label className={`py-2 rounded-lg border border-dashed text-sm font-medium text-center cursor-pointer ${darkMode ? 'border-slate-600 hover:bg-slate-800' : 'border-slate-300 hover:bg-slate-50'}`}>
+                <input type="file" accept=".md,.markdown,.txt,.opml,.xml" className="hidden" onChange={handleOutlineChosen} />
+                Import...
+              </label>
+            </div>
+
+            {outlineError && (
+              <div className="flex gap-2 p-3 rounded-lg bg-red-500/10 text-red-500 text-xs whitespace-pre-line">
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                <span>{outlineError}</span>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MapTransferDialog;
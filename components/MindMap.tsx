@@ -1,8 +1,10 @@
 import React, { useEffect, useRef, useState, useMemo } from 'react';
 import * as d3 from 'd3';
-import { Circle, FileText, Folder, Image, Video, Flower2, Music, Table, Trash2, Eye, EyeOff, ArrowUp, Sun, Moon, Play, Pause, CloudSun, Sunset, Sparkles } from 'lucide-react';
+import { Circle, FileText, Folder, Image, Video, Flower2, Music, Table, Trash2, Eye, EyeOff, ArrowUp, ImageDown, Sun, Moon, Play, Pause, CloudSun, Sunset, Sparkles, FolderSearch } from 'lucide-react';
 import { GraphData, Node, Link, NodeType, AppTheme, LinkStyle, NodeIconType, LayoutMode } from '../types';
 import { THEMES } from '../constants';
+import { Snippet } from '../services/snippetService';
+import HighlightedText from './HighlightedText';
 
 interface MindMapProps {
   data: GraphData;
@@ -15,6 +17,12 @@ interface MindMapProps {
   layoutMode: LayoutMode;
   graphicsQuality: 'low' | 'mid' | 'high';
   focusedNodeId?: string | null;
+  positionsRef?: React.MutableRefObject<Map<string, Node> | null>; // Exposes live simulation nodes (for export)
+  svgExportRef?: React.MutableRefObject<SVGSVGElement | null>; // Exposes the rendered <svg> (for image export)
+  onExportSubtree?: (nodeId: string) => void;
+  nodeSnippets?: Record<string, Snippet[]>; // Search matches shown in the hover tooltip, by node id
+  dimmedNodeIds?: Set<string>; // Nodes faded out by the facet filters
+  onEditSmartFolder?: (nodeId: string) => void;
 }
 
 interface Cloud {
@@ -94,6 +102,7 @@ const ICONS: Record<string, string> = {
   spreadsheet: "M19 3H5c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h14c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zm0 16H5V5h14v14zM7 7h3v3H7zm0 4h3v3H7zm0 4h3v3H7zM14 7h3v3h-3zm0 4h3v3h-3zm0 4h3v3h-3z",
   seed: "M12 22c4.97 0 9-4.03 9-9 0-4.97-9-13-9-13S3 8.03 3 13c0 4.97 4.03 9 9 9z", 
   tree: "M12 2L2 22h20L12 2zm0 3l7 14H5l7-14z M19 12h-2v-2c0-3.86-3.14-7-7-7S3 6.14 3 10v2H1c0 5 4.9 9 11 9s11-4 11-9zM7 10c0-2.76 2.24-5 5-5s5 2.24 5 5v2H7v-2zm5 9c-3.14 0-6-2.33-6-5.5S8.86 8 12 8s6 2.33 6 5.5S15.14 19 12 19zm-1-5h2v3h-2v-3z",
+  smart: "M15.5 14h-.79l-.28-.27C15.41 12.59 16 11.11 16 9.5 16 5.91 13.09 3 9.5 3S3 5.91 3 9.5 5.91 16 9.5 16c1.61 0 3.09-.59 4.23-1.57l.27.28v.79l5 4.99L20.49 19l-4.99-5zm-6 0C7.01 14 5 11.99 5 9.5S7.01 5 9.5 5 14 7.01 14 9.5 11.99 14 9.5 14z",
   leaf: "M17 8C8 10 5.9 16.17 3.82 21.34 5.71 18.27 7.5 16.5 8 16c.41.69 1.5 2.5 1.5 2.5s3.25-1 6-3.5 4-7.5 4-7.5-1.5 0-2.5.5z",
   default: "M14 2H6c-1.1 0-1.99.9-1.99 2L4 20c0 1.1.89 2 1.99 2H18c1.1 0 2-.9 2-2V8l-6-6zm2 16H8v-2h8v2zm0-4H8v-2h8v2zm-3-5V3.5L18.5 9H13z"
 };
@@ -207,12 +216,19 @@ const MindMap: React.FC<MindMapProps> = ({
     linkStyle, 
     layoutMode, 
     graphicsQuality,
-    focusedNodeId 
+    focusedNodeId,
+    positionsRef,
+    svgExportRef,
+    onExportSubtree,
+    nodeSnippets,
+    dimmedNodeIds,
+    onEditSmartFolder
 }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 });
   const [contextMenu, setContextMenu] = useState<{ x: number, y: number, nodeId: string | null }>({ x: 0, y: 0, nodeId: null });
+  const [tooltip, setTooltip] = useState<{ x: number, y: number, nodeId: string } | null>(null);
   
   // Day/Night Cycle State (0 to 1)
   const [timeOfDay, setTimeOfDay] = useState(0.4); // Start at Day
@@ -1081,7 +1097,8 @@ const MindMap: React.FC<MindMapProps> = ({
         if (layoutMode === LayoutMode.SPIDER && d.id === 'root') { fx = null; fy = null; }
         return { ...d, x: existing.x, y: existing.y, vx: existing.vx, vy: existing.vy, fx, fy, trunkTier: d.trunkTier, side, level: d.level, val: d.val };
       }
-      return { ...d, x: width / 2, y: height / 2, vx: 0, trunkTier: d.trunkTier, side, level: d.level, val: d.val };
+      // Imported nodes carry their saved position; everything else starts from the center
+      return { ...d, x: d.x ?? width / 2, y: d.y ?? height / 2, vx: 0, trunkTier: d.trunkTier, side, level: d.level, val: d.val };
     });
 
     const links: Link[] = data.links.map(d => ({ ...d }));
@@ -1091,6 +1108,8 @@ const MindMap: React.FC<MindMapProps> = ({
         if (!currentIds.has(id)) nodesMapRef.current.delete(id);
     }
     nodes.forEach(n => nodesMapRef.current.set(n.id, n));
+    if (positionsRef) positionsRef.current = nodesMapRef.current;
+    if (svgExportRef) svgExportRef.current = svgRef.current;
 
     // --- HINT LAYER ---
     let hintLayer = g.select<SVGGElement>(".hint-layer");
@@ -1244,7 +1263,9 @@ const MindMap: React.FC<MindMapProps> = ({
     const linkGroup = linkLayer.selectAll<SVGGElement, Link>(".link-group")
       .data(links, (d: any) => `${(d.source as Node).id || d.source}-${(d.target as Node).id || d.target}`)
       .join(enter => {
-            const grp = enter.append("g").attr("class", "link-group");
+            const grp = enter.append("g").attr("class", "link-group")
+                .attr("data-source", d => (d.source as Node).id || d.source as string)
+                .attr("data-target", d => (d.target as Node).id || d.target as string);
             // Remove floating shadow path, only keep main branch
             grp.append("path").attr("class", "branch-main").attr("fill", "none").attr("stroke-linecap", "round").attr("filter", getFilterUrl("cylinderLight"));
             return grp;
@@ -1257,7 +1278,7 @@ const MindMap: React.FC<MindMapProps> = ({
       .data(nodes, d => d.id)
       .join(
         enter => {
-          const g = enter.append("g").attr("class", "node-group").attr("opacity", 0); 
+          const g = enter.append("g").attr("class", "node-group").attr("data-node-id", d => d.id).attr("opacity", 0); 
           const expandBtn = g.append("g").attr("class", "expand-btn").attr("opacity", 0) 
             .attr("transform", d => `translate(${d.val + 12}, 0) scale(0)`).attr("cursor", "pointer")
             .on("click", (event, d) => { event.stopPropagation(); onNodeExpand(d); });
@@ -1268,8 +1289,10 @@ const MindMap: React.FC<MindMapProps> = ({
 
           g.on("mouseenter", function(event, d) {
               d3.select(this).select(".expand-btn").transition().duration(200).attr("opacity", 1).attr("transform", `translate(${d.val + 12}, 0) scale(1)`);
+              setTooltip({ x: event.clientX, y: event.clientY, nodeId: d.id });
           }).on("mouseleave", function(event, d) {
               d3.select(this).select(".expand-btn").transition().duration(200).attr("opacity", 0).attr("transform", `translate(${d.val + 12}, 0) scale(0)`);
+              setTooltip(null);
           });
 
           g.append("text").text(d => d.name).attr("text-anchor", "middle").attr("fill", theme === AppTheme.CYBER ? "#e2e8f0" : "#334155").attr("stroke", theme === AppTheme.CYBER ? "#0f172a" : "#ffffff").attr("stroke-width", 3).attr("paint-order", "stroke").attr("stroke-linejoin", "round").style("font-size", "10px").style("pointer-events", "all").style("cursor", "pointer").style("font-weight", "600").on("click", (event, d) => { event.stopPropagation(); onNodeSelect(d); });
@@ -1296,6 +1319,11 @@ const MindMap: React.FC<MindMapProps> = ({
              } else if (visualIconType === 'leaf') {
                   group.insert("circle", "text").attr("class", "node-bg").attr("r", d.val).attr("fill", "#84cc16").attr("stroke", "#ffffff").attr("stroke-width", 2).attr("filter", getFilterUrl("nodeGlow")).attr("cursor", "pointer").on("click", (event, d) => { event.stopPropagation(); onNodeSelect(d); });
                   group.insert("path", "text").attr("class", "node-icon").attr("d", ICONS.leaf).attr("fill", "#ffffff").attr("transform", `translate(-${d.val * 0.6}, -${d.val * 0.6}) scale(${d.val / 20})`).style("pointer-events", "none");
+             } else if (visualIconType === 'smart') {
+                  // Smart folder: folder tile with a dashed outline and a magnifier, since its contents come from a query
+                  const size = d.val * 2.5;
+                  group.insert("rect", "text").attr("class", "node-bg").attr("width", size).attr("height", size).attr("x", -size / 2).attr("y", -size / 2).attr("rx", 10).attr("fill", color).attr("stroke", "#fff").attr("stroke-width", 2).attr("stroke-dasharray", "5 3").attr("filter", theme === AppTheme.CYBER ? getFilterUrl("nodeGlow") : null).on("click", (event, d) => { event.stopPropagation(); onNodeSelect(d as Node); });
+                  group.insert("path", "text").attr("class", "node-icon").attr("d", ICONS.smart).attr("fill", "#ffffff").attr("transform", `translate(-${d.val * 0.6}, -${d.val * 0.6}) scale(${d.val / 20})`).style("pointer-events", "none");
              } else if (visualIconType === 'folder' || d.type === NodeType.PROJECT) {
                   const size = d.val * 2.5;
                   group.insert("rect", "text").attr("class", "node-bg").attr("width", size).attr("height", size).attr("x", -size / 2).attr("y", -size / 2).attr("rx", 6).attr("fill", color).attr("stroke", "#fff").attr("stroke-width", 2).attr("filter", theme === AppTheme.CYBER ? getFilterUrl("nodeGlow") : null).on("click", (event, d) => { event.stopPropagation(); onNodeSelect(d); });
@@ -1728,6 +1756,18 @@ const MindMap: React.FC<MindMapProps> = ({
 
   }, [data, dimensions, theme, linkStyle, onNodeExpand, onNodeSelect, themeColors, nodeWeights, layoutMode, shouldShowTree, sunData, graphicsQuality]);
 
+  // Facet Dimming: runs after the render above so re-created groups pick it up.
+  // A CSS opacity overrides the opacity attribute the enter transition animates.
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    const isDimmed = (id: string) => !!dimmedNodeIds?.has(id);
+    svg.selectAll<SVGGElement, Node>(".node-group").style("opacity", d => isDimmed(d.id) ? 0.15 : null);
+    svg.selectAll<SVGGElement, Link>(".link-group").style("opacity", function() {
+        return isDimmed(this.getAttribute("data-source") || '') || isDimmed(this.getAttribute("data-target") || '') ? 0.1 : null;
+    });
+  }, [dimmedNodeIds, data, dimensions, theme, linkStyle, themeColors, nodeWeights, layoutMode, shouldShowTree, sunData, graphicsQuality]);
+
   const handleFoldBranch = () => {
     if (contextMenu.nodeId) {
         const node = data.nodes.find(n => n.id === contextMenu.nodeId);
@@ -1753,6 +1793,23 @@ const MindMap: React.FC<MindMapProps> = ({
     setContextMenu({ x: 0, y: 0, nodeId: null });
   };
 
+  const handleExportSubtree = () => {
+    if (contextMenu.nodeId && onExportSubtree) onExportSubtree(contextMenu.nodeId);
+    setContextMenu({ x: 0, y: 0, nodeId: null });
+  };
+
+  const handleEditSmartFolder = () => {
+    if (contextMenu.nodeId && onEditSmartFolder) onEditSmartFolder(contextMenu.nodeId);
+    setContextMenu({ x: 0, y: 0, nodeId: null });
+  };
+
+  const handleDeleteBranch = () => {
+    if (contextMenu.nodeId && contextMenu.nodeId !== 'root') {
+        onDeleteNode(contextMenu.nodeId);
+    }
+    setContextMenu({ x: 0, y: 0, nodeId: null });
+  };
+
   return (
     <div ref={containerRef} className="w-full h-full relative overflow-hidden bg-transparent">
       <svg ref={svgRef} width="100%" height="100%" className="block outline-none" style={{ cursor: 'grab' }}>
@@ -1811,6 +1868,28 @@ const MindMap: React.FC<MindMapProps> = ({
         </div>
       </div>
 
+      {/* Hover Tooltip: search matches, or the description when there are none */}
+      {tooltip && !contextMenu.nodeId && (() => {
+          const node = data.nodes.find(n => n.id === tooltip.nodeId);
+          const snippets = nodeSnippets?.[tooltip.nodeId] || [];
+          if (!node || (snippets.length === 0 && !node.description)) return null;
+          const isDark = theme === AppTheme.CYBER;
+          return (
+              <div
+                style={{ position: 'fixed', left: tooltip.x + 16, top: tooltip.y + 16 }}
+                className={`z-40 pointer-events-none max-w-xs rounded-xl shadow-xl border p-3 text-xs ${isDark ? 'bg-slate-800/95 border-slate-700 text-slate-200' : 'bg-white/95 border-slate-200 text-slate-700'}`}
+              >
+                  <div className="font-bold text-sm mb-1 truncate">{node.name}</div>
+                  {snippets.length > 0 ? snippets.slice(0, 3).map((snippet, i) => (
+                      <p key={i} className="mt-1 leading-relaxed">
+                          <span className="uppercase text-[9px] font-bold tracking-wider opacity-50 mr-1">{snippet.page ? `p. ${snippet.page}` : snippet.field}</span>
+                          <HighlightedText text={snippet.text} highlights={snippet.highlights} darkMode={isDark} />
+                      </p>
+                  )) : <p className="leading-relaxed opacity-80 line-clamp-4">{node.description}</p>}
+              </div>
+          );
+      })()}
+
       {contextMenu.nodeId && (
           <div 
             style={{ position: 'fixed', left: contextMenu.x, top: contextMenu.y }}
@@ -1830,6 +1909,24 @@ const MindMap: React.FC<MindMapProps> = ({
                       <ArrowUp size={16} className="text-slate-500" /> Fold Parent
                   </button>
               )}
+
+              {onExportSubtree && (
+                  <button onClick={handleExportSubtree} className="w-full text-left px-4 py-3 text-sm font-medium hover:bg-black/5 flex items-center gap-3">
+                      <ImageDown size={16} className="text-blue-500" /> Export Subtree
+                  </button>
+              )}
+
+              {onEditSmartFolder && data.nodes.find(n => n.id === contextMenu.nodeId)?.smartFolder && (
+                  <button onClick={handleEditSmartFolder} className="w-full text-left px-4 py-3 text-sm font-medium hover:bg-black/5 flex items-center gap-3">
+                      <FolderSearch size={16} className="text-violet-500" /> Edit Query
+                  </button>
+              )}
+
+              {contextMenu.nodeId !== 'root' && (
+                  <button onClick={handleDeleteBranch} className="w-full text-left px-4 py-3 text-sm font-medium hover:bg-red-500/10 text-red-500 flex items-center gap-3 border-t border-gray-500/10">
+                      <Trash2 size={16} /> Delete Branch
+                  </button>
+              )}
           </div>
       )}
     </div>
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { AlertTriangle, ChevronLeft, ChevronRight, Download, Loader2 } from 'lucide-react';
+import { openPdf } from '../services/pdfExtractor';
+
+interface PdfViewerProps {
+  fileUrl: string;
+  fileName: string;
+  initialPage?: number;
+  pageRequestId?: number; // Changes with every jump request, so asking for the current page again still jumps back
+  darkMode: boolean;
+}
+
+const PdfViewer: React.FC<PdfViewerProps> = ({ fileUrl, fileName, initialPage = 1, pageRequestId, darkMode }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [page, setPage] = useState(initialPage);
+  const [isRendering, setIsRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // --- LOAD ---
+  useEffect(() => {
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setError(null);
+
+    openPdf(fileUrl)
+      .then(doc => {
+        loaded = doc;
+        if (cancelled) { doc.destroy(); return; }
+        setPdf(doc);
+        setPage(Math.min(Math.max(1, initialPage), doc.numPages));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not open PDF');
+      });
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [fileUrl]);
+
+  // Jump when the caller points at another page (e.g. a search hit) of the same file
+  useEffect(() => {
+    if (pdf) setPage(Math.min(Math.max(1, initialPage), pdf.numPages));
+  }, [initialPage, pageRequestId]);
+
+  // --- RENDER PAGE ---
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+    let task: RenderTask | null = null;
+    let cancelled = false;
+    setIsRendering(true);
+
+    pdf.getPage(page).then(pdfPage => {
+      if (cancelled || !canvasRef.current || !containerRef.current) return;
+      // Fit the page to the panel width and render at device resolution so text stays sharp
+      const baseViewport = pdfPage.getViewport({ scale: 1 });
+      const cssScale = containerRef.current.clientWidth / baseViewport.width;
+      const outputScale = window.devicePixelRatio || 1;
+      const viewport = pdfPage.getViewport({ scale: cssScale * outputScale });
+
+      const canvas = canvasRef.current;
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+      canvas.style.width = `${Math.floor(viewport.width / outputScale)}px`;
+      canvas.style.height = `${Math.floor(viewport.height / outputScale)}px`;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      task = pdfPage.render({ canvasContext: ctx, viewport });
+      return task.promise;
+    })
+      .catch(err => {
+        // A newer page replaced this render
+        if (err?.name !== 'RenderingCancelledException') setError(err instanceof Error ? err.message : 'Could not render page');
+      })
+      .finally(() => {
+        if (!cancelled) setIsRendering(false);
+      });
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, page]);
+
+  const pageCount = pdf?.numPages || 0;
+  const buttonClass = `p-1.5 rounded-lg disabled:opacity-30 ${darkMode ? 'hover:bg-slate-700' : 'hover:bg-slate-200'}`;
+
+  if (error) {
+    return (
+      <div className="p-6 flex flex-col items-center justify-center gap-3 text-center">
+        <AlertTriangle size={32} className="text-red-500" />
+        <span className="text-xs text-red-500">{error}</span>
+        <a
+          href={fileUrl}
+          download={fileName}
+          className="px-4 py-2 bg-slate-200 dark:bg-slate-700 rounded-lg text-xs font-bold hover:opacity-80 transition-colors flex items-center gap-2"
+        >
+          <Download size={14} /> Download
+        </a>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div ref={containerRef} className="relative max-h-96 overflow-y-auto bg-white">
+        <canvas ref={canvasRef} className="block" />
+        {(!pdf || isRendering) && (
+          <div className="absolute inset-0 min-h-[160px] flex items-center justify-center">
+            <Loader2 size={24} className="animate-spin text-slate-400" />
+          </div>
+        )}
+      </div>
+
+      {/* Pager */}
+      <div className={`flex items-center justify-between px-2 py-1.5 text-xs border-t ${darkMode ? 'border-slate-700' : 'border-slate-200'}`}>
+        <button onClick={() => setPage(p => p - 1)} disabled={page <= 1} className={buttonClass} title="Previous page">
+          <ChevronLeft size={16} />
+        </button>
+        <span className="opacity-70">{pageCount ? `Page ${page} of ${pageCount}` : 'Loading...'}</span>
+        <div className="flex items-center gap-1">
+          <a href={fileUrl} download={fileName} className={buttonClass} title="Download">
+            <Download size={14} />
+          </a>
+          <button onClick={() => setPage(p => p + 1)} disabled={page >= pageCount} className={buttonClass} title="Next page">
+            <ChevronRight size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
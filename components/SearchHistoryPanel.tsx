@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, Clock, RotateCcw, Trash2, X } from 'lucide-react';
+import { Document, SearchAnswer, SearchHistoryEntry } from '../types';
+import { diffResults, previousRunOf } from '../services/searchHistoryService';
+
+interface SearchHistoryPanelProps {
+  history: SearchHistoryEntry[]; // Newest first
+  documents: Document[];
+  onReplay: (entry: SearchHistoryEntry) => void;
+  onSelectDocument: (doc: Document) => void;
+  onClear: () => void;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+const ANSWER_LABELS: Record<SearchAnswer, { label: string, className: string }> = {
+  local: { label: 'Map', className: 'bg-sky-500/15 text-sky-500' },
+  ai: { label: 'AI', className: 'bg-violet-500/15 text-violet-500' },
+  fallback: { label: 'Fallback', className: 'bg-amber-500/15 text-amber-600' },
+  none: { label: 'No hits', className: 'bg-slate-500/15 opacity-70' }
+};
+
+const formatDateTime = (iso: string) =>
+  new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SearchHistoryPanel: React.FC<SearchHistoryPanelProps> = ({ history, documents, onReplay, onSelectDocument, onClear, onClose, darkMode }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const docsById = new Map(documents.map(d => [d.id, d]));
+
+  // Gone documents may have been deleted since; their id is all that is left
+  const renderDocument = (docId: string, kind: 'added' | 'removed') => {
+    const doc = docsById.get(docId);
+    return (
+      <button
+        key={`${kind}-${docId}`}
+        onClick={() => doc && onSelectDocument(doc)}
+        disabled={!doc}
+        className={`w-full text-left flex items-center gap-1.5 px-1.5 py-0.5 rounded text-xs ${doc ? 'hover:bg-black/5' : 'cursor-default'}`}
+      >
+        <span className={`font-bold w-3 ${kind === 'added' ? 'text-emerald-500' : 'text-red-500'}`}>{kind === 'added' ? '+' : '−'}</span>
+        <span className={`truncate ${kind === 'removed' ? 'line-through opacity-60' : ''}`}>{doc ? doc.title : `${docId} (deleted)`}</span>
+      </button>
+    );
+  };
+
+  return (
+    <div className={`absolute top-4 left-4 z-40 w-80 max-h-[calc(100%-2rem)] rounded-2xl shadow-2xl border flex flex-col overflow-hidden backdrop-blur-md ${darkMode ? 'bg-slate-900/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-200 text-slate-800'}`}>
+      <div className={`p-3 border-b flex items-center justify-between ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        <div className="flex items-center gap-2 font-bold text-sm">
+          <Clock size={16} className="text-blue-500" /> Search History
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onClear} disabled={history.length === 0} className="p-1.5 rounded-lg hover:bg-black/10 disabled:opacity-30" title="Clear search history">
+            <Trash2 size={14} />
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/10">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {history.map(entry => {
+          const previous = previousRunOf(history, entry);
+          const diff = previous ? diffResults(previous, entry) : null;
+          const hasChanges = !!diff && (diff.added.length > 0 || diff.removed.length > 0);
+          const isExpanded = expandedId === entry.id;
+          const answer = ANSWER_LABELS[entry.answeredBy];
+
+          return (
+            <div key={entry.id} className={`px-3 py-2 border-b last:border-b-0 ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="p-0.5 rounded hover:bg-black/10 opacity-60"
+                  title={isExpanded ? 'Hide results' : 'Show results'}
+                >
+                  {isExpanded ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                </button>
+                <span className="flex-1 truncate text-sm font-medium" title={entry.query}>{entry.query}</span>
+                <button onClick={() => onReplay(entry)} className="p-1 rounded-lg hover:bg-black/10 text-blue-500" title="Run again">
+                  <RotateCcw size={13} />
+                </button>
+              </div>
+              <div className="ml-6 mt-0.5 flex items-center gap-2 text-[10px]">
+                <span className="opacity-50">{formatDateTime(entry.ranAt)}</span>
+                <span className={`px-1.5 rounded font-bold ${answer.className}`}>{answer.label}</span>
+                <span className="opacity-50">{entry.resultIds.length} doc{entry.resultIds.length === 1 ? '' : 's'}</span>
+                {diff && (hasChanges ? (
+                  <span className="ml-auto font-bold">
+                    {diff.added.length > 0 && <span className="text-emerald-500">+{diff.added.length} new</span>}
+                    {diff.added.length > 0 && diff.removed.length > 0 && ' · '}
+                    {diff.removed.length > 0 && <span className="text-red-500">{diff.removed.length} gone</span>}
+                  </span>
+                ) : (
+                  <span className="ml-auto opacity-40">unchanged</span>
+                ))}
+              </div>
+
+              {isExpanded && (
+                <div className="ml-5 mt-1.5">
+                  {hasChanges && (
+                    <div className="mb-1.5">
+                      <div className="text-[10px] uppercase tracking-wider font-bold opacity-40 px-1.5">Since {formatDateTime(previous!.ranAt)}</div>
+                      {diff!.added.map(id => renderDocument(id, 'added'))}
+                      {diff!.removed.map(id => renderDocument(id, 'removed'))}
+                    </div>
+                  )}
+                  {entry.resultIds.length > 0 ? entry.resultIds.map(id => {
+                    const doc = docsById.get(id);
+                    return (
+                      <button
+                        key={id}
+                        onClick={() => doc && onSelectDocument(doc)}
+                        disabled={!doc}
+                        className={`w-full text-left truncate px-1.5 py-0.5 rounded text-xs ${doc ? 'hover:bg-black/5' : 'opacity-40 cursor-default'}`}
+                      >
+                        {doc ? doc.title : `${id} (deleted)`}
+                      </button>
+                    );
+                  }) : (
+                    <div className="text-xs opacity-50 px-1.5">No documents returned</div>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {history.length === 0 && (
+          <div className="px-4 py-6 text-xs text-center opacity-50">No searches yet. Queries you run on this map will appear here.</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchHistoryPanel;
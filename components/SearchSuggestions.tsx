@@ -0,0 +1,57 @@
+import React from 'react';
+import { FileText, Folder, Hash, Network } from 'lucide-react';
+import { Suggestion, SuggestionGroup, SuggestionKind } from '../services/suggestionService';
+
+interface SearchSuggestionsProps {
+  groups: SuggestionGroup[];
+  activeIndex: number; // Index into the flattened list of all groups' items, -1 for none
+  onChoose: (suggestion: Suggestion) => void;
+  onHover: (index: number) => void;
+  darkMode: boolean;
+}
+
+const KIND_ICONS: Record<SuggestionKind, React.ReactNode> = {
+  node: <Network size={14} />,
+  document: <FileText size={14} />,
+  tag: <Hash size={14} />,
+  project: <Folder size={14} />
+};
+
+const SearchSuggestions: React.FC<SearchSuggestionsProps> = ({ groups, activeIndex, onChoose, onHover, darkMode }) => {
+  let flatIndex = 0;
+
+  return (
+    <div
+      role="listbox"
+      className={`absolute left-0 right-0 top-full mt-1 z-50 rounded-xl border shadow-xl py-1 max-h-96 overflow-y-auto ${darkMode ? 'bg-slate-900 border-slate-700 text-slate-200' : 'bg-white border-slate-200 text-slate-800'}`}
+      // Keep focus in the input so choosing with the mouse does not close the panel first
+      onMouseDown={(e) => e.preventDefault()}
+    >
+      {groups.map(group => (
+        <div key={group.kind}>
+          <div className="px-3 pt-2 pb-1 text-[10px] font-bold uppercase tracking-wider opacity-40">{group.title}</div>
+          {group.items.map(item => {
+            const index = flatIndex++;
+            const isActive = index === activeIndex;
+            return (
+              <div
+                key={`${item.kind}-${item.id}`}
+                role="option"
+                aria-selected={isActive}
+                onClick={() => onChoose(item)}
+                onMouseEnter={() => onHover(index)}
+                className={`px-3 py-1.5 flex items-center gap-2 cursor-pointer text-sm ${isActive ? (darkMode ? 'bg-slate-800' : 'bg-blue-50') : ''}`}
+              >
+                <span className="opacity-50 flex-shrink-0">{KIND_ICONS[item.kind]}</span>
+                <span className="truncate">{item.label}</span>
+                {item.detail && <span className="ml-auto text-[10px] opacity-40 truncate max-w-[40%]">{item.detail}</span>}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default SearchSuggestions;
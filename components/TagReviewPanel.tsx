@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Check, CheckCheck, FolderInput, Loader2, Tags, X } from 'lucide-react';
+import { Document, TagSuggestion } from '../types';
+
+interface TagReviewPanelProps {
+  suggestions: TagSuggestion[]; // Oldest first
+  documents: Document[];
+  locationOf: (doc: Document) => string; // Where the document is filed now
+  pendingCount: number; // Uploads still waiting for a suggestion
+  onAccept: (suggestion: TagSuggestion, tags: string[]) => void;
+  onReject: (suggestion: TagSuggestion) => void;
+  onAcceptAll: (accepted: { suggestion: TagSuggestion, tags: string[] }[]) => void;
+  onRejectAll: () => void;
+  onOpenDocument: (doc: Document) => void;
+  onClose: () => void;
+  darkMode: boolean;
+}
+
+const TagReviewPanel: React.FC<TagReviewPanelProps> = ({ suggestions, documents, locationOf, pendingCount, onAccept, onReject, onAcceptAll, onRejectAll, onOpenDocument, onClose, darkMode }) => {
+  // Tags switched off per suggestion; everything suggested is selected to begin with
+  const [excludedTags, setExcludedTags] = useState<Record<string, string[]>>({});
+  const docsById = new Map(documents.map(d => [d.id, d]));
+  const visible = suggestions.filter(s => docsById.has(s.docId));
+
+  const selectedTags = (suggestion: TagSuggestion) => suggestion.tags.filter(tag => !(excludedTags[suggestion.id] || []).includes(tag));
+
+  const toggleTag = (suggestionId: string, tag: string) => setExcludedTags(prev => {
+    const excluded = prev[suggestionId] || [];
+    return { ...prev, [suggestionId]: excluded.includes(tag) ? excluded.filter(t => t !== tag) : [...excluded, tag] };
+  });
+
+  return (
+    <div className={`absolute top-4 left-4 z-40 w-96 max-h-[calc(100%-2rem)] rounded-2xl shadow-2xl border flex flex-col overflow-hidden backdrop-blur-md ${darkMode ? 'bg-slate-900/90 border-slate-700 text-slate-200' : 'bg-white/90 border-slate-200 text-slate-800'}`}>
+      <div className={`p-3 border-b flex items-center justify-between ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+        <div className="flex items-center gap-2 font-bold text-sm">
+          <Tags size={16} className="text-blue-500" /> Review suggestions
+          {visible.length > 0 && <span className="text-xs font-normal opacity-50">{visible.length}</span>}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => onAcceptAll(visible.map(suggestion => ({ suggestion, tags: selectedTags(suggestion) })))} disabled={visible.length === 0} className="p-1.5 rounded-lg hover:bg-black/10 disabled:opacity-30" title="Accept all">
+            <CheckCheck size={14} />
+          </button>
+          <button onClick={onRejectAll} disabled={visible.length === 0} className="px-1.5 py-1 rounded-lg text-[10px] font-bold uppercase hover:bg-black/10 disabled:opacity-30" title="Reject all">
+            Reject all
+          </button>
+          <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-black/10">
+            <X size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {visible.map(suggestion => {
+          const doc = docsById.get(suggestion.docId)!;
+          const excluded = excludedTags[suggestion.id] || [];
+          const projectChanged = suggestion.project !== doc.project;
+          return (
+            <div key={suggestion.id} className={`px-3 py-2.5 border-b last:border-b-0 ${darkMode ? 'border-slate-800' : 'border-slate-100'}`}>
+              <button onClick={() => onOpenDocument(doc)} className="block w-full text-left text-sm font-medium truncate hover:text-blue-500" title={doc.title}>
+                {doc.title}
+              </button>
+              <div className="mt-1 flex items-center gap-1.5 text-xs">
+                <FolderInput size={12} className="shrink-0 opacity-50" />
+                <span className="truncate opacity-50">{locationOf(doc)}</span>
+                <span className="opacity-50">→</span>
+                <span className="truncate font-medium text-blue-500">{suggestion.category}</span>
+              </div>
+              {projectChanged && (
+                <div className="mt-0.5 text-[10px] opacity-70">
+                  Project: <span className="line-through opacity-60">{doc.project}</span> {suggestion.project}
+                </div>
+              )}
+              {suggestion.tags.length > 0 && (
+                <div className="mt-1.5 flex flex-wrap gap-1">
+                  {suggestion.tags.map(tag => {
+                    const selected = !excluded.includes(tag);
+                    return (
+                      <button
+                        key={tag}
+                        onClick={() => toggleTag(suggestion.id, tag)}
+                        className={`px-1.5 py-0.5 rounded text-[10px] border ${selected ? 'border-blue-500/40 bg-blue-500/15 text-blue-500' : `${darkMode ? 'border-slate-700' : 'border-slate-200'} opacity-50 line-through`}`}
+                        title={selected ? 'Leave this tag out' : 'Add this tag'}
+                      >
+                        #{tag}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+              <div className="mt-2 flex items-center gap-2">
+                <span className="text-[10px] opacity-40 truncate flex-1">{suggestion.suggestedBy}</span>
+                <button onClick={() => onReject(suggestion)} className={`px-2 py-1 rounded-lg text-xs ${darkMode ? 'hover:bg-slate-800' : 'hover:bg-slate-100'}`}>
+                  Reject
+                </button>
+                <button
+                  onClick={() => onAccept(suggestion, selectedTags(suggestion))}
+                  className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium bg-blue-500 text-white hover:bg-blue-600"
+                >
+                  <Check size={12} /> Accept
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        {pendingCount > 0 && (
+          <div className="flex items-center gap-2 px-3 py-2 text-xs opacity-60">
+            <Loader2 size={14} className="animate-spin" /> Categorizing {pendingCount} upload{pendingCount === 1 ? '' : 's'}...
+          </div>
+        )}
+        {visible.length === 0 && pendingCount === 0 && (
+          <div className="px-4 py-6 text-xs text-center opacity-50">
+            No suggestions to review. Turn on auto-categorization in Settings and new uploads will be tagged and filed here for your approval.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TagReviewPanel;
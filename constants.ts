@@ -65,9 +65,10 @@ export const INITIAL_GRAPH_DATA: GraphData = {
   links: []
 };
 
-export const THEMES: Record<AppTheme, { bg: string, text: string, accent: string, node: string }> = {
-  [AppTheme.DEFAULT]: { bg: 'bg-slate-50', text: 'text-slate-900', accent: 'bg-blue-600', node: '#3b82f6' },
-  [AppTheme.CYBER]: { bg: 'bg-slate-900', text: 'text-cyan-50', accent: 'bg-cyan-500', node: '#06b6d4' },
-  [AppTheme.NATURE]: { bg: 'bg-stone-50', text: 'text-stone-800', accent: 'bg-emerald-600', node: '#10b981' },
-  [AppTheme.MINIMAL]: { bg: 'bg-white', text: 'text-black', accent: 'bg-black', node: '#171717' },
+// `canvas` is the hex equivalent of `bg`, used where Tailwind classes do not apply (e.g. image export)
+export const THEMES: Record<AppTheme, { bg: string, text: string, accent: string, node: string, canvas: string }> = {
+  [AppTheme.DEFAULT]: { bg: 'bg-slate-50', text: 'text-slate-900', accent: 'bg-blue-600', node: '#3b82f6', canvas: '#f8fafc' },
+  [AppTheme.CYBER]: { bg: 'bg-slate-900', text: 'text-cyan-50', accent: 'bg-cyan-500', node: '#06b6d4', canvas: '#0f172a' },
+  [AppTheme.NATURE]: { bg: 'bg-stone-50', text: 'text-stone-800', accent: 'bg-emerald-600', node: '#10b981', canvas: '#fafaf9' },
+  [AppTheme.MINIMAL]: { bg: 'bg-white', text: 'text-black', accent: 'bg-black', node: '#171717', canvas: '#ffffff' },
 };
@@ -0,0 +1,448 @@
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { AIProviderSettings, Document, NodeType } from '../types';
+import { tokenize } from './searchIndex';
+import { ContextPassage, SearchContext } from './contextBuilder';
+
+export const DEFAULT_AI_SETTINGS: AIProviderSettings = {
+  provider: 'gemini',
+  model: 'gemini-3-flash-preview',
+  apiKey: ''
+};
+
+// Provider output as the model returned it; repairGeneratedGraph checks it before it reaches the map
+export interface GeneratedNode {
+  id: string;
+  name: string;
+  type: string;
+  description?: string;
+  sources?: string[]; // Ids of the context passages the description is based on
+}
+
+export interface GeneratedGraph {
+  nodes: GeneratedNode[];
+  links: { source: string, target: string }[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// An earlier question of the same thread, for follow-up questions
+export interface PriorTurn {
+  question: string;
+  answer: string;
+}
+
+// Names already used in the map; suggestions reuse them where they fit so documents land in existing groups
+export interface CategoryHints {
+  projects: string[];
+  categories: string[];
+}
+
+export interface Categorization {
+  tags: string[]; // Only tags the document does not have yet
+  project: string;
+  category: string; // A short topical group, e.g. "Invoices" or "Meeting Notes"
+}
+
+export interface AICallOptions {
+  signal?: AbortSignal;
+  onUsage?: (usage: TokenUsage) => void; // Called once per model response that reports usage
+}
+
+/**
+ * The model calls the app makes. Implementations throw on failure; callers decide on the fallback.
+ */
+export interface AIProvider {
+  id: string; // Changes whenever answers may differ (e.g. another model); cached answers are keyed by it
+  label: string;
+  // Nodes and links for a mind map of the documents in the context; the client adds and links the root itself.
+  // Nodes may list the ids of the passages they are based on in `sources`.
+  generateGraph: (query: string, context: SearchContext, options?: AICallOptions) => Promise<GeneratedGraph>;
+  summarize: (doc: Document, options?: AICallOptions) => Promise<string>;
+  // A written answer drawn from the context, citing passages inline as [P1], [P2], ...
+  answerQuestion: (question: string, context: SearchContext, priorTurns: PriorTurn[], options?: AICallOptions) => Promise<string>;
+  // Tags, a project and a topical category for a newly uploaded document
+  categorize: (doc: Document, hints: CategoryHints, options?: AICallOptions) => Promise<Categorization>;
+}
+
+// Uploaded files can be large; the summary only needs the opening section
+const SUMMARY_CONTENT_LIMIT = 12000;
+const MAX_SUGGESTED_TAGS = 5;
+const MAX_CATEGORY_LENGTH = 40;
+const DEFAULT_CATEGORY = 'General';
+
+/**
+ * Tags are compared case-insensitively; suggestions already on the document are dropped.
+ */
+const newTagsFor = (doc: Document, tags: string[]): string[] => {
+  const existing = new Set((doc.tags || []).map(tag => tag.toLowerCase()));
+  const seen = new Set<string>();
+  return tags
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || existing.has(key) || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SUGGESTED_TAGS);
+};
+
+/**
+ * Trims names and falls back to the document's project; a name matching a hint case-insensitively takes
+ * the hint's spelling so accepting it does not create a near-duplicate group.
+ */
+const cleanCategorization = (doc: Document, hints: CategoryHints, raw: { tags?: unknown, project?: unknown, category?: unknown }): Categorization => {
+  const name = (value: unknown, known: string[], fallback: string) => {
+    const text = typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, MAX_CATEGORY_LENGTH) : '';
+    if (!text) return fallback;
+    return known.find(k => k.toLowerCase() === text.toLowerCase()) || text;
+  };
+  return {
+    tags: newTagsFor(doc, Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : []),
+    project: name(raw.project, hints.projects, doc.project),
+    category: name(raw.category, hints.categories, DEFAULT_CATEGORY)
+  };
+};
+
+// --- GEMINI PROVIDER ---
+
+const GRAPH_SYSTEM_INSTRUCTION = `
+    You are a knowledge graph generator for a documentation search engine.
+    Your goal is to accept a User Query and a list of Documents (ordered by algorithmic relevance).
+    You must return a JSON object representing a node-link diagram (Mind Map).
+
+    The structure must be:
+    {
+      "nodes": [{ "id": "string", "name": "string", "type": "PROJECT" | "DOCUMENT" | "CATEGORY", "description": "string" }],
+      "links": [{ "source": "string", "target": "string" }]
+    }
+
+    Rules:
+    1. Create a central node representing the Query concept if it helps grouping, otherwise link directly to the "ROOT" node provided by the client (do not output root in json, client handles it).
+    2. Review the provided documents. They are already ranked by relevance. Include high-scoring documents.
+    3. Group documents by Project or logical Categories derived from the query.
+    4. Provide a brief 1-sentence description for why the document matched.
+    5. 'source' and 'target' in links must match node 'id's.
+    6. The documents are given as numbered passages ([P1], [P2], ...). Base descriptions only on these passages and list
+       the ids of the passages each node's description comes from in its "sources" (e.g. ["P3", "P7"]).
+  `;
+
+const ANSWER_SYSTEM_INSTRUCTION = `
+    You answer questions about the user's documents using only the numbered passages provided.
+    Rules:
+    1. After every sentence that uses a passage, cite it by its label, e.g. [P3]. Cite several as [P3][P5].
+    2. Never cite a label that was not provided, and never state facts the passages do not support.
+    3. If the passages do not answer the question, say so in one sentence.
+    4. Answer in plain prose of at most six sentences.
+  `;
+
+const CATEGORIZE_SYSTEM_INSTRUCTION = `
+    You file newly uploaded documents. For the document given, return:
+    1. "tags": up to ${MAX_SUGGESTED_TAGS} short lowercase tags that describe it and are not among its existing tags.
+    2. "project": the project it belongs to. Prefer one of the existing projects; name a new one only if none fits.
+    3. "category": a short topical category of one to three words in Title Case (e.g. "Invoices", "Meeting Notes").
+       Prefer one of the existing categories; never use a file type such as "Documents" or "PDFs".
+  `;
+
+const CATEGORIZE_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    project: { type: Type.STRING },
+    category: { type: Type.STRING }
+  },
+  required: ['tags', 'project', 'category']
+};
+
+const GRAPH_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    nodes: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING },
+          name: { type: Type.STRING },
+          type: { type: Type.STRING, enum: ['PROJECT', 'DOCUMENT', 'CATEGORY'] },
+          description: { type: Type.STRING },
+          sources: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+        required: ['id', 'name', 'type']
+      }
+    },
+    links: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          source: { type: Type.STRING },
+          target: { type: Type.STRING },
+        }
+      }
+    }
+  }
+};
+
+const createGeminiProvider = (settings: AIProviderSettings): AIProvider => {
+  const model = settings.model.trim() || DEFAULT_AI_SETTINGS.model;
+
+  // Created on first use so that switching providers never needs a key
+  let client: GoogleGenAI | null = null;
+  const getClient = () => {
+    const apiKey = settings.apiKey.trim() || process.env.API_KEY || '';
+    if (!apiKey) throw new Error("No Gemini API key configured");
+    if (!client) client = new GoogleGenAI({ apiKey });
+    return client;
+  };
+
+  const reportUsage = (response: GenerateContentResponse, options?: AICallOptions) => {
+    const usage = response.usageMetadata;
+    if (!usage || !options?.onUsage) return;
+    options.onUsage({
+      promptTokens: usage.promptTokenCount || 0,
+      outputTokens: usage.candidatesTokenCount || 0,
+      totalTokens: usage.totalTokenCount || 0
+    });
+  };
+
+  return {
+    id: `gemini:${model}`,
+    label: `Gemini (${model})`,
+
+    generateGraph: async (query, context, options) => {
+      const docsContext = context.documents.map(item => {
+        const passages = context.passages
+          .filter(p => p.docId === item.doc.id)
+          .map(p => `[${p.id}] (characters ${p.start}-${p.end})\n${p.text || '(no text extracted)'}`)
+          .join('\n\n');
+        return `ID: ${item.doc.id}
+Title: ${item.doc.title}
+Relevance Score: ${item.score.toFixed(1)}
+Project: ${item.doc.project}
+Date: ${item.doc.date}
+Tags: ${item.doc.tags ? item.doc.tags.join(', ') : ''}
+Passages:
+${passages}`;
+      }).join('\n---\n');
+
+      const prompt = `
+    User Query: "${query}"
+
+    Available Documents (Ranked by Relevance, with their most relevant passages):
+    ${docsContext}
+
+    Generate the JSON graph structure. Connect relevant documents to the query concept or grouped projects.
+  `;
+
+      const response = await getClient().models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          systemInstruction: GRAPH_SYSTEM_INSTRUCTION,
+          responseMimeType: "application/json",
+          responseSchema: GRAPH_RESPONSE_SCHEMA,
+          abortSignal: options?.signal
+        }
+      });
+      reportUsage(response, options);
+
+      const jsonText = response.text;
+      if (!jsonText) throw new Error("Empty response from AI");
+      const parsed = JSON.parse(jsonText);
+      return { nodes: parsed.nodes || [], links: parsed.links || [] };
+    },
+
+    summarize: async (doc, options) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: `Summarize this document in 2 sentences. Context: Project ${doc.project}, Tags: ${doc.tags?.join(', ')}. Content: ${doc.content.substring(0, SUMMARY_CONTENT_LIMIT)}`,
+        config: { abortSignal: options?.signal }
+      });
+      reportUsage(response, options);
+      return response.text || "No summary available.";
+    },
+
+    answerQuestion: async (question, context, priorTurns, options) => {
+      const titles = new Map(context.documents.map(({ doc }) => [doc.id, doc.title]));
+      const passages = context.passages
+        .map(p => `[${p.id}] from "${titles.get(p.docId)}"\n${p.text || '(no text extracted)'}`)
+        .join('\n\n');
+      const conversation = priorTurns.map(turn => `Q: ${turn.question}\nA: ${turn.answer}`).join('\n\n');
+
+      const response = await getClient().models.generateContent({
+        model,
+        contents: `${conversation ? `Earlier in this conversation:\n${conversation}\n\n` : ''}Passages:\n${passages}\n\nQuestion: ${question}`,
+        config: {
+          systemInstruction: ANSWER_SYSTEM_INSTRUCTION,
+          abortSignal: options?.signal
+        }
+      });
+      reportUsage(response, options);
+      if (!response.text) throw new Error("Empty response from AI");
+      return response.text.trim();
+    },
+
+    categorize: async (doc, hints, options) => {
+      const response = await getClient().models.generateContent({
+        model,
+        contents: `Title: ${doc.title}\nExisting tags: ${(doc.tags || []).join(', ') || 'none'}\nExisting projects: ${hints.projects.join(', ') || 'none'}\nExisting categories: ${hints.categories.join(', ') || 'none'}\nContent: ${doc.content.substring(0, SUMMARY_CONTENT_LIMIT)}`,
+        config: {
+          systemInstruction: CATEGORIZE_SYSTEM_INSTRUCTION,
+          responseMimeType: "application/json",
+          responseSchema: CATEGORIZE_RESPONSE_SCHEMA,
+          abortSignal: options?.signal
+        }
+      });
+      reportUsage(response, options);
+      if (!response.text) throw new Error("Empty response from AI");
+      return cleanCategorization(doc, hints, JSON.parse(response.text));
+    }
+  };
+};
+
+// --- MOCK PROVIDER ---
+// Answers from the documents alone: the same input always gives the same output and nothing leaves the browser.
+
+const MOCK_GRAPH_DOCUMENTS = 8;
+const MOCK_SUMMARY_SENTENCES = 2;
+
+// Ends only at punctuation followed by a space, so "OAuth2.0" or "v1.2" stay whole
+const sentencesOf = (text: string): string[] =>
+  text.replace(/\s+/g, ' ').split(/(?<=[.!?]) /).map(s => s.trim()).filter(Boolean);
+
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'general';
+
+const MAX_EXTRACTED_SENTENCES = 3;
+
+/**
+ * Significant words of the text, most frequent first; ties go alphabetically so the order is stable.
+ */
+const frequentWords = (text: string): string[] => {
+  const counts = new Map<string, number>();
+  text.toLowerCase().split(/[^a-z0-9-]+/).forEach(word => {
+    if (word.length < 4 || /^\d/.test(word) || tokenize(word).length === 0) return;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([word]) => word);
+};
+
+/**
+ * Answers by quoting: the sentences of the best passages that share the most terms with the question, each
+ * cited. Used by the mock provider and when a real provider fails.
+ */
+export const extractiveAnswer = (question: string, context: SearchContext): string => {
+  const questionTerms = new Set(tokenize(question));
+  const candidates = [...context.passages]
+    .sort((a, b) => b.score - a.score)
+    .flatMap((passage, rank) => sentencesOf(passage.text).map(sentence => ({
+      sentence,
+      passage,
+      overlap: new Set(tokenize(sentence).filter(term => questionTerms.has(term))).size,
+      rank
+    })));
+
+  const seen = new Set<string>();
+  const picked = candidates
+    .filter(c => c.overlap > 0)
+    .sort((a, b) => b.overlap - a.overlap || a.rank - b.rank)
+    .filter(c => {
+      if (seen.has(c.sentence)) return false;
+      seen.add(c.sentence);
+      return true;
+    })
+    .slice(0, MAX_EXTRACTED_SENTENCES);
+
+  if (picked.length === 0) return '';
+  // Back in reading order so quotes from one passage follow each other
+  return picked
+    .sort((a, b) => a.rank - b.rank || a.passage.text.indexOf(a.sentence) - b.passage.text.indexOf(b.sentence))
+    .map(c => `${c.sentence.replace(/[.!?]*$/, '.')} [${c.passage.id}]`)
+    .join(' ');
+};
+
+/**
+ * The first sentence sharing a term with the query, or the opening sentence.
+ */
+const matchingSentence = (text: string, query: string, fallback: string): string => {
+  const queryTerms = new Set(tokenize(query));
+  const sentences = sentencesOf(text);
+  const match = sentences.find(sentence => tokenize(sentence).some(term => queryTerms.has(term)));
+  const sentence = match || sentences[0] || fallback;
+  return sentence.length > 160 ? `${sentence.slice(0, 157)}...` : sentence;
+};
+
+export const mockAIProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+
+  // One project node per project, documents below it in rank order, each described from its best passage
+  generateGraph: async (query, context) => {
+    const nodes: GeneratedNode[] = [];
+    const links: GeneratedGraph['links'] = [];
+    const projectIds = new Map<string, string>();
+    const bestPassage = new Map<string, ContextPassage>();
+    context.passages.forEach(p => {
+      if (!bestPassage.has(p.docId) || p.score > bestPassage.get(p.docId)!.score) bestPassage.set(p.docId, p);
+    });
+
+    context.documents.slice(0, MOCK_GRAPH_DOCUMENTS).forEach(({ doc }) => {
+      const project = doc.project || 'General';
+      let projectId = projectIds.get(project);
+      if (!projectId) {
+        projectId = `mock-project-${slugify(project)}`;
+        projectIds.set(project, projectId);
+        nodes.push({ id: projectId, name: project, type: NodeType.PROJECT, description: `Results for "${query}" in ${project}` });
+        links.push({ source: 'root', target: projectId });
+      }
+      const passage = bestPassage.get(doc.id);
+      nodes.push({
+        id: doc.id,
+        name: doc.title,
+        type: NodeType.DOCUMENT,
+        description: matchingSentence(passage?.text || '', query, doc.title),
+        sources: passage ? [passage.id] : undefined
+      });
+      links.push({ source: projectId, target: doc.id });
+    });
+
+    return { nodes, links };
+  },
+
+  summarize: async (doc) => {
+    const summary = sentencesOf(doc.content.substring(0, SUMMARY_CONTENT_LIMIT)).slice(0, MOCK_SUMMARY_SENTENCES).join(' ');
+    return summary || "No summary available.";
+  },
+
+  answerQuestion: async (question, context) =>
+    extractiveAnswer(question, context) || "The documents in this map do not seem to answer that question.",
+
+  // Existing names the text mentions most win; otherwise the most frequent word becomes the category
+  categorize: async (doc, hints) => {
+    const text = `${doc.title} ${doc.content}`.toLowerCase();
+    const mostMentioned = (names: string[]) => names
+      .map(name => ({ name, mentions: text.split(name.toLowerCase()).length - 1 }))
+      .filter(({ name, mentions }) => name.trim() && mentions > 0)
+      .sort((a, b) => b.mentions - a.mentions || a.name.localeCompare(b.name))[0]?.name;
+
+    const words = frequentWords(text);
+    const topWord = words[0];
+    return cleanCategorization(doc, hints, {
+      tags: words,
+      project: mostMentioned(hints.projects),
+      category: mostMentioned(hints.categories) || (topWord && topWord[0].toUpperCase() + topWord.slice(1))
+    });
+  }
+};
+
+/**
+ * The provider for the current settings.
+ */
+export const createAIProvider = (settings: AIProviderSettings): AIProvider =>
+  settings.provider === 'mock' ? mockAIProvider : createGeminiProvider(settings);
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_DOCUMENTS } from '../constants';
+import { AICallOptions, AIProvider, mockAIProvider } from './aiProvider';
+import { AICallRecord, isAbortError, withRequestLayer } from './aiRequestLayer';
+
+// The response cache lives in IndexedDB; an in-memory map stands in for it
+const cache = new Map<string, unknown>();
+vi.mock('./storageService', () => ({
+  loadCachedResponse: async (key: string) => (cache.has(key) ? { value: cache.get(key), storedAt: '' } : null),
+  saveCachedResponse: async (key: string, value: unknown) => { cache.set(key, value); }
+}));
+
+const doc = MOCK_DOCUMENTS[0];
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+/**
+ * A provider whose summarize calls fail with the given errors in turn, then succeed.
+ */
+const flakyProvider = (...errors: Error[]) => {
+  const summarize = vi.fn(async (_doc: unknown, options?: AICallOptions) => {
+    const error = errors.shift();
+    if (error) throw error;
+    options?.onUsage?.({ promptTokens: 10, outputTokens: 5, totalTokens: 15 });
+    return 'summary';
+  });
+  return { provider: { ...mockAIProvider, id: 'flaky', label: 'Flaky', summarize } as AIProvider, summarize };
+};
+
+const layered = (provider: AIProvider, timeoutsMs?: { summary: number }) => {
+  const records: AICallRecord[] = [];
+  return { layer: withRequestLayer(provider, { onRecord: record => records.push(record), timeoutsMs }), records };
+};
+
+/**
+ * Lets the first attempt start (the cache key is hashed off the timer queue), then runs through the retry delays.
+ */
+const waitForBackoff = async (call: ReturnType<typeof vi.fn>) => {
+  await vi.waitFor(() => expect(call).toHaveBeenCalled());
+  await vi.advanceTimersByTimeAsync(5000);
+};
+
+beforeEach(() => cache.clear());
+afterEach(() => vi.useRealTimers());
+
+describe('withRequestLayer', () => {
+  it('answers a repeated call from the cache', async () => {
+    const { provider, summarize } = flakyProvider();
+    const { layer, records } = layered(provider);
+
+    expect(await layer.summarize(doc)).toBe('summary');
+    expect(await layer.summarize(doc)).toBe('summary');
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(records.map(r => [r.outcome, r.attempts])).toEqual([['miss', 1], ['hit', 0]]);
+    expect(records[0].usage).toEqual({ promptTokens: 10, outputTokens: 5, totalTokens: 15 });
+  });
+
+  it('keys the cache by provider and input', async () => {
+    const { provider, summarize } = flakyProvider();
+    const { layer } = layered(provider);
+    await layer.summarize(doc);
+    await layer.summarize({ ...doc, content: 'Edited' });
+    await withRequestLayer({ ...provider, id: 'other-model' }, { onRecord: () => {} }).summarize(doc);
+    expect(summarize).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries rate limits, server errors and network failures with backoff', async () => {
+    vi.useFakeTimers();
+    const { provider, summarize } = flakyProvider(httpError(429), new TypeError('Failed to fetch'));
+    const { layer, records } = layered(provider);
+
+    const result = layer.summarize(doc);
+    await waitForBackoff(summarize);
+    expect(await result).toBe('summary');
+    expect(summarize).toHaveBeenCalledTimes(3);
+    expect(records.map(r => [r.outcome, r.attempts])).toEqual([['miss', 3]]);
+  });
+
+  it('gives up after three attempts', async () => {
+    vi.useFakeTimers();
+    const { provider, summarize } = flakyProvider(httpError(503), httpError(503), httpError(503), httpError(503));
+    const { layer, records } = layered(provider);
+
+    const result = layer.summarize(doc).catch(error => error);
+    await waitForBackoff(summarize);
+    expect((await result).message).toBe('HTTP 503');
+    expect(summarize).toHaveBeenCalledTimes(3);
+    expect(records.map(r => [r.outcome, r.attempts, r.error])).toEqual([['error', 3, 'HTTP 503']]);
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const { provider, summarize } = flakyProvider(httpError(400));
+    const { layer, records } = layered(provider);
+
+    await expect(layer.summarize(doc)).rejects.toThrow('HTTP 400');
+    expect(summarize).toHaveBeenCalledTimes(1);
+    expect(records[0].outcome).toBe('error');
+  });
+
+  it('times out a call that takes too long, even if the provider ignores the signal', async () => {
+    const hanging: AIProvider = { ...mockAIProvider, id: 'hanging', summarize: () => new Promise(() => {}) };
+    const { layer, records } = layered(hanging, { summary: 20 });
+
+    const error = await layer.summarize(doc).catch(e => e);
+    expect(error.name).toBe('TimeoutError');
+    expect(records.map(r => r.outcome)).toEqual(['timeout']);
+  });
+
+  it('stops when the caller cancels and passes the cancellation to the provider', async () => {
+    let providerSignal: AbortSignal | undefined;
+    const hanging: AIProvider = {
+      ...mockAIProvider,
+      id: 'hanging',
+      summarize: (_doc, options) => { providerSignal = options?.signal; return new Promise(() => {}); }
+    };
+    const { layer, records } = layered(hanging);
+    const controller = new AbortController();
+
+    const result = layer.summarize(doc, { signal: controller.signal }).catch(e => e);
+    await vi.waitFor(() => expect(providerSignal).toBeDefined());
+    controller.abort();
+
+    expect(isAbortError(await result)).toBe(true);
+    expect(providerSignal!.aborted).toBe(true);
+    expect(records.map(r => r.outcome)).toEqual(['aborted']);
+  });
+
+  it('does not call the provider when already cancelled', async () => {
+    const { provider, summarize } = flakyProvider();
+    const { layer, records } = layered(provider);
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(isAbortError(await layer.summarize(doc, { signal: controller.signal }).catch(e => e))).toBe(true);
+    expect(summarize).not.toHaveBeenCalled();
+    expect(records.map(r => r.outcome)).toEqual(['aborted']);
+  });
+});
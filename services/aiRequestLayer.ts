@@ -0,0 +1,177 @@
+import { Document } from '../types';
+import { AICallOptions, AIProvider, CategoryHints, PriorTurn, TokenUsage } from './aiProvider';
+import { SearchContext } from './contextBuilder';
+import { loadCachedResponse, saveCachedResponse } from './storageService';
+
+export type AICallKind = 'graph' | 'summary' | 'answer' | 'categorize';
+export type AICallOutcome = 'hit' | 'miss' | 'error' | 'timeout' | 'aborted';
+
+export interface AICallRecord {
+  id: string;
+  kind: AICallKind;
+  provider: string; // Provider label at the time of the call
+  startedAt: string;
+  durationMs: number;
+  outcome: AICallOutcome; // hit: answered from the cache; miss: answered by the provider
+  attempts: number; // 0 for cache hits
+  usage?: TokenUsage; // Summed over all attempts; only providers that report usage fill this in
+  error?: string;
+}
+
+export interface AIRequestLayerOptions {
+  onRecord: (record: AICallRecord) => void;
+  timeoutsMs?: Partial<Record<AICallKind, number>>;
+}
+
+// Bump when prompts change so old answers are not served for new prompts
+const CACHE_VERSION = 2;
+// The whole call including retries must finish within this
+const DEFAULT_TIMEOUTS_MS: Record<AICallKind, number> = { graph: 45000, summary: 20000, answer: 45000, categorize: 20000 };
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 800;
+
+/**
+ * True for errors caused by cancelling a request, as opposed to timeouts and failures.
+ */
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+const createTimeoutError = (kind: AICallKind, timeoutMs: number) => {
+  const error = new Error(`AI ${kind} request timed out after ${Math.round(timeoutMs / 1000)}s`);
+  error.name = 'TimeoutError';
+  return error;
+};
+
+const abortReason = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new DOMException('The AI request was cancelled', 'AbortError');
+
+/**
+ * Rate limits, server errors and dropped connections are worth another try; bad requests and bad keys are not.
+ */
+const isTransientError = (error: unknown): boolean => {
+  if (!(error instanceof Error) || error.name === 'AbortError' || error.name === 'TimeoutError') return false;
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  // fetch reports network failures as TypeErrors
+  return error instanceof TypeError;
+};
+
+/**
+ * Settles like `promise`, or rejects as soon as `signal` aborts, even if the provider ignores the signal.
+ */
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> =>
+  new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(abortReason(signal));
+    const onAbort = () => reject(abortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+const sleep = (ms: number, signal: AbortSignal) => raceAbort(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+
+/**
+ * SHA-256 of the text, or null where Web Crypto is unavailable (plain http); calls are then not cached.
+ */
+const hashText = async (text: string): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// What a provider may put into a prompt about a document besides its content
+const documentMeta = (doc: Document) => ({ id: doc.id, title: doc.title, project: doc.project, date: doc.date, tags: doc.tags || [] });
+
+const contextInput = (context: SearchContext) => ({
+  documents: context.documents.map(({ doc, score }) => ({ ...documentMeta(doc), score })),
+  passages: context.passages
+});
+
+const addUsage = (total: TokenUsage | undefined, usage: TokenUsage): TokenUsage => ({
+  promptTokens: (total?.promptTokens || 0) + usage.promptTokens,
+  outputTokens: (total?.outputTokens || 0) + usage.outputTokens,
+  totalTokens: (total?.totalTokens || 0) + usage.totalTokens
+});
+
+/**
+ * Wraps a provider with a persistent response cache, retries with exponential backoff on transient errors,
+ * and a timeout per call. Callers cancel through `options.signal`; every call is reported to `onRecord`.
+ */
+export const withRequestLayer = (provider: AIProvider, layerOptions: AIRequestLayerOptions): AIProvider => {
+  const timeouts = { ...DEFAULT_TIMEOUTS_MS, ...layerOptions.timeoutsMs };
+
+  const run = async <T>(kind: AICallKind, input: unknown, call: (options: AICallOptions) => Promise<T>, callOptions?: AICallOptions): Promise<T> => {
+    const startedAt = Date.now();
+    let attempts = 0;
+    let usage: TokenUsage | undefined;
+    const record = (outcome: AICallOutcome, error?: unknown) => layerOptions.onRecord({
+      id: `call-${startedAt}-${Math.floor(Math.random() * 1000)}`,
+      kind,
+      provider: provider.label,
+      startedAt: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      outcome,
+      attempts,
+      usage,
+      error: error instanceof Error ? error.message : undefined
+    });
+
+    // The timeout and the caller's cancellation reach the provider through one signal
+    const controller = new AbortController();
+    const cancel = () => controller.abort(abortReason(callOptions!.signal!));
+    callOptions?.signal?.addEventListener('abort', cancel, { once: true });
+    if (callOptions?.signal?.aborted) cancel();
+    const timer = setTimeout(() => controller.abort(createTimeoutError(kind, timeouts[kind])), timeouts[kind]);
+
+    try {
+      const cacheKey = await hashText(JSON.stringify({ version: CACHE_VERSION, provider: provider.id, kind, input }));
+      if (cacheKey) {
+        const cached = await loadCachedResponse<T>(cacheKey).catch(() => null);
+        if (controller.signal.aborted) throw abortReason(controller.signal);
+        if (cached) {
+          record('hit');
+          return cached.value;
+        }
+      }
+
+      for (;;) {
+        attempts++;
+        try {
+          const value = await raceAbort(call({
+            signal: controller.signal,
+            onUsage: callUsage => {
+              usage = addUsage(usage, callUsage);
+              callOptions?.onUsage?.(callUsage);
+            }
+          }), controller.signal);
+          if (cacheKey) saveCachedResponse(cacheKey, value).catch(err => console.error("AI response cache write failed", err));
+          record('miss');
+          return value;
+        } catch (error) {
+          if (attempts >= MAX_ATTEMPTS || !isTransientError(error)) throw error;
+          // 0.8s, 1.6s, ... plus jitter so parallel calls do not retry in lockstep
+          await sleep(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1) + Math.random() * 250, controller.signal);
+        }
+      }
+    } catch (error) {
+      const reason = controller.signal.aborted ? abortReason(controller.signal) : error;
+      record(isAbortError(reason) ? 'aborted' : (reason as Error)?.name === 'TimeoutError' ? 'timeout' : 'error', reason);
+      throw reason;
+    } finally {
+      clearTimeout(timer);
+      callOptions?.signal?.removeEventListener('abort', cancel);
+    }
+  };
+
+  return {
+    id: provider.id,
+    label: provider.label,
+    // The passages stand in for the content; only they reach the prompt
+    generateGraph: (query: string, context: SearchContext, options?: AICallOptions) =>
+      run('graph', { query, ...contextInput(context) }, o => provider.generateGraph(query, context, o), options),
+    summarize: (doc: Document, options?: AICallOptions) =>
+      run('summary', { ...documentMeta(doc), content: doc.content }, o => provider.summarize(doc, o), options),
+    answerQuestion: (question: string, context: SearchContext, priorTurns: PriorTurn[], options?: AICallOptions) =>
+      run('answer', { question, priorTurns, ...contextInput(context) }, o => provider.answerQuestion(question, context, priorTurns, o), options),
+    categorize: (doc: Document, hints: CategoryHints, options?: AICallOptions) =>
+      run('categorize', { ...documentMeta(doc), content: doc.content, hints }, o => provider.categorize(doc, hints, o), options)
+  };
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { LayoutMode, NodeType } from '../types';
+import { BUNDLE_FORMAT, CURRENT_BUNDLE_VERSION, MapBundle, mergeBundleIntoMap, parseMapBundle, validateMapBundle } from './bundleService';
+
+const bundle = (overrides: Partial<MapBundle> = {}): MapBundle => ({
+  format: BUNDLE_FORMAT,
+  version: CURRENT_BUNDLE_VERSION,
+  exportedAt: '2026-01-01T00:00:00.000Z',
+  map: { name: 'Research', layoutMode: LayoutMode.SPIDER, createdAt: '2026-01-01T00:00:00.000Z' },
+  settings: {} as MapBundle['settings'],
+  graph: {
+    nodes: [
+      { id: 'root', name: 'Root', type: NodeType.ROOT, val: 20 },
+      { id: 'p1', name: 'Project', type: NodeType.PROJECT, val: 15, x: 10, y: 20 }
+    ],
+    links: [{ source: 'root', target: 'p1', value: 2 }]
+  },
+  documents: [{ id: 'd1', title: 'Notes', content: '', project: 'Project', date: '2026-01-01', type: 'txt', tags: [], parentId: 'p1' }],
+  ...overrides
+});
+
+describe('parseMapBundle', () => {
+  it('accepts a current bundle and fills in default settings', () => {
+    const parsed = parseMapBundle(JSON.stringify(bundle()));
+    expect(parsed.map.name).toBe('Research');
+    expect(parsed.settings.theme).toBeDefined();
+  });
+
+  it('migrates a bare graph saved before bundles existed', () => {
+    const parsed = parseMapBundle(JSON.stringify({
+      nodes: [{ id: 'root', name: 'Root', type: 'ROOT', val: 20 }],
+      links: []
+    }));
+    expect(parsed.version).toBe(CURRENT_BUNDLE_VERSION);
+    expect(parsed.map.name).toBe('Imported Map');
+    expect(parsed.documents).toEqual([]);
+  });
+
+  it('rejects invalid JSON and bundles from a newer version', () => {
+    expect(() => parseMapBundle('{')).toThrow('File is not valid JSON.');
+    expect(() => parseMapBundle(JSON.stringify(bundle({ version: CURRENT_BUNDLE_VERSION + 1 })))).toThrow('newer version');
+  });
+
+  it.each(['null', '[]', '42'])('rejects %s with a readable message', text => {
+    expect(() => parseMapBundle(text)).toThrow('Bundle is not a JSON object.');
+  });
+});
+
+describe('validateMapBundle', () => {
+  it('lists every problem with its path', () => {
+    const broken = bundle();
+    broken.graph.nodes.push({ id: 'p1', name: 'Copy', type: 'FOLDER' as NodeType, val: 1 });
+    broken.graph.links.push({ source: 'p1', target: 'missing', value: 1 });
+    const errors: string[] = [];
+    expect(validateMapBundle(broken, errors)).toBe(false);
+    expect(errors).toEqual([
+      'graph.nodes[2].id "p1" is duplicated',
+      'graph.nodes[2].type is not a known node type',
+      'graph.links[1] references a missing node'
+    ]);
+  });
+
+  it('accepts a valid bundle', () => {
+    expect(validateMapBundle(bundle())).toBe(true);
+  });
+});
+
+describe('mergeBundleIntoMap', () => {
+  it('folds the root into the current root, renames taken ids and drops positions', () => {
+    const current = {
+      graph: { nodes: [{ id: 'root', name: 'Mine', type: NodeType.ROOT, val: 20 }, { id: 'p1', name: 'Existing', type: NodeType.PROJECT, val: 15 }], links: [] },
+      documents: []
+    };
+    const merged = mergeBundleIntoMap(current, bundle());
+    const renamed = merged.idMap.get('p1')!;
+
+    expect(renamed).not.toBe('p1');
+    expect(merged.graph.nodes.filter(n => n.id === 'root')).toHaveLength(1);
+    expect(merged.graph.nodes.find(n => n.id === renamed)).not.toHaveProperty('x');
+    expect(merged.graph.links).toContainEqual({ source: 'root', target: renamed, value: 2 });
+    expect(merged.documents[0]).toMatchObject({ id: 'd1', parentId: renamed });
+  });
+});
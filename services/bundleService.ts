@@ -0,0 +1,331 @@
+import { Document, GraphData, LayoutMode, Link, Node, NodeType, WorkspaceSettings, AppTheme, LinkStyle } from '../types';
+import { serializeGraph } from './storageService';
+import { downloadTextFile, toFileSlug } from './downloadService';
+
+// Identifies our files so arbitrary JSON is rejected early
+export const BUNDLE_FORMAT = 'mindsearch-map';
+export const CURRENT_BUNDLE_VERSION = 1;
+
+export interface EmbeddedFile {
+  mimeType: string;
+  data: string; // base64 without the data: prefix
+}
+
+export interface MapBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  map: {
+    name: string;
+    layoutMode: LayoutMode;
+    createdAt: string;
+  };
+  settings: WorkspaceSettings;
+  graph: GraphData;
+  documents: Document[];
+  files?: Record<string, EmbeddedFile>; // Keyed by document id
+}
+
+export type ImportMode = 'replace' | 'merge';
+
+// Simulation-only fields that are never exported
+type NodePosition = Pick<Node, 'x' | 'y' | 'fx' | 'fy'>;
+
+const DOCUMENT_TYPES: Document['type'][] = ['pdf', 'docx', 'txt', 'md', 'mp4', 'png', 'jpg', 'mp3', 'wav', 'xlsx', 'csv', 'json', 'link'];
+
+const DEFAULT_SETTINGS: WorkspaceSettings = {
+  theme: AppTheme.DEFAULT,
+  linkStyle: LinkStyle.ROOT,
+  graphicsQuality: 'high'
+};
+
+// --- BASE64 ---
+
+const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const base64ToBlob = (data: string, mimeType: string): Blob => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+};
+
+// --- EXPORT ---
+
+/**
+ * Builds a bundle from the live map. Positions come from the running simulation when available,
+ * since the graph state itself only holds positions that were imported or pinned.
+ */
+export const createMapBundle = async (
+  source: {
+    name: string;
+    layoutMode: LayoutMode;
+    createdAt: string;
+    settings: WorkspaceSettings;
+    graph: GraphData;
+    documents: Document[];
+    positions?: Map<string, NodePosition>;
+  },
+  options: { includeFiles: boolean }
+): Promise<MapBundle> => {
+  const graph = serializeGraph(source.graph);
+  graph.nodes = graph.nodes.map(node => {
+    const live = source.positions?.get(node.id);
+    if (!live) return node;
+    return { ...node, x: live.x, y: live.y, fx: live.fx ?? null, fy: live.fy ?? null };
+  });
+
+  const documents = source.documents.map(({ fileUrl, ...doc }) => ({ ...doc }));
+
+  let files: Record<string, EmbeddedFile> | undefined;
+  if (options.includeFiles) {
+    files = {};
+    for (const doc of source.documents) {
+      if (!doc.fileUrl) continue;
+      try {
+        const blob = await (await fetch(doc.fileUrl)).blob();
+        files[doc.id] = { mimeType: blob.type || 'application/octet-stream', data: await blobToBase64(blob) };
+      } catch (e) {
+        console.warn(`Could not embed file for ${doc.title}`, e);
+      }
+    }
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: CURRENT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    map: { name: source.name, layoutMode: source.layoutMode, createdAt: source.createdAt },
+    settings: source.settings,
+    graph,
+    documents,
+    ...(files ? { files } : {})
+  };
+};
+
+/**
+ * Saves a bundle as a pretty-printed .json download (stable formatting keeps git diffs readable).
+ */
+export const downloadMapBundle = (bundle: MapBundle) =>
+  downloadTextFile(JSON.stringify(bundle, null, 2), `${toFileSlug(bundle.map.name)}.mindmap.json`, 'application/json');
+
+// --- MIGRATION ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Upgrades a raw bundle one version at a time. Index n migrates version n to n + 1.
+ */
+const MIGRATIONS: ((raw: Record<string, unknown>) => Record<string, unknown>)[] = [
+  // v0: a bare GraphData ({ nodes, links }) or a { graph, documents } pair saved before bundles existed
+  (raw) => {
+    const graph = raw.graph ?? { nodes: raw.nodes, links: raw.links };
+    return {
+      format: BUNDLE_FORMAT,
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      map: {
+        name: typeof raw.name === 'string' && raw.name ? raw.name : 'Imported Map',
+        layoutMode: raw.layoutMode || LayoutMode.SPIDER,
+        createdAt: new Date().toISOString()
+      },
+      settings: { ...DEFAULT_SETTINGS, ...(isObject(raw.settings) ? raw.settings : {}) },
+      graph,
+      documents: raw.documents ?? []
+    };
+  }
+];
+
+const detectVersion = (raw: unknown): number =>
+  isObject(raw) && raw.format === BUNDLE_FORMAT && typeof raw.version === 'number' ? raw.version : 0;
+
+// --- VALIDATION ---
+
+const isOptional = (value: unknown, type: 'string' | 'number' | 'boolean') =>
+  value === undefined || typeof value === type;
+
+const isOptionalCoordinate = (value: unknown) => value === undefined || value === null || typeof value === 'number';
+
+/**
+ * Checks the bundle against the current schema. Human-readable problems are appended to `errors`.
+ */
+export const validateMapBundle = (raw: unknown, errors: string[] = []): raw is MapBundle => {
+  const initialCount = errors.length;
+  if (!isObject(raw)) {
+    errors.push('Bundle is not a JSON object');
+    return false;
+  }
+
+  if (raw.format !== BUNDLE_FORMAT) errors.push(`format must be "${BUNDLE_FORMAT}"`);
+  if (raw.version !== CURRENT_BUNDLE_VERSION) errors.push(`version must be ${CURRENT_BUNDLE_VERSION}`);
+
+  if (!isObject(raw.map) || typeof raw.map.name !== 'string') errors.push('map.name must be a string');
+  else if (!(Object.values(LayoutMode) as unknown[]).includes(raw.map.layoutMode)) errors.push('map.layoutMode is not a known layout');
+
+  if (!isObject(raw.settings)) errors.push('settings must be an object');
+
+  const nodeIds = new Set<string>();
+  if (!isObject(raw.graph) || !Array.isArray(raw.graph.nodes) || !Array.isArray(raw.graph.links)) {
+    errors.push('graph must contain nodes and links arrays');
+  } else {
+    raw.graph.nodes.forEach((n: unknown, i: number) => {
+      const path = `graph.nodes[${i}]`;
+      if (!isObject(n)) { errors.push(`${path} must be an object`); return; }
+      if (typeof n.id !== 'string' || !n.id) errors.push(`${path}.id must be a non-empty string`);
+      else if (nodeIds.has(n.id)) errors.push(`${path}.id "${n.id}" is duplicated`);
+      else nodeIds.add(n.id);
+      if (typeof n.name !== 'string') errors.push(`${path}.name must be a string`);
+      if (!(Object.values(NodeType) as unknown[]).includes(n.type)) errors.push(`${path}.type is not a known node type`);
+      if (typeof n.val !== 'number') errors.push(`${path}.val must be a number`);
+      if (!isOptionalCoordinate(n.x) || !isOptionalCoordinate(n.y) || !isOptionalCoordinate(n.fx) || !isOptionalCoordinate(n.fy)) {
+        errors.push(`${path} has a non-numeric position`);
+      }
+      if (!isOptional(n.collapsed, 'boolean')) errors.push(`${path}.collapsed must be a boolean`);
+      if (!isOptional(n.trunkTier, 'number')) errors.push(`${path}.trunkTier must be a number`);
+    });
+
+    if (!nodeIds.has('root')) errors.push('graph must contain a node with id "root"');
+
+    raw.graph.links.forEach((l: unknown, i: number) => {
+      const path = `graph.links[${i}]`;
+      if (!isObject(l) || typeof l.source !== 'string' || typeof l.target !== 'string') {
+        errors.push(`${path} must have string source and target`);
+        return;
+      }
+      if (!nodeIds.has(l.source) || !nodeIds.has(l.target)) errors.push(`${path} references a missing node`);
+    });
+  }
+
+  if (!Array.isArray(raw.documents)) {
+    errors.push('documents must be an array');
+  } else {
+    raw.documents.forEach((d: unknown, i: number) => {
+      const path = `documents[${i}]`;
+      if (!isObject(d)) { errors.push(`${path} must be an object`); return; }
+      if (typeof d.id !== 'string' || !d.id) errors.push(`${path}.id must be a non-empty string`);
+      if (typeof d.title !== 'string') errors.push(`${path}.title must be a string`);
+      if (!(DOCUMENT_TYPES as unknown[]).includes(d.type)) errors.push(`${path}.type is not a known document type`);
+      if (!Array.isArray(d.tags)) errors.push(`${path}.tags must be an array`);
+    });
+  }
+
+  if (raw.files !== undefined) {
+    if (!isObject(raw.files)) errors.push('files must be an object');
+    else Object.entries(raw.files).forEach(([id, f]) => {
+      if (!isObject(f) || typeof f.data !== 'string' || typeof f.mimeType !== 'string') errors.push(`files["${id}"] must have mimeType and data strings`);
+    });
+  }
+
+  return errors.length === initialCount;
+};
+
+/**
+ * Parses, migrates and validates a bundle file. Throws with a readable message when the file cannot be imported.
+ */
+export const parseMapBundle = (text: string): MapBundle => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('File is not valid JSON.');
+  }
+  // null, arrays and plain values have nothing to migrate
+  if (!isObject(parsed)) throw new Error('Bundle is not a JSON object.');
+
+  let raw = parsed;
+  let version = detectVersion(raw);
+  if (version > CURRENT_BUNDLE_VERSION) {
+    throw new Error(`This bundle was created by a newer version (v${version}). Please update the app.`);
+  }
+  while (version < CURRENT_BUNDLE_VERSION) {
+    raw = MIGRATIONS[version](raw);
+    version = detectVersion(raw);
+  }
+
+  // Older bundles may omit optional objects; fill them before validating
+  raw.settings = { ...DEFAULT_SETTINGS, ...(isObject(raw.settings) ? raw.settings : {}) };
+  if (raw.documents === undefined) raw.documents = [];
+
+  const errors: string[] = [];
+  if (!validateMapBundle(raw, errors)) {
+    const shown = errors.slice(0, 5).join('\n');
+    const more = errors.length > 5 ? `\n...and ${errors.length - 5} more` : '';
+    throw new Error(`Bundle failed validation:\n${shown}${more}`);
+  }
+
+  return raw;
+};
+
+/**
+ * Decodes the embedded files of a bundle into blobs keyed by document id.
+ */
+export const extractBundleFiles = (bundle: MapBundle): Map<string, Blob> => {
+  const blobs = new Map<string, Blob>();
+  Object.entries(bundle.files || {}).forEach(([docId, file]) => {
+    try {
+      blobs.set(docId, base64ToBlob(file.data, file.mimeType));
+    } catch (e) {
+      console.warn(`Skipping corrupt embedded file for ${docId}`, e);
+    }
+  });
+  return blobs;
+};
+
+// --- MERGE ---
+
+const linkEndpointId = (endpoint: string | Node) => typeof endpoint === 'object' ? endpoint.id : endpoint;
+
+/**
+ * Merges a bundle into an existing map. The bundle's root is folded into the current root,
+ * and any other id that already exists is renamed so nothing in the current map is overwritten.
+ * Returns the merged data plus the id mapping (old bundle id -> id in the merged map).
+ */
+export const mergeBundleIntoMap = (
+  current: { graph: GraphData; documents: Document[] },
+  bundle: MapBundle
+): { graph: GraphData; documents: Document[]; idMap: Map<string, string> } => {
+  const takenIds = new Set<string>([
+    ...current.graph.nodes.map(n => n.id),
+    ...current.documents.map(d => d.id)
+  ]);
+  const suffix = `imported-${Date.now()}`;
+
+  const idMap = new Map<string, string>([['root', 'root']]);
+  const remap = (id: string) => {
+    if (!idMap.has(id)) idMap.set(id, takenIds.has(id) ? `${id}-${suffix}` : id);
+    return idMap.get(id)!;
+  };
+
+  // Positions belong to the other map's layout; let the simulation place merged nodes
+  const nodes: Node[] = bundle.graph.nodes
+    .filter(n => n.id !== 'root')
+    .map(({ x, y, fx, fy, ...n }) => ({ ...n, id: remap(n.id) }));
+
+  const links: Link[] = bundle.graph.links.map(l => ({
+    ...l,
+    source: remap(linkEndpointId(l.source)),
+    target: remap(linkEndpointId(l.target))
+  }));
+
+  const documents: Document[] = bundle.documents.map(d => ({
+    ...d,
+    id: remap(d.id),
+    parentId: d.parentId ? remap(d.parentId) : d.parentId
+  }));
+
+  return {
+    graph: {
+      nodes: [...current.graph.nodes, ...nodes],
+      links: [...current.graph.links, ...links]
+    },
+    documents: [...current.documents, ...documents],
+    idMap
+  };
+};
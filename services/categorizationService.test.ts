@@ -0,0 +1,113 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Document, Link, NodeType, TagSuggestion } from '../types';
+import { AIProvider, mockAIProvider } from './aiProvider';
+import { applyTagSuggestion, categoryHintsFor, queueSuggestion, suggestCategorization } from './categorizationService';
+import { WorkspaceSnapshot } from './historyService';
+
+const doc = (id: string, fields: Partial<Document> = {}): Document => ({
+  id, title: `${id}.pdf`, content: '', project: 'Inbox', date: '2024-01-01', type: 'pdf', tags: ['scan'], parentId: 'cat-docs', ...fields
+});
+
+// root -> upload folder -> "Documents" bucket -> the uploaded file
+const workspace = (documents: Document[], extra: { nodes?: WorkspaceSnapshot['graph']['nodes'], links?: Link[] } = {}): WorkspaceSnapshot => ({
+  documents,
+  graph: {
+    nodes: [
+      { id: 'root', name: 'Root', type: NodeType.ROOT, val: 30, level: 0 },
+      { id: 'folder', name: 'Uploads', type: NodeType.PROJECT, val: 20, level: 1 },
+      { id: 'cat-docs', name: 'Documents', type: NodeType.CATEGORY, val: 15, level: 2 },
+      ...documents.map(d => ({ id: d.id, name: d.title, type: NodeType.DOCUMENT, val: 10, level: 3 })),
+      ...(extra.nodes || [])
+    ],
+    links: [
+      { source: 'root', target: 'folder', value: 1 },
+      { source: 'folder', target: 'cat-docs', value: 1 },
+      ...documents.map(d => ({ source: 'cat-docs', target: d.id, value: 1 })),
+      ...(extra.links || [])
+    ]
+  }
+});
+
+const suggestion = (fields: Partial<TagSuggestion>): TagSuggestion => ({
+  id: 's1', docId: 'a', tags: [], project: 'Finance', category: 'Invoices', suggestedAt: '', suggestedBy: 'Offline mock', ...fields
+});
+
+const linkPairs = (ws: WorkspaceSnapshot) => ws.graph.links.map(l => `${l.source}->${l.target}`);
+
+describe('categoryHintsFor', () => {
+  it('lists existing projects and topical categories, leaving out upload buckets and smart folders', () => {
+    const ws = workspace([doc('a', { project: 'Finance' })], {
+      nodes: [
+        { id: 'topic', name: 'Invoices', type: NodeType.CATEGORY, val: 15 },
+        { id: 'smart', name: 'Saved search', type: NodeType.CATEGORY, val: 15, smartFolder: { query: 'x', resultIds: [], refreshedAt: '' } }
+      ]
+    });
+    expect(categoryHintsFor(ws)).toEqual({ projects: ['Finance', 'Uploads'], categories: ['Invoices'] });
+  });
+});
+
+describe('suggestCategorization', () => {
+  it('returns the provider suggestion for review', async () => {
+    const provider: AIProvider = { ...mockAIProvider, categorize: async () => ({ tags: ['invoice'], project: 'Finance', category: 'Invoices' }) };
+    expect(await suggestCategorization(doc('a'), workspace([doc('a')]), provider)).toMatchObject({
+      docId: 'a', tags: ['invoice'], project: 'Finance', category: 'Invoices', suggestedBy: 'Offline mock'
+    });
+  });
+
+  it('returns null when the suggestion changes nothing or the provider fails', async () => {
+    const unchanged: AIProvider = { ...mockAIProvider, categorize: async () => ({ tags: [], project: 'Inbox', category: 'Documents' }) };
+    expect(await suggestCategorization(doc('a'), workspace([doc('a')]), unchanged)).toBeNull();
+
+    const failing: AIProvider = { ...mockAIProvider, categorize: async () => { throw new Error('quota exceeded'); } };
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await suggestCategorization(doc('a'), workspace([doc('a')]), failing)).toBeNull();
+    logError.mockRestore();
+  });
+});
+
+describe('queueSuggestion', () => {
+  it('replaces an older suggestion for the same document', () => {
+    const queue = queueSuggestion([suggestion({ id: 'old' }), suggestion({ id: 'other', docId: 'b' })], suggestion({ id: 'new' }));
+    expect(queue.map(s => s.id)).toEqual(['other', 'new']);
+  });
+});
+
+describe('applyTagSuggestion', () => {
+  it('adds new tags, sets the project and moves the document into a new category beside its bucket', () => {
+    const result = applyTagSuggestion(workspace([doc('a'), doc('b')]), suggestion({}), ['Scan', 'invoice']);
+    const moved = result.documents.find(d => d.id === 'a')!;
+    const category = result.graph.nodes.find(n => n.name === 'Invoices')!;
+
+    expect(moved).toMatchObject({ tags: ['scan', 'invoice'], project: 'Finance', parentId: category.id });
+    expect(category).toMatchObject({ type: NodeType.CATEGORY, level: 2, project: 'Finance' });
+    expect(result.graph.nodes.find(n => n.id === 'a')?.level).toBe(3);
+    expect(linkPairs(result)).toContain(`folder->${category.id}`);
+    expect(linkPairs(result)).toContain(`${category.id}->a`);
+    expect(linkPairs(result)).not.toContain('cat-docs->a');
+    // The bucket still holds "b"
+    expect(result.graph.nodes.some(n => n.id === 'cat-docs')).toBe(true);
+  });
+
+  it('reuses an existing category of that name and removes the emptied bucket', () => {
+    const ws = workspace([doc('a')], {
+      nodes: [{ id: 'topic', name: 'invoices', type: NodeType.CATEGORY, val: 15, level: 2 }],
+      links: [{ source: 'folder', target: 'topic', value: 2 }]
+    });
+    const result = applyTagSuggestion(ws, suggestion({}), []);
+    expect(result.documents[0].parentId).toBe('topic');
+    expect(result.graph.nodes.some(n => n.id === 'cat-docs')).toBe(false);
+    expect(linkPairs(result)).toEqual(['root->folder', 'folder->topic', 'topic->a']);
+  });
+
+  it('keeps the document in place when the category is its bucket', () => {
+    const ws = workspace([doc('a')]);
+    const result = applyTagSuggestion(ws, suggestion({ category: 'documents' }), ['invoice']);
+    expect(result.graph).toBe(ws.graph);
+    expect(result.documents[0]).toMatchObject({ parentId: 'cat-docs', tags: ['scan', 'invoice'] });
+  });
+
+  it('ignores suggestions for documents that are gone', () => {
+    const ws = workspace([doc('b')]);
+    expect(applyTagSuggestion(ws, suggestion({}), ['invoice'])).toBe(ws);
+  });
+});
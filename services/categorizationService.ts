@@ -0,0 +1,135 @@
+import { Document, Node, NodeType, TagSuggestion } from '../types';
+import { AIProvider, CategoryHints } from './aiProvider';
+import { isAbortError } from './aiRequestLayer';
+import { WorkspaceSnapshot } from './historyService';
+
+// The file-type buckets uploads are sorted into; never offered as topical categories
+const UPLOAD_BUCKET_NAMES = new Set(['documents', 'images', 'videos', 'music', 'data']);
+const CATEGORY_COLOR = '#6366f1';
+
+const linkEndpointId = (endpoint: string | Node) => typeof endpoint === 'object' ? endpoint.id : endpoint;
+
+/**
+ * Project and category names already in the map, so suggestions can reuse them.
+ */
+export const categoryHintsFor = ({ graph, documents }: WorkspaceSnapshot): CategoryHints => {
+  const unique = (names: string[]) => Array.from(new Set(names.map(n => n.trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+  return {
+    projects: unique([
+      ...documents.map(d => d.project),
+      ...graph.nodes.filter(n => n.type === NodeType.PROJECT).map(n => n.name)
+    ]),
+    categories: unique(graph.nodes
+      .filter(n => n.type === NodeType.CATEGORY && !n.smartFolder && !UPLOAD_BUCKET_NAMES.has(n.name.toLowerCase()))
+      .map(n => n.name))
+  };
+};
+
+/**
+ * Asks the provider to file one document. Null when the call fails or the suggestion would change nothing.
+ */
+export const suggestCategorization = async (
+  doc: Document,
+  workspace: WorkspaceSnapshot,
+  provider: AIProvider,
+  signal?: AbortSignal
+): Promise<TagSuggestion | null> => {
+  try {
+    const { tags, project, category } = await provider.categorize(doc, categoryHintsFor(workspace), { signal });
+    const currentCategory = workspace.graph.nodes.find(n => n.id === doc.parentId)?.name;
+    if (tags.length === 0 && project === doc.project && category === currentCategory) return null;
+    return {
+      id: `tags-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+      docId: doc.id,
+      tags,
+      project,
+      category,
+      suggestedAt: new Date().toISOString(),
+      suggestedBy: provider.label
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`${provider.label} categorization error for ${doc.title}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Adds a suggestion to the queue, replacing an older one for the same document.
+ */
+export const queueSuggestion = (queue: TagSuggestion[], suggestion: TagSuggestion): TagSuggestion[] =>
+  [...queue.filter(s => s.docId !== suggestion.docId), suggestion];
+
+/**
+ * Applies an accepted suggestion: adds the chosen tags, sets the project and moves the document from its
+ * upload bucket under the category of that name next to the bucket, creating the category if needed.
+ * A bucket left without children is removed.
+ */
+export const applyTagSuggestion = (workspace: WorkspaceSnapshot, suggestion: TagSuggestion, tags: string[]): WorkspaceSnapshot => {
+  const doc = workspace.documents.find(d => d.id === suggestion.docId);
+  if (!doc) return workspace;
+
+  let nodes = workspace.graph.nodes;
+  let links = workspace.graph.links;
+  const bucketId = doc.parentId;
+  const bucket = nodes.find(n => n.id === bucketId);
+  // Categories sit beside the bucket, under the folder the file was uploaded to
+  const folderId = bucket ? links.filter(l => linkEndpointId(l.target) === bucket.id).map(l => linkEndpointId(l.source))[0] || 'root' : 'root';
+  const folder = nodes.find(n => n.id === folderId);
+
+  let parentId = bucketId;
+  if (suggestion.category && suggestion.category.toLowerCase() !== bucket?.name.toLowerCase()) {
+    const siblingIds = new Set(links.filter(l => linkEndpointId(l.source) === folderId).map(l => linkEndpointId(l.target)));
+    let category = nodes.find(n => siblingIds.has(n.id) && n.type === NodeType.CATEGORY && !n.smartFolder && n.name.toLowerCase() === suggestion.category.toLowerCase());
+    if (!category) {
+      category = {
+        id: `topic-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+        name: suggestion.category,
+        type: NodeType.CATEGORY,
+        val: 15,
+        description: `Documents about ${suggestion.category}`,
+        iconType: 'folder',
+        color: CATEGORY_COLOR,
+        level: (folder?.level || 0) + 1,
+        project: suggestion.project,
+        collapsed: false
+      };
+      nodes = [...nodes, category];
+      links = [...links, { source: folderId, target: category.id, value: 2 }];
+    }
+    parentId = category.id;
+  }
+
+  const moved = parentId !== bucketId;
+  const parentLevel = nodes.find(n => n.id === parentId)?.level || 0;
+  const known = new Set(doc.tags.map(t => t.toLowerCase()));
+  const documents = workspace.documents.map(d => d.id !== doc.id ? d : {
+    ...d,
+    tags: [...d.tags, ...tags.filter(t => !known.has(t.toLowerCase()))],
+    project: suggestion.project || d.project,
+    parentId
+  });
+
+  if (moved) {
+    // A document node shown in the map follows its document; links from other folders (shared copies) stay
+    const hasNode = nodes.some(n => n.id === doc.id);
+    nodes = nodes.map(n => n.id === doc.id ? { ...n, level: parentLevel + 1, project: suggestion.project || n.project } : n);
+    links = links.filter(l => !(linkEndpointId(l.source) === bucketId && linkEndpointId(l.target) === doc.id));
+    if (hasNode && !links.some(l => linkEndpointId(l.source) === parentId && linkEndpointId(l.target) === doc.id)) {
+      links = [...links, { source: parentId!, target: doc.id, value: 1 }];
+    }
+
+    const bucketEmpty = bucket && bucket.id.startsWith('cat-')
+      && !documents.some(d => d.parentId === bucket.id)
+      && !links.some(l => linkEndpointId(l.source) === bucket.id);
+    if (bucketEmpty) {
+      nodes = nodes.filter(n => n.id !== bucket.id);
+      links = links.filter(l => linkEndpointId(l.target) !== bucket.id);
+    }
+  }
+
+  return {
+    documents,
+    graph: nodes === workspace.graph.nodes && links === workspace.graph.links ? workspace.graph : { nodes, links }
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { Document } from '../types';
+import { RankedDocument, buildSearchContext, estimateTokens, splitIntoPassages } from './contextBuilder';
+import { createSearchIndex, syncSearchIndex } from './searchIndex';
+
+const doc = (id: string, content: string): Document => ({
+  id, title: id, content, project: 'Alpha', date: 'unknown', type: 'txt', tags: []
+});
+
+// Words of five letters plus a space, so every window boundary can fall on whitespace
+const filler = (words: number, word = 'lorem') => Array(words).fill(word).join(' ');
+
+const contextFor = (docs: Document[], query: string, budgetTokens?: number) => {
+  const index = createSearchIndex();
+  syncSearchIndex(index, docs);
+  const ranked: RankedDocument[] = docs.map((d, i) => ({ doc: d, score: docs.length - i }));
+  return buildSearchContext(query, ranked, index, budgetTokens);
+};
+
+describe('splitIntoPassages', () => {
+  it('returns no windows for empty content and one for short content', () => {
+    expect(splitIntoPassages('')).toEqual([]);
+    expect(splitIntoPassages('short text')).toEqual([{ start: 0, end: 10 }]);
+  });
+
+  it('cuts overlapping windows at whitespace and covers the whole text', () => {
+    const text = filler(400);
+    const windows = splitIntoPassages(text);
+    expect(windows.length).toBeGreaterThan(2);
+    windows.forEach((w, i) => {
+      expect(w.end - w.start).toBeLessThanOrEqual(900);
+      // Windows start at a word and end before a space (or at the end of the text)
+      expect(text[w.start - 1] ?? ' ').toBe(' ');
+      expect(text[w.end] ?? ' ').toBe(' ');
+      if (i > 0) expect(w.start).toBeLessThan(windows[i - 1].end);
+    });
+    expect(windows[windows.length - 1].end).toBe(text.length);
+  });
+
+  it('cuts hard when a long run has no whitespace', () => {
+    const windows = splitIntoPassages('x'.repeat(2000));
+    expect(windows[0]).toEqual({ start: 0, end: 900 });
+    expect(windows[1].start).toBe(750);
+    expect(windows[windows.length - 1].end).toBe(2000);
+  });
+});
+
+describe('buildSearchContext', () => {
+  it('picks the passages that match, wherever they are in the document', () => {
+    const content = `${filler(300)} the budget was approved ${filler(300)}`;
+    const context = contextFor([doc('a', content)], 'budget');
+    const [opening, ...matches] = context.passages;
+    // The opening passage is always a candidate; later ones only when they match
+    expect(opening.start).toBe(0);
+    expect(matches.length).toBeGreaterThan(0);
+    expect(matches.every(p => p.text.includes('budget'))).toBe(true);
+    expect(context.documents.map(d => d.doc.id)).toEqual(['a']);
+  });
+
+  it('keeps the opening passage of documents without any match', () => {
+    const context = contextFor([doc('match', 'budget plan'), doc('related', `opening words ${filler(400)}`)], 'budget');
+    const related = context.passages.filter(p => p.docId === 'related');
+    expect(related).toHaveLength(1);
+    expect(related[0].start).toBe(0);
+  });
+
+  it('includes documents without text by their title', () => {
+    const context = contextFor([doc('link', '')], 'budget');
+    expect(context.passages).toEqual([expect.objectContaining({ docId: 'link', start: 0, end: 0, text: '' })]);
+  });
+
+  it('takes at most three passages per document', () => {
+    const content = Array(10).fill(`budget ${filler(150)}`).join(' ');
+    const context = contextFor([doc('long', content)], 'budget', 100_000);
+    expect(context.passages).toHaveLength(3);
+  });
+
+  it('stays within the token budget and counts documents left out', () => {
+    const docs = ['a', 'b', 'c', 'd'].map(id => doc(id, `budget ${filler(140)}`));
+    const budget = 600;
+    const context = contextFor(docs, 'budget', budget);
+    const cost = (text: string) => estimateTokens(text) + 12 + 40;
+
+    expect(context.usedTokens).toBe(context.passages.reduce((sum, p) => sum + cost(p.text), 0));
+    expect(context.usedTokens).toBeLessThanOrEqual(budget);
+    expect(context.documents.map(d => d.doc.id)).toEqual(['a', 'b', 'c', 'd'].slice(0, context.documents.length));
+    expect(context.omittedDocuments).toBe(4 - context.documents.length);
+    expect(context.omittedDocuments).toBeGreaterThan(0);
+  });
+
+  it('orders passages by document rank, then by position', () => {
+    const first = doc('first', `${filler(150)} budget ${filler(150)} budget ${filler(150)} budget`);
+    const second = doc('second', 'budget budget budget');
+    const context = contextFor([first, second], 'budget', 100_000);
+    const firstStarts = context.passages.filter(p => p.docId === 'first').map(p => p.start);
+    expect(context.passages.map(p => p.docId)).toEqual([...firstStarts.map(() => 'first'), 'second']);
+    expect(firstStarts).toEqual([...firstStarts].sort((a, b) => a - b));
+    expect(context.passages.map(p => p.id)).toEqual(context.passages.map((_, i) => `P${i + 1}`));
+  });
+});
@@ -0,0 +1,143 @@
+import { Document } from '../types';
+import { SearchIndex, highlightTermsFor, tokenize } from './searchIndex';
+
+export interface RankedDocument {
+  doc: Document;
+  score: number;
+}
+
+export interface ContextPassage {
+  id: string; // "P1", "P2", ...; the label the model cites
+  docId: string;
+  start: number; // Character offsets in the document content
+  end: number;
+  text: string;
+  score: number;
+}
+
+export interface SearchContext {
+  documents: RankedDocument[]; // Documents with at least one passage, in rank order
+  passages: ContextPassage[]; // Grouped by document in rank order, then by position
+  usedTokens: number;
+  budgetTokens: number;
+  omittedDocuments: number; // Ranked documents without any passage in the budget
+}
+
+export const DEFAULT_CONTEXT_TOKENS = 8000;
+export const MIN_CONTEXT_TOKENS = 1000;
+
+// Passages overlap so a match on a boundary still appears whole in one of them
+const PASSAGE_LENGTH = 900;
+const PASSAGE_OVERLAP = 150;
+// Lower ranked documents are not split at all
+const MAX_CONTEXT_DOCUMENTS = 40;
+// Keeps one long document from taking the whole budget
+const MAX_PASSAGES_PER_DOCUMENT = 3;
+// Prompt lines around each document and passage (title, project, labels)
+const DOCUMENT_HEADER_TOKENS = 40;
+const PASSAGE_HEADER_TOKENS = 12;
+// How much the document's own rank adds to each of its passages, relative to one matched term
+const DOCUMENT_RANK_SHARE = 1;
+const PHRASE_BONUS = 2;
+
+/**
+ * Rough token count for budgeting: about four characters per token for English text.
+ */
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Overlapping windows of about PASSAGE_LENGTH characters, ending at whitespace where possible.
+ */
+export const splitIntoPassages = (content: string): { start: number, end: number }[] => {
+  const windows: { start: number, end: number }[] = [];
+  let start = 0;
+  while (start < content.length) {
+    let end = Math.min(content.length, start + PASSAGE_LENGTH);
+    if (end < content.length) {
+      const lastSpace = content.lastIndexOf(' ', end);
+      if (lastSpace > start + PASSAGE_LENGTH / 2) end = lastSpace;
+    }
+    windows.push({ start, end });
+    if (end >= content.length) break;
+    // Start the next window after a space inside the overlap so it does not begin mid-word
+    const overlapStart = Math.max(start + 1, end - PASSAGE_OVERLAP);
+    const nextSpace = content.indexOf(' ', overlapStart);
+    start = nextSpace !== -1 && nextSpace < end ? nextSpace + 1 : overlapStart;
+  }
+  return windows;
+};
+
+/**
+ * Splits the ranked documents into passages, ranks the passages against the query and packs the best ones
+ * into the token budget. A passage scores by the query terms it contains plus a share of its document's rank;
+ * a document's opening passage is a candidate even without matches, so documents found by meaning alone
+ * are still represented.
+ */
+export const buildSearchContext = (
+  query: string,
+  rankedDocs: RankedDocument[],
+  index: SearchIndex,
+  budgetTokens = DEFAULT_CONTEXT_TOKENS
+): SearchContext => {
+  const { terms, phrases } = highlightTermsFor(index, query);
+  const lowerPhrases = phrases.map(p => p.toLowerCase());
+  const topScore = rankedDocs[0]?.score || 1;
+
+  const candidates: Omit<ContextPassage, 'id'>[] = [];
+  rankedDocs.slice(0, MAX_CONTEXT_DOCUMENTS).forEach(({ doc, score: docScore }) => {
+    const rankShare = DOCUMENT_RANK_SHARE * Math.max(0, docScore) / topScore;
+    const windows = splitIntoPassages(doc.content);
+    // Documents without text (links, files still being extracted) still go in with their title
+    if (windows.length === 0) windows.push({ start: 0, end: 0 });
+    windows.forEach(({ start, end }, position) => {
+      const text = doc.content.slice(start, end);
+      const counts = new Map<string, number>();
+      tokenize(text).forEach(term => counts.set(term, (counts.get(term) || 0) + 1));
+
+      let termScore = 0;
+      // Repeats add less and less so a passage listing one word many times does not win
+      terms.forEach((weight, term) => {
+        const count = counts.get(term);
+        if (count) termScore += weight * (1 + Math.log(count));
+      });
+      const lowerText = text.toLowerCase().replace(/\s+/g, ' ');
+      lowerPhrases.forEach(phrase => { if (lowerText.includes(phrase)) termScore += PHRASE_BONUS; });
+
+      if (termScore === 0 && position > 0) return;
+      candidates.push({ docId: doc.id, start, end, text, score: termScore + rankShare });
+    });
+  });
+
+  // --- PACKING ---
+  const selected: Omit<ContextPassage, 'id'>[] = [];
+  const passagesPerDoc = new Map<string, number>();
+  let usedTokens = 0;
+
+  candidates
+    .sort((a, b) => b.score - a.score)
+    .forEach(candidate => {
+      const count = passagesPerDoc.get(candidate.docId) || 0;
+      if (count >= MAX_PASSAGES_PER_DOCUMENT) return;
+      const cost = estimateTokens(candidate.text) + PASSAGE_HEADER_TOKENS + (count === 0 ? DOCUMENT_HEADER_TOKENS : 0);
+      // Smaller passages further down may still fit, so keep going
+      if (usedTokens + cost > budgetTokens) return;
+      usedTokens += cost;
+      passagesPerDoc.set(candidate.docId, count + 1);
+      selected.push(candidate);
+    });
+
+  // Reading order: documents by rank, passages by position
+  const documents = rankedDocs.filter(({ doc }) => passagesPerDoc.has(doc.id));
+  const docOrder = new Map(documents.map(({ doc }, i) => [doc.id, i]));
+  const passages = selected
+    .sort((a, b) => docOrder.get(a.docId)! - docOrder.get(b.docId)! || a.start - b.start)
+    .map((passage, i) => ({ ...passage, id: `P${i + 1}` }));
+
+  return {
+    documents,
+    passages,
+    usedTokens,
+    budgetTokens,
+    omittedDocuments: rankedDocs.length - documents.length
+  };
+};
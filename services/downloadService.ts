@@ -0,0 +1,20 @@
+/**
+ * Turns a map name into a safe file name stem ("Q3 Plan / v2" -> "Q3-Plan-v2").
+ */
+export const toFileSlug = (name: string, fallback = 'mind-map') =>
+  name.replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-') || fallback;
+
+/**
+ * Triggers a browser download for an in-memory blob.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadTextFile = (content: string, fileName: string, mimeType: string) =>
+  downloadBlob(new Blob([content], { type: mimeType }), fileName);
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Document } from '../types';
+import { findDuplicateGroups, findUploadDuplicates, hashFile } from './duplicateService';
+
+const doc = (id: string, contentHash: string | undefined, project = 'Alpha'): Document => ({
+  id, title: `${id}.pdf`, content: '', project, date: '2024-01-01', type: 'pdf', tags: [], contentHash
+});
+
+describe('hashFile', () => {
+  it('returns the SHA-256 of the bytes as hex', async () => {
+    expect(await hashFile(new Blob(['abc']))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
+
+describe('findUploadDuplicates', () => {
+  it('matches files against the map first, then against earlier files of the batch', () => {
+    const files = [
+      { name: 'new.pdf', hash: 'h1' },
+      { name: 'copy-of-existing.pdf', hash: 'h2' },
+      { name: 'new-again.pdf', hash: 'h1' },
+      { name: 'unhashed.pdf', hash: null }
+    ];
+    expect(findUploadDuplicates(files, [doc('existing', 'h2', 'Beta')], 'Alpha')).toEqual([
+      { index: 1, fileName: 'copy-of-existing.pdf', hash: 'h2', existingDocId: 'existing', matchTitle: 'existing.pdf', matchProject: 'Beta' },
+      { index: 2, fileName: 'new-again.pdf', hash: 'h1', batchIndex: 0, matchTitle: 'new.pdf', matchProject: 'Alpha (this upload)' }
+    ]);
+  });
+
+  it('reports every later copy of a batch file against the first one', () => {
+    const files = ['a', 'b', 'c'].map(name => ({ name, hash: 'same' }));
+    expect(findUploadDuplicates(files, [], 'Alpha').map(c => [c.index, c.batchIndex])).toEqual([[1, 0], [2, 0]]);
+  });
+});
+
+describe('findDuplicateGroups', () => {
+  it('groups documents by hash, largest groups first, ignoring unhashed ones', () => {
+    const groups = findDuplicateGroups([
+      doc('a1', 'a'), doc('b1', 'b', 'Beta'), doc('a2', 'a', 'Beta'), doc('b2', 'b'), doc('b3', 'b'), doc('c1', 'c'), doc('x', undefined), doc('y', undefined)
+    ]);
+    expect(groups.map(g => g.documents.map(d => d.id))).toEqual([['b1', 'b2', 'b3'], ['a1', 'a2']]);
+    expect(groups[1].projects).toEqual(['Alpha', 'Beta']);
+  });
+});
@@ -0,0 +1,91 @@
+import { Document } from '../types';
+
+// skip: drop the new file; replace: drop the old copy; link: connect the new location to the existing node; keep: add both
+export type DuplicateResolution = 'skip' | 'replace' | 'link' | 'keep';
+
+export const DUPLICATE_RESOLUTIONS: { value: DuplicateResolution, label: string }[] = [
+  { value: 'skip', label: 'Skip' },
+  { value: 'replace', label: 'Replace' },
+  { value: 'link', label: 'Link to existing' },
+  { value: 'keep', label: 'Keep both' }
+];
+
+/**
+ * A file in an upload batch whose bytes match a document already in the map or an earlier file of the same batch.
+ */
+export interface DuplicateCandidate {
+  index: number; // Position of the duplicate in the batch
+  fileName: string;
+  hash: string;
+  existingDocId?: string; // Set when the match is already in the map
+  batchIndex?: number; // Set when the match is an earlier file of the same batch
+  matchTitle: string;
+  matchProject: string;
+}
+
+export interface DuplicateGroup {
+  hash: string;
+  documents: Document[];
+  projects: string[];
+}
+
+/**
+ * SHA-256 of a file's bytes as lowercase hex, or null where SubtleCrypto is unavailable (non-secure origins).
+ */
+export const hashFile = async (file: Blob): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Short form of a hash for display.
+ */
+export const shortHash = (hash: string) => hash.slice(0, 10);
+
+/**
+ * Matches each hashed file against existing documents first, then against earlier files in the batch.
+ */
+export const findUploadDuplicates = (
+  files: { name: string, hash: string | null }[],
+  documents: Document[],
+  project: string
+): DuplicateCandidate[] => {
+  const existingByHash = new Map<string, Document>();
+  documents.forEach(doc => {
+    if (doc.contentHash && !existingByHash.has(doc.contentHash)) existingByHash.set(doc.contentHash, doc);
+  });
+
+  const firstInBatch = new Map<string, number>();
+  const candidates: DuplicateCandidate[] = [];
+  files.forEach((file, index) => {
+    if (!file.hash) return;
+    const existing = existingByHash.get(file.hash);
+    const batchIndex = firstInBatch.get(file.hash);
+
+    if (existing) {
+      candidates.push({ index, fileName: file.name, hash: file.hash, existingDocId: existing.id, matchTitle: existing.title, matchProject: existing.project });
+    } else if (batchIndex !== undefined) {
+      candidates.push({ index, fileName: file.name, hash: file.hash, batchIndex, matchTitle: files[batchIndex].name, matchProject: `${project} (this upload)` });
+    } else {
+      firstInBatch.set(file.hash, index);
+    }
+  });
+  return candidates;
+};
+
+/**
+ * Groups documents with identical content. Largest groups first.
+ */
+export const findDuplicateGroups = (documents: Document[]): DuplicateGroup[] => {
+  const byHash = new Map<string, Document[]>();
+  documents.forEach(doc => {
+    if (!doc.contentHash) return;
+    byHash.set(doc.contentHash, [...(byHash.get(doc.contentHash) || []), doc]);
+  });
+
+  return Array.from(byHash.entries())
+    .filter(([, docs]) => docs.length > 1)
+    .map(([hash, docs]) => ({ hash, documents: docs, projects: Array.from(new Set(docs.map(d => d.project))) }))
+    .sort((a, b) => b.documents.length - a.documents.length || a.documents[0].title.localeCompare(b.documents[0].title));
+};
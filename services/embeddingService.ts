@@ -0,0 +1,100 @@
+import { stem, tokenize } from './searchIndex';
+
+/**
+ * Turns texts into fixed-length vectors whose cosine similarity reflects how related the texts are.
+ * Asynchronous so that model-backed providers can be plugged in.
+ */
+export interface EmbeddingProvider {
+  id: string; // Vectors from different providers are not comparable; indexes are rebuilt when this changes
+  label: string;
+  dimensions: number;
+  embed: (texts: string[]) => Promise<Float32Array[]>;
+}
+
+// --- LOCAL PROVIDER ---
+// Feature hashing over stems, character trigrams and a small bundled concept lexicon.
+// Deterministic and offline: the same text always gives the same vector.
+
+const LOCAL_DIMENSIONS = 512;
+
+const WORD_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.25;
+// Concepts carry the meaning across words that never co-occur ("login" vs "OAuth")
+const CONCEPT_WEIGHT = 1.5;
+
+// Related words that should land near each other. Words are stemmed when the table is loaded.
+const CONCEPTS: Record<string, string[]> = {
+  authentication: ['login', 'logon', 'signin', 'signon', 'logout', 'authentication', 'authenticate', 'auth', 'oauth', 'oauth2', 'openid', 'sso', 'saml', 'password', 'passcode', 'credential', 'mfa', '2fa', 'otp', 'session', 'token', 'jwt', 'account'],
+  security: ['security', 'secure', 'vulnerability', 'exploit', 'attack', 'threat', 'breach', 'encryption', 'encrypt', 'firewall', 'permission', 'authorization', 'privacy', 'compliance', 'audit', 'malware', 'phishing', 'xss', 'csrf', 'injection'],
+  finance: ['finance', 'financial', 'budget', 'revenue', 'cost', 'expense', 'spending', 'profit', 'loss', 'invoice', 'payment', 'billing', 'forecast', 'accounting', 'tax', 'earnings', 'quarterly', 'fiscal', 'q1', 'q2', 'q3', 'q4'],
+  design: ['design', 'ui', 'ux', 'interface', 'layout', 'typography', 'font', 'color', 'palette', 'style', 'styleguide', 'wireframe', 'mockup', 'prototype', 'figma', 'component', 'icon', 'brand'],
+  infrastructure: ['infrastructure', 'devops', 'deploy', 'deployment', 'server', 'cloud', 'aws', 'azure', 'gcp', 'kubernetes', 'k8s', 'docker', 'container', 'pipeline', 'ci', 'cd', 'hosting', 'terraform', 'cluster', 'monitoring'],
+  marketing: ['marketing', 'campaign', 'social', 'media', 'seo', 'advertising', 'ads', 'audience', 'promotion', 'launch', 'newsletter', 'engagement', 'influencer'],
+  planning: ['plan', 'planning', 'roadmap', 'milestone', 'timeline', 'schedule', 'deadline', 'strategy', 'goal', 'objective', 'okr', 'priority', 'backlog', 'sprint'],
+  requirements: ['requirement', 'spec', 'specification', 'acceptance', 'criteria', 'scope', 'feature', 'story'],
+  meetings: ['meeting', 'minutes', 'agenda', 'standup', 'retro', 'retrospective', 'sync', 'workshop', 'notes'],
+  people: ['hiring', 'recruit', 'recruiting', 'onboarding', 'employee', 'staff', 'team', 'interview', 'candidate', 'hr', 'payroll', 'benefits'],
+  data: ['data', 'database', 'analytics', 'metric', 'kpi', 'dashboard', 'report', 'statistics', 'sql', 'warehouse', 'etl', 'dataset'],
+  api: ['api', 'endpoint', 'rest', 'graphql', 'request', 'response', 'webhook', 'integration', 'sdk', 'rate', 'limit', 'limiting', 'throttle'],
+  legal: ['legal', 'contract', 'agreement', 'license', 'licence', 'terms', 'policy', 'nda', 'gdpr', 'regulation', 'liability'],
+  quality: ['bug', 'defect', 'issue', 'test', 'testing', 'qa', 'regression', 'error', 'crash', 'incident', 'outage', 'fix'],
+  performance: ['performance', 'latency', 'speed', 'slow', 'fast', 'optimize', 'optimization', 'cache', 'caching', 'throughput', 'scalability']
+};
+
+// Stem -> concepts it belongs to
+const CONCEPT_INDEX: Map<string, string[]> = (() => {
+  const index = new Map<string, string[]>();
+  Object.entries(CONCEPTS).forEach(([concept, words]) => words.forEach(word => {
+    const key = stem(word);
+    index.set(key, [...(index.get(key) || []), concept]);
+  }));
+  return index;
+})();
+
+/**
+ * 32-bit FNV-1a.
+ */
+const hashFeature = (feature: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const addFeature = (vector: Float32Array, feature: string, weight: number) => {
+  const hash = hashFeature(feature);
+  // The top bit picks the sign so that collisions tend to cancel out rather than pile up
+  vector[hash % vector.length] += hash & 0x80000000 ? -weight : weight;
+};
+
+const embedLocally = (text: string): Float32Array => {
+  const vector = new Float32Array(LOCAL_DIMENSIONS);
+  tokenize(text).forEach(term => {
+    addFeature(vector, `w:${term}`, WORD_WEIGHT);
+    const padded = `#${term}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    (CONCEPT_INDEX.get(term) || []).forEach(concept => addFeature(vector, `c:${concept}`, CONCEPT_WEIGHT));
+  });
+
+  const norm = Math.hypot(...vector);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+};
+
+export const localEmbeddingProvider: EmbeddingProvider = {
+  id: 'local-hashed-v1',
+  label: 'On-device (hashed n-grams)',
+  dimensions: LOCAL_DIMENSIONS,
+  embed: async (texts) => texts.map(embedLocally)
+};
+
+/**
+ * Dot product; vectors from the providers are unit length, so this is the cosine similarity.
+ */
+export const cosineSimilarity = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { Document, GraphData, NodeType } from '../types';
+import { EMPTY_FACET_SELECTION, FacetSelection, buildFacets, documentSource, hasActiveFacets, isYearInRange, matchingNodeIds } from './facetService';
+
+const doc = (id: string, fields: Partial<Document>): Document => ({
+  id, title: id, content: '', project: 'Alpha', date: '2024-01-01', type: 'pdf', tags: [], ...fields
+});
+
+const documents = [
+  doc('a', { tags: ['finance', 'q1'], contentHash: 'abc' }),
+  doc('b', { project: 'Beta', type: 'md', date: '2023-05-01', tags: ['finance'], externalUrl: 'https://drive.google.com/x' }),
+  doc('c', { type: 'link', date: '2022-02-02', externalUrl: 'https://example.com' })
+];
+
+const select = (selection: Partial<FacetSelection>): FacetSelection => ({ ...EMPTY_FACET_SELECTION, ...selection });
+
+const counts = (selection: FacetSelection, key: string) =>
+  buildFacets(documents, selection).find(facet => facet.key === key)!.values.map(v => `${v.label}:${v.count}`);
+
+describe('documentSource', () => {
+  it('tells uploads, Drive files and web links apart', () => {
+    expect(documents.map(documentSource)).toEqual(['upload', 'drive', 'link']);
+  });
+
+  it('only counts documents with a stored file as uploads', () => {
+    expect(documentSource(doc('sample', {}))).toBe('other');
+    expect(documentSource(doc('blob', { fileUrl: 'blob:x' }))).toBe('upload');
+  });
+});
+
+describe('buildFacets', () => {
+  it('lists facets in a fixed order with values sorted per facet', () => {
+    const facets = buildFacets(documents, EMPTY_FACET_SELECTION);
+    expect(facets.map(f => f.key)).toEqual(['source', 'project', 'type', 'tag', 'date']);
+    expect(counts(EMPTY_FACET_SELECTION, 'source')).toEqual(['Upload:1', 'Drive:1', 'Link:1']);
+    expect(counts(EMPTY_FACET_SELECTION, 'project')).toEqual(['Alpha:2', 'Beta:1']);
+    expect(counts(EMPTY_FACET_SELECTION, 'date')).toEqual(['2024:1', '2023:1', '2022:1']);
+  });
+
+  it('counts each facet against the other facets only', () => {
+    const selection = select({ tag: ['finance'] });
+    // The tag facet itself still shows every tag
+    expect(counts(selection, 'tag')).toEqual(['finance:2', 'q1:1']);
+    expect(counts(selection, 'project')).toEqual(['Alpha:1', 'Beta:1']);
+    expect(counts(selection, 'type')).toEqual(['md:1', 'pdf:1', 'link:0']);
+  });
+
+  it('keeps a selected value listed when nothing carries it any more', () => {
+    expect(counts(select({ tag: ['gone'] }), 'tag')).toEqual(['finance:2', 'q1:1', 'gone:0']);
+  });
+
+  it('leaves out facets without values', () => {
+    expect(buildFacets([doc('x', {})], EMPTY_FACET_SELECTION).map(f => f.key)).not.toContain('tag');
+  });
+});
+
+describe('isYearInRange', () => {
+  it('spans the years between the lowest and highest selected one', () => {
+    expect(['2021', '2022', '2023', '2024', '2025'].map(year => isYearInRange(year, ['2024', '2022']))).toEqual([false, true, true, true, false]);
+    expect(isYearInRange('2024', [])).toBe(false);
+  });
+
+  it('filters documents by the whole range', () => {
+    expect(counts(select({ date: ['2022', '2024'] }), 'project')).toEqual(['Alpha:2', 'Beta:1']);
+    expect(counts(select({ date: ['2023'] }), 'project')).toEqual(['Beta:1', 'Alpha:0']);
+  });
+});
+
+describe('hasActiveFacets', () => {
+  it('is true once any value is selected', () => {
+    expect(hasActiveFacets(EMPTY_FACET_SELECTION)).toBe(false);
+    expect(hasActiveFacets(select({ date: ['2024'] }))).toBe(true);
+  });
+});
+
+describe('matchingNodeIds', () => {
+  const graph: GraphData = {
+    nodes: [
+      { id: 'root', name: 'Root', type: NodeType.ROOT, val: 30 },
+      { id: 'p1', name: 'Alpha', type: NodeType.PROJECT, val: 20 },
+      { id: 'p2', name: 'Beta', type: NodeType.PROJECT, val: 20 },
+      { id: 'a', name: 'a', type: NodeType.DOCUMENT, val: 10 },
+      { id: 'b', name: 'b', type: NodeType.DOCUMENT, val: 10 },
+      { id: 'c', name: 'c', type: NodeType.DOCUMENT, val: 10 }
+    ],
+    links: [
+      { source: 'root', target: 'p1', value: 1 },
+      { source: 'root', target: 'p2', value: 1 },
+      { source: 'p1', target: 'a', value: 1 },
+      { source: 'p1', target: 'c', value: 1 },
+      { source: 'p2', target: 'b', value: 1 }
+    ]
+  };
+
+  it('keeps matching documents, the nodes above them and the root', () => {
+    expect(Array.from(matchingNodeIds(graph, documents, select({ project: ['Beta'] }))).sort()).toEqual(['b', 'p2', 'root']);
+  });
+
+  it('combines values within a facet with OR and facets with AND', () => {
+    const ids = matchingNodeIds(graph, documents, select({ type: ['pdf', 'link'], date: ['2024'] }));
+    expect(Array.from(ids).sort()).toEqual(['a', 'p1', 'root']);
+  });
+});
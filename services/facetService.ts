@@ -0,0 +1,130 @@
+import { Document, GraphData, NodeType } from '../types';
+
+export type FacetKey = 'project' | 'tag' | 'type' | 'date' | 'source';
+export type DocumentSource = 'upload' | 'drive' | 'link' | 'other';
+
+// Selected values per facet. Values within a facet are alternatives (OR); facets combine with AND.
+export type FacetSelection = Record<FacetKey, string[]>;
+
+// dim: non-matching nodes stay in place but fade; hide: they are left out of the map
+export type FacetDisplayMode = 'dim' | 'hide';
+
+export interface FacetValue {
+  value: string;
+  label: string;
+  count: number; // Documents with this value that also match the other facets' selections
+}
+
+export interface Facet {
+  key: FacetKey;
+  title: string;
+  values: FacetValue[];
+}
+
+export const EMPTY_FACET_SELECTION: FacetSelection = { project: [], tag: [], type: [], date: [], source: [] };
+
+const FACET_TITLES: Record<FacetKey, string> = {
+  project: 'Project',
+  tag: 'Tag',
+  type: 'File type',
+  date: 'Year range',
+  source: 'Source'
+};
+
+const FACET_ORDER: FacetKey[] = ['source', 'project', 'type', 'tag', 'date'];
+
+const SOURCE_LABELS: Record<DocumentSource, string> = { upload: 'Upload', drive: 'Drive', link: 'Link', other: 'Other' };
+
+/**
+ * Where a document came from. Drive files are the ones with an external URL that are not plain web links;
+ * uploads carry their stored file. Everything else (sample data, imported outlines) is 'other'.
+ */
+export const documentSource = (doc: Document): DocumentSource =>
+  doc.type === 'link' ? 'link'
+    : doc.externalUrl ? 'drive'
+    : doc.fileUrl || doc.contentHash ? 'upload'
+    : 'other';
+
+/**
+ * True when the year lies between the lowest and highest selected year, so picking 2022 and 2024 also
+ * includes 2023. An empty selection has no range.
+ */
+export const isYearInRange = (year: string, selected: string[]) => {
+  const years = selected.map(Number).filter(y => !Number.isNaN(y));
+  if (years.length === 0) return false;
+  const value = Number(year);
+  return value >= Math.min(...years) && value <= Math.max(...years);
+};
+
+const facetValuesOf = (doc: Document, key: FacetKey): string[] => {
+  switch (key) {
+    case 'project': return [doc.project];
+    case 'tag': return doc.tags || [];
+    case 'type': return [doc.type];
+    // Bucketed by year; matchesFacet treats the selected years as one range
+    case 'date': return doc.date ? [doc.date.slice(0, 4)] : [];
+    case 'source': return [documentSource(doc)];
+  }
+};
+
+const matchesFacet = (doc: Document, key: FacetKey, selected: string[]) =>
+  selected.length === 0 || facetValuesOf(doc, key).some(value => key === 'date' ? isYearInRange(value, selected) : selected.includes(value));
+
+export const hasActiveFacets = (selection: FacetSelection) =>
+  FACET_ORDER.some(key => selection[key].length > 0);
+
+export const matchesFacets = (doc: Document, selection: FacetSelection) =>
+  FACET_ORDER.every(key => matchesFacet(doc, key, selection[key]));
+
+const compareValues = (key: FacetKey) => (a: FacetValue, b: FacetValue) => {
+  if (key === 'date') return b.value.localeCompare(a.value); // Newest year first
+  if (key === 'source') return Object.keys(SOURCE_LABELS).indexOf(a.value) - Object.keys(SOURCE_LABELS).indexOf(b.value);
+  return b.count - a.count || a.label.localeCompare(b.label);
+};
+
+/**
+ * Facets with per-value counts. Each facet is counted against the selections of the other facets only,
+ * so choosing a tag does not zero out the remaining tags.
+ */
+export const buildFacets = (documents: Document[], selection: FacetSelection): Facet[] =>
+  FACET_ORDER.map(key => {
+    const counts = new Map<string, number>();
+    documents.forEach(doc => {
+      const matchesOthers = FACET_ORDER.every(other => other === key || matchesFacet(doc, other, selection[other]));
+      facetValuesOf(doc, key).forEach(value => counts.set(value, (counts.get(value) || 0) + (matchesOthers ? 1 : 0)));
+    });
+    // Keep selected values listed even if nothing carries them any more
+    selection[key].forEach(value => { if (!counts.has(value)) counts.set(value, 0); });
+
+    const values = Array.from(counts, ([value, count]) => ({
+      value,
+      label: key === 'source' ? SOURCE_LABELS[value as DocumentSource] || value : value,
+      count
+    }));
+    return { key, title: FACET_TITLES[key], values: values.sort(compareValues(key)) };
+  }).filter(facet => facet.values.length > 0);
+
+/**
+ * Ids of graph nodes that pass the filters: matching document nodes, every node above them, and the root.
+ */
+export const matchingNodeIds = (graph: GraphData, documents: Document[], selection: FacetSelection): Set<string> => {
+  const docsById = new Map(documents.map(doc => [doc.id, doc]));
+  const parents = new Map<string, string[]>();
+  graph.links.forEach(link => {
+    const source = typeof link.source === 'object' ? link.source.id : link.source;
+    const target = typeof link.target === 'object' ? link.target.id : link.target;
+    parents.set(target, [...(parents.get(target) || []), source]);
+  });
+
+  const matching = new Set<string>(['root']);
+  const queue = graph.nodes
+    .filter(n => n.type === NodeType.DOCUMENT && docsById.has(n.id) && matchesFacets(docsById.get(n.id)!, selection))
+    .map(n => n.id);
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    if (matching.has(id)) continue;
+    matching.add(id);
+    (parents.get(id) || []).forEach(parent => queue.push(parent));
+  }
+  return matching;
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { addToVocabulary, buildVocabulary, damerauLevenshtein, findSimilarWords, maxEditsFor, removeFromVocabulary, scoreNameMatch } from './fuzzyMatch';
+
+describe('damerauLevenshtein', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(damerauLevenshtein('budget', 'budget')).toBe(0);
+    expect(damerauLevenshtein('budget', 'budgets')).toBe(1);
+    expect(damerauLevenshtein('budget', 'bdget')).toBe(1);
+    expect(damerauLevenshtein('kitten', 'sitting')).toBe(3);
+    expect(damerauLevenshtein('', 'abc')).toBe(3);
+  });
+
+  it('counts an adjacent transposition as one edit', () => {
+    expect(damerauLevenshtein('reprot', 'report')).toBe(1);
+    expect(damerauLevenshtein('ab', 'ba')).toBe(1);
+    // Optimal string alignment: a transposed pair is not edited again
+    expect(damerauLevenshtein('ca', 'abc')).toBe(3);
+  });
+
+  it('returns maxDistance + 1 once the limit is exceeded', () => {
+    expect(damerauLevenshtein('a', 'abcdef', 2)).toBe(3);
+    expect(damerauLevenshtein('abcdef', 'uvwxyz', 1)).toBe(2);
+    expect(damerauLevenshtein('reprot', 'report', 1)).toBe(1);
+  });
+});
+
+describe('maxEditsFor', () => {
+  it('allows no edits for short words and more for longer ones', () => {
+    expect(['ui', 'api', 'plan', 'budget', 'roadmap'].map(maxEditsFor)).toEqual([0, 0, 1, 1, 2]);
+  });
+});
+
+describe('vocabulary', () => {
+  it('counts words and forgets them when their count drops to zero', () => {
+    const vocabulary = buildVocabulary(['Budget plan', 'budget']);
+    expect(vocabulary.get('budget')).toBe(2);
+    removeFromVocabulary(vocabulary, ['budget', 'plan']);
+    expect(vocabulary.get('budget')).toBe(1);
+    expect(vocabulary.has('plan')).toBe(false);
+    addToVocabulary(vocabulary, ['plan']);
+    expect(vocabulary.get('plan')).toBe(1);
+  });
+});
+
+describe('findSimilarWords', () => {
+  const vocabulary = buildVocabulary(['roadmap roadmaps road', 'report reporting', 'planet plane plane', 'plants']);
+
+  it('returns prefix matches first, then typos by distance and frequency', () => {
+    expect(findSimilarWords('road', [vocabulary]).map(s => s.word)).toEqual(['roadmap', 'roadmaps']);
+    expect(findSimilarWords('reprot', [vocabulary])).toEqual([{ word: 'report', distance: 1, isPrefix: false }]);
+    expect(findSimilarWords('plant', [vocabulary], { prefix: false })).toEqual([
+      { word: 'plane', distance: 1, isPrefix: false },
+      { word: 'planet', distance: 1, isPrefix: false },
+      { word: 'plants', distance: 1, isPrefix: false }
+    ]);
+  });
+
+  it('skips prefix matching when asked or for very short words', () => {
+    expect(findSimilarWords('road', [vocabulary], { prefix: false }).map(s => s.word)).toEqual([]);
+    expect(findSimilarWords('ro', [vocabulary])).toEqual([]);
+  });
+
+  it('adds up frequencies across vocabularies', () => {
+    const other = buildVocabulary(['planet planet']);
+    expect(findSimilarWords('plant', [vocabulary, other], { prefix: false }).map(s => s.word)).toEqual(['planet', 'plane', 'plants']);
+  });
+});
+
+describe('scoreNameMatch', () => {
+  it('prefers exact over prefix over substring over fuzzy matches', () => {
+    const scores = ['Roadmap', 'Roadmap 2025', 'Product roadmap', 'Product raodmap'].map(name => scoreNameMatch(name, 'roadmap'));
+    expect(scores).toEqual([100, 80, 60, 35]);
+  });
+
+  it('needs every query word to match some word of the name', () => {
+    expect(scoreNameMatch('Quarterly budget review', 'budgt reviw')).toBe(30);
+    expect(scoreNameMatch('Quarterly budget review', 'budget hiring')).toBe(0);
+    expect(scoreNameMatch('Anything', '  ')).toBe(0);
+  });
+});
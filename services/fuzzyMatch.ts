@@ -0,0 +1,129 @@
+// Typo-tolerant word matching: Damerau-Levenshtein distance, prefix lookup and a word-frequency vocabulary.
+
+/**
+ * Word -> number of times it occurs in the indexed titles, tags or node names.
+ */
+export type Vocabulary = Map<string, number>;
+
+export interface SimilarWord {
+  word: string;
+  distance: number; // 0 for prefix matches
+  isPrefix: boolean;
+}
+
+// Prefix lookup only starts at this length; "a" or "de" would match half the vocabulary
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PREFIX_MATCHES = 10;
+
+export const splitWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+/**
+ * Edits allowed for a word: none for short words (too many false hits), one up to 6 letters, two beyond.
+ */
+export const maxEditsFor = (word: string) => (word.length <= 3 ? 0 : word.length <= 6 ? 1 : 2);
+
+/**
+ * Optimal string alignment distance (Damerau-Levenshtein with adjacent transpositions).
+ * Returns `maxDistance + 1` as soon as the distance is known to exceed `maxDistance`.
+ */
+export const damerauLevenshtein = (a: string, b: string, maxDistance = Infinity): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a === b) return 0;
+
+  // Three rolling rows: two rows back is needed for transpositions
+  let twoBack: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) value = Math.min(value, twoBack[j - 2] + 1);
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    twoBack = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+export const addToVocabulary = (vocabulary: Vocabulary, words: string[]) => {
+  words.forEach(word => vocabulary.set(word, (vocabulary.get(word) || 0) + 1));
+};
+
+export const removeFromVocabulary = (vocabulary: Vocabulary, words: string[]) => {
+  words.forEach(word => {
+    const count = (vocabulary.get(word) || 0) - 1;
+    if (count > 0) vocabulary.set(word, count);
+    else vocabulary.delete(word);
+  });
+};
+
+export const buildVocabulary = (texts: string[]): Vocabulary => {
+  const vocabulary: Vocabulary = new Map();
+  texts.forEach(text => addToVocabulary(vocabulary, splitWords(text)));
+  return vocabulary;
+};
+
+/**
+ * Vocabulary words that extend `word` or are within its edit budget, closest (then most frequent) first.
+ * The word itself is not returned.
+ */
+export const findSimilarWords = (word: string, vocabularies: Vocabulary[], options: { prefix?: boolean } = {}): SimilarWord[] => {
+  const maxEdits = maxEditsFor(word);
+  const usePrefix = options.prefix !== false && word.length >= MIN_PREFIX_LENGTH;
+  const found = new Map<string, SimilarWord & { frequency: number }>();
+  let prefixCount = 0;
+
+  vocabularies.forEach(vocabulary => vocabulary.forEach((frequency, candidate) => {
+    if (candidate === word) return;
+    const known = found.get(candidate);
+    if (known) { known.frequency += frequency; return; }
+
+    if (usePrefix && prefixCount < MAX_PREFIX_MATCHES && candidate.startsWith(word)) {
+      found.set(candidate, { word: candidate, distance: 0, isPrefix: true, frequency });
+      prefixCount++;
+      return;
+    }
+    if (maxEdits === 0) return;
+    const distance = damerauLevenshtein(word, candidate, maxEdits);
+    if (distance <= maxEdits) found.set(candidate, { word: candidate, distance, isPrefix: false, frequency });
+  }));
+
+  return Array.from(found.values())
+    .sort((a, b) => a.distance - b.distance || b.frequency - a.frequency || a.word.length - b.word.length)
+    .map(({ word, distance, isPrefix }) => ({ word, distance, isPrefix }));
+};
+
+/**
+ * How well a node name matches a query, for the local node search. Exact beats prefix beats substring
+ * beats fuzzy; 0 means no match. In a fuzzy match every query word must be close to some word of the name.
+ */
+export const scoreNameMatch = (name: string, query: string): number => {
+  const lowerName = name.toLowerCase();
+  const lowerQuery = query.toLowerCase().trim();
+  if (!lowerQuery) return 0;
+  if (lowerName === lowerQuery) return 100;
+  if (lowerName.startsWith(lowerQuery)) return 80;
+  if (lowerName.includes(lowerQuery)) return 60;
+
+  const nameWords = splitWords(name);
+  const queryWords = splitWords(query);
+  if (queryWords.length === 0 || nameWords.length === 0) return 0;
+
+  let totalDistance = 0;
+  for (const queryWord of queryWords) {
+    const maxEdits = maxEditsFor(queryWord);
+    let best = Infinity;
+    for (const nameWord of nameWords) {
+      if (queryWord.length >= MIN_PREFIX_LENGTH && nameWord.startsWith(queryWord)) { best = 0; break; }
+      best = Math.min(best, damerauLevenshtein(queryWord, nameWord, maxEdits));
+    }
+    if (best > maxEdits) return 0;
+    totalDistance += best;
+  }
+  return 40 - totalDistance * 5;
+};
@@ -0,0 +1,73 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MOCK_DOCUMENTS } from '../constants';
+import { NodeType } from '../types';
+import { AIProvider, mockAIProvider } from './aiProvider';
+import { getDocumentSummary, searchAndGenerateGraph } from './geminiService';
+import { repairGeneratedGraph } from './graphRepair';
+import { createSearchIndex, syncSearchIndex } from './searchIndex';
+
+const indexedDocuments = () => {
+  const index = createSearchIndex();
+  syncSearchIndex(index, MOCK_DOCUMENTS);
+  return index;
+};
+
+const failingProvider: AIProvider = {
+  ...mockAIProvider,
+  id: 'failing',
+  label: 'Failing',
+  generateGraph: async () => { throw new Error('quota exceeded'); },
+  summarize: async () => { throw new Error('quota exceeded'); }
+};
+
+describe('searchAndGenerateGraph with the mock provider', () => {
+  it('groups the matching documents by project and cites their passages', async () => {
+    const result = await searchAndGenerateGraph('authentication', MOCK_DOCUMENTS, indexedDocuments(), mockAIProvider);
+
+    expect(result.answeredBy).toBe('ai');
+    const documentNode = result.nodes.find(n => n.id === '1');
+    expect(documentNode?.type).toBe(NodeType.DOCUMENT);
+    expect(documentNode?.description).toContain('authentication');
+    expect(documentNode?.sources).toHaveLength(1);
+    expect(result.links).toContainEqual({ source: 'mock-project-project-alpha', target: '1' });
+  });
+
+  it('gives the same graph for the same query', async () => {
+    const index = indexedDocuments();
+    const first = await searchAndGenerateGraph('marketing strategy', MOCK_DOCUMENTS, index, mockAIProvider);
+    const second = await searchAndGenerateGraph('marketing strategy', MOCK_DOCUMENTS, index, mockAIProvider);
+    expect(second.nodes).toEqual(first.nodes);
+    expect(second.links).toEqual(first.links);
+  });
+
+  it('produces a graph that passes repair without changes', async () => {
+    const result = await searchAndGenerateGraph('authentication', MOCK_DOCUMENTS, indexedDocuments(), mockAIProvider);
+    const { graph, report } = repairGeneratedGraph(result, {
+      query: 'authentication',
+      documents: MOCK_DOCUMENTS,
+      reservedIds: new Set(['root']),
+      namespace: 'search-test',
+      passages: result.context?.passages
+    });
+    expect(report.repairs).toEqual([]);
+    expect(graph.nodes.find(n => n.id === '1')?.citations).toHaveLength(1);
+  });
+
+  it('falls back to the top ranked documents when the provider fails', async () => {
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const result = await searchAndGenerateGraph('authentication', MOCK_DOCUMENTS, indexedDocuments(), failingProvider);
+    logError.mockRestore();
+    expect(result.answeredBy).toBe('fallback');
+    expect(result.nodes[0].id).toBe('1');
+    expect(result.links.every(link => link.source === 'root')).toBe(true);
+    expect(result.context).toBeUndefined();
+  });
+});
+
+describe('getDocumentSummary', () => {
+  it('summarizes with the opening sentences and hides provider errors', async () => {
+    const doc = { ...MOCK_DOCUMENTS[0], content: 'First sentence. Second sentence. Third sentence.' };
+    expect(await getDocumentSummary(doc, mockAIProvider)).toBe('First sentence. Second sentence.');
+    expect(await getDocumentSummary(doc, failingProvider)).toBe('Could not generate summary.');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Document, Link, NodeType } from '../types';
+import { GraphRepairContext, repairGeneratedGraph } from './graphRepair';
+
+const doc = (id: string, title: string): Document => ({
+  id, title, content: '', project: 'Alpha', date: '2024-01-01', type: 'pdf', tags: []
+});
+
+const context: GraphRepairContext = {
+  query: 'auth',
+  documents: [doc('d1', 'Login Spec'), doc('d2', 'OAuth Notes')],
+  reservedIds: new Set(['root', 'p-existing']),
+  namespace: 'search-1'
+};
+
+const repair = (raw: unknown) => repairGeneratedGraph(raw, context);
+const linkList = (links: Link[]) => links.map(l => `${l.source}->${l.target}`);
+
+describe('repairGeneratedGraph', () => {
+  it('namespaces group ids and sizes nodes by type', () => {
+    const { graph, report } = repair({
+      nodes: [{ id: 'p1', name: 'Security', type: 'project' }, { id: 'd1', name: 'Login Spec', type: 'DOCUMENT' }],
+      links: [{ source: 'p1', target: 'd1' }]
+    });
+    expect(graph.nodes).toEqual([
+      { id: 'search-1:p1', name: 'Security', type: NodeType.PROJECT, val: 15, description: undefined },
+      { id: 'd1', name: 'Login Spec', type: NodeType.DOCUMENT, val: 10, description: undefined }
+    ]);
+    expect(linkList(graph.links)).toEqual(['search-1:p1->d1', 'root->search-1:p1']);
+    expect(report.repairs).toEqual([]);
+  });
+
+  it('keeps generated groups apart from ids already on the map', () => {
+    const { graph, report } = repair({ nodes: [{ id: 'p-existing', name: 'Other', type: 'PROJECT' }, { id: 'd2', name: 'Stray', type: 'CATEGORY' }], links: [] });
+    expect(graph.nodes.map(n => n.id)).toEqual(['search-1:p-existing', 'search-1:d2']);
+    expect(report.counts['id-collision']).toBe(2);
+  });
+
+  it('drops unknown documents, matches documents by title and fixes bad types', () => {
+    const { graph, report } = repair({
+      nodes: [
+        { id: 'made-up', name: 'Imaginary Report', type: 'DOCUMENT' },
+        { id: 'x9', name: 'oauth  notes', type: 'DOCUMENT' },
+        { id: 'd1', name: 'Login Spec', type: 'FILE' },
+        { name: 'No id' },
+        'not a node'
+      ],
+      links: []
+    });
+    expect(graph.nodes.map(n => [n.id, n.type])).toEqual([['d2', NodeType.DOCUMENT], ['d1', NodeType.DOCUMENT]]);
+    expect(report.counts).toMatchObject({ 'unknown-document': 1, 'matched-document': 1, 'invalid-type': 1, 'invalid-node': 2 });
+  });
+
+  it('merges groups with the same name and drops repeated ids', () => {
+    const { graph, report } = repair({
+      nodes: [
+        { id: 'g1', name: 'Security', type: 'CATEGORY' },
+        { id: 'g2', name: ' security ', type: 'CATEGORY' },
+        { id: 'g1', name: 'Again', type: 'CATEGORY' },
+        { id: 'd1', type: 'DOCUMENT' }
+      ],
+      links: [{ source: 'g1', target: 'g2' }, { source: 'g2', target: 'd1' }]
+    });
+    expect(graph.nodes.map(n => n.id)).toEqual(['search-1:g1', 'd1']);
+    // The g1 -> g2 link became a self-link through the merge and is dropped silently
+    expect(linkList(graph.links)).toEqual(['search-1:g1->d1', 'root->search-1:g1']);
+    expect(report.counts).toEqual({ 'duplicate-name': 1, 'duplicate-id': 1 });
+  });
+
+  it('drops links that dangle, repeat, lack endpoints or close a cycle', () => {
+    const { graph, report } = repair({
+      nodes: [{ id: 'a', name: 'A', type: 'CATEGORY' }, { id: 'b', name: 'B', type: 'CATEGORY' }, { id: 'd1', type: 'DOCUMENT' }],
+      links: [
+        { source: 'Root', target: 'a' },
+        { source: 'a', target: 'b' },
+        { source: 'b', target: 'a' },
+        { source: 'b', target: 'root' },
+        { source: 'a', target: 'b' },
+        { source: 'b', target: 'ghost' },
+        { source: 'b' },
+        { source: 'b', target: 'd1' }
+      ]
+    });
+    expect(linkList(graph.links)).toEqual(['root->search-1:a', 'search-1:a->search-1:b', 'search-1:b->d1']);
+    expect(report.counts).toEqual({ cycle: 2, 'duplicate-link': 1, 'dangling-link': 1, 'invalid-link': 1 });
+  });
+
+  it('links orphans to root and reports only orphaned documents', () => {
+    const { graph, report } = repair({ nodes: [{ id: 'g', name: 'Group', type: 'CATEGORY' }, { id: 'd1', type: 'DOCUMENT' }], links: [] });
+    expect(linkList(graph.links)).toEqual(['root->search-1:g', 'root->d1']);
+    expect(report.repairs).toEqual([{ kind: 'reattached', message: '"Login Spec" had no parent, linked to root', nodeId: 'd1' }]);
+  });
+
+  it('turns cited passages into document ranges and drops unknown sources', () => {
+    const passages = [
+      { id: 'P1', docId: 'd1', start: 0, end: 120, text: '', score: 1 },
+      { id: 'P2', docId: 'd1', start: 100, end: 240, text: '', score: 1 }
+    ];
+    const { graph, report } = repairGeneratedGraph({
+      nodes: [{ id: 'd1', type: 'DOCUMENT', sources: ['P1', '[P2]', 'P1', 'P9'] }, { id: 'g', name: 'Group', type: 'CATEGORY', sources: ['P9'] }],
+      links: []
+    }, { ...context, passages });
+    expect(graph.nodes.map(n => n.citations)).toEqual([
+      [{ docId: 'd1', start: 0, end: 120 }, { docId: 'd1', start: 100, end: 240 }],
+      undefined
+    ]);
+    expect(report.counts['unknown-source']).toBe(2);
+  });
+
+  it('treats output that is not a graph as empty', () => {
+    expect(repair('garbage').graph).toEqual({ nodes: [], links: [] });
+    expect(repair({ nodes: 'x', links: null }).graph).toEqual({ nodes: [], links: [] });
+  });
+});
@@ -0,0 +1,232 @@
+import { Document, GraphData, Link, Node, NodeType, PassageCitation } from '../types';
+import { ContextPassage } from './contextBuilder';
+
+export type GraphRepairKind =
+  | 'invalid-node' // Not an object or without an id; dropped
+  | 'invalid-type' // Unknown node type; replaced
+  | 'unknown-document' // Document node that matches no document; dropped
+  | 'matched-document' // Document node matched to a document by title; id replaced
+  | 'id-collision' // Id already used by the map or a document; kept apart by the namespace
+  | 'duplicate-id' // Second node with the same id; dropped
+  | 'duplicate-name' // Second group with the same name and type; merged into the first
+  | 'invalid-link' // Link without string endpoints; dropped
+  | 'dangling-link' // Link to a node that does not exist; dropped
+  | 'duplicate-link'
+  | 'cycle' // Link that would close a loop; dropped
+  | 'unknown-source' // Cited passage that was not in the context; dropped
+  | 'reattached'; // Node without a parent; linked to root
+
+export interface GraphRepair {
+  kind: GraphRepairKind;
+  message: string;
+  nodeId?: string;
+  link?: { source: string, target: string };
+}
+
+export interface GraphRepairReport {
+  query: string;
+  repairs: GraphRepair[];
+  counts: Partial<Record<GraphRepairKind, number>>;
+}
+
+export interface GraphRepairContext {
+  query: string;
+  documents: Document[];
+  reservedIds: Set<string>; // Ids of nodes already on the map that generated groups must not take over
+  namespace: string; // Prefix for ids of generated groups, unique per search run
+  passages?: ContextPassage[]; // What node sources refer to
+}
+
+const NODE_SIZES: Partial<Record<NodeType, number>> = {
+  [NodeType.PROJECT]: 15,
+  [NodeType.DOCUMENT]: 10,
+  [NodeType.CATEGORY]: 12
+};
+// The model may only produce these; the root is added by the client
+const GENERATED_TYPES = new Set<string>([NodeType.PROJECT, NodeType.DOCUMENT, NodeType.CATEGORY]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const asString = (value: unknown): string | undefined => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+// The model is told not to output the root, but sometimes links to it by a different spelling
+const isRootId = (id: string) => id.toLowerCase() === 'root';
+
+/**
+ * Turns raw model output into a graph that is safe to merge: every document node is a real document,
+ * generated ids cannot collide with the map, links point at existing nodes without loops, and every node
+ * hangs off `root`. Each change is listed in the report.
+ */
+export const repairGeneratedGraph = (raw: unknown, context: GraphRepairContext): { graph: GraphData, report: GraphRepairReport } => {
+  const repairs: GraphRepair[] = [];
+  const repair = (kind: GraphRepairKind, message: string, details: Omit<GraphRepair, 'kind' | 'message'> = {}) =>
+    repairs.push({ kind, message, ...details });
+
+  const docsById = new Map(context.documents.map(doc => [doc.id, doc]));
+  const docsByTitle = new Map(context.documents.map(doc => [normalizeName(doc.title), doc]));
+
+  const passagesById = new Map((context.passages || []).map(p => [p.id, p]));
+  // Sources become citations of document ranges; the passage ids mean nothing outside this search
+  const citationsFor = (rawNode: Record<string, unknown>, nodeId: string): PassageCitation[] | undefined => {
+    if (!Array.isArray(rawNode.sources)) return undefined;
+    const citations: PassageCitation[] = [];
+    rawNode.sources.forEach(source => {
+      const passage = typeof source === 'string' ? passagesById.get(source.trim().replace(/^\[|\]$/g, '')) : undefined;
+      if (!passage) {
+        repair('unknown-source', `Node "${nodeId}" cites ${JSON.stringify(source)}, which was not provided`, { nodeId });
+        return;
+      }
+      if (!citations.some(c => c.docId === passage.docId && c.start === passage.start)) {
+        citations.push({ docId: passage.docId, start: passage.start, end: passage.end });
+      }
+    });
+    return citations.length > 0 ? citations : undefined;
+  };
+
+  const rawNodes: unknown[] = isRecord(raw) && Array.isArray(raw.nodes) ? raw.nodes : [];
+  const rawLinks: unknown[] = isRecord(raw) && Array.isArray(raw.links) ? raw.links : [];
+
+  // --- NODES ---
+  const nodes: Node[] = [];
+  const usedIds = new Set<string>(['root']);
+  const groupsByName = new Map<string, string>(); // type + name -> id of the first group
+  const idMap = new Map<string, string>(); // id in the model output -> id in the repaired graph
+
+  rawNodes.forEach((rawNode, position) => {
+    const rawId = isRecord(rawNode) ? asString(rawNode.id) : undefined;
+    if (!isRecord(rawNode) || !rawId) {
+      repair('invalid-node', `Node #${position + 1} has no id`);
+      return;
+    }
+    if (isRootId(rawId)) return; // The client supplies the root
+    if (idMap.has(rawId)) {
+      repair('duplicate-id', `Node "${rawId}" appears more than once`, { nodeId: rawId });
+      return;
+    }
+
+    let type = asString(rawNode.type)?.toUpperCase() as NodeType | undefined;
+    if (!type || !GENERATED_TYPES.has(type)) {
+      const replacement = docsById.has(rawId) ? NodeType.DOCUMENT : NodeType.CATEGORY;
+      repair('invalid-type', `Node "${rawId}" has type "${rawNode.type}", using ${replacement}`, { nodeId: rawId });
+      type = replacement;
+    }
+    const name = asString(rawNode.name);
+    const description = asString(rawNode.description);
+
+    if (type === NodeType.DOCUMENT) {
+      // Document node ids are document ids; anything else would open nothing
+      let doc = docsById.get(rawId);
+      if (!doc && name) {
+        doc = docsByTitle.get(normalizeName(name));
+        if (doc) repair('matched-document', `Node "${rawId}" matched to document "${doc.title}" by title`, { nodeId: doc.id });
+      }
+      if (!doc) {
+        repair('unknown-document', `Node "${rawId}" (${name || 'unnamed'}) is not a known document`, { nodeId: rawId });
+        return;
+      }
+      if (usedIds.has(doc.id)) {
+        repair('duplicate-id', `Document "${doc.title}" appears more than once`, { nodeId: doc.id });
+        idMap.set(rawId, doc.id);
+        return;
+      }
+      usedIds.add(doc.id);
+      idMap.set(rawId, doc.id);
+      nodes.push({ id: doc.id, name: doc.title, type, val: NODE_SIZES[type]!, description, citations: citationsFor(rawNode, doc.id) });
+      return;
+    }
+
+    const groupName = name || rawId;
+    const nameKey = `${type}:${normalizeName(groupName)}`;
+    const existingGroup = groupsByName.get(nameKey);
+    if (existingGroup) {
+      repair('duplicate-name', `${type} "${groupName}" appears more than once, merged`, { nodeId: existingGroup });
+      idMap.set(rawId, existingGroup);
+      return;
+    }
+
+    if (context.reservedIds.has(rawId) || docsById.has(rawId)) {
+      repair('id-collision', `Node id "${rawId}" is already in use`, { nodeId: rawId });
+    }
+    let id = `${context.namespace}:${rawId}`;
+    for (let suffix = 2; usedIds.has(id) || context.reservedIds.has(id); suffix++) id = `${context.namespace}:${rawId}-${suffix}`;
+
+    usedIds.add(id);
+    idMap.set(rawId, id);
+    groupsByName.set(nameKey, id);
+    nodes.push({ id, name: groupName, type, val: NODE_SIZES[type]!, description, citations: citationsFor(rawNode, id) });
+  });
+
+  // --- LINKS ---
+  const links: Link[] = [];
+  const childrenOf = new Map<string, string[]>();
+  const linkKeys = new Set<string>();
+
+  const reaches = (from: string, to: string): boolean => {
+    const stack = [from];
+    const seen = new Set<string>();
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (id === to) return true;
+      if (seen.has(id)) continue;
+      seen.add(id);
+      stack.push(...(childrenOf.get(id) || []));
+    }
+    return false;
+  };
+
+  const resolve = (id: string) => isRootId(id) ? 'root' : idMap.get(id);
+
+  rawLinks.forEach(rawLink => {
+    const rawSource = isRecord(rawLink) ? asString(rawLink.source) : undefined;
+    const rawTarget = isRecord(rawLink) ? asString(rawLink.target) : undefined;
+    if (!rawSource || !rawTarget) {
+      repair('invalid-link', `Link ${JSON.stringify(rawLink)} has no source or target`);
+      return;
+    }
+    const source = resolve(rawSource);
+    const target = resolve(rawTarget);
+    const link = { source: rawSource, target: rawTarget };
+    if (!source || !target) {
+      repair('dangling-link', `Link ${rawSource} -> ${rawTarget} points at a missing node`, { link });
+      return;
+    }
+    // Merging duplicate groups can turn a link into a self-link; that is expected, not worth a report
+    if (source === target && rawSource !== rawTarget && idMap.get(rawSource) === idMap.get(rawTarget)) return;
+    if (target === 'root' || reaches(target, source)) {
+      repair('cycle', `Link ${rawSource} -> ${rawTarget} would close a loop`, { link });
+      return;
+    }
+    const key = `${source}->${target}`;
+    if (linkKeys.has(key)) {
+      repair('duplicate-link', `Link ${rawSource} -> ${rawTarget} appears more than once`, { link });
+      return;
+    }
+    linkKeys.add(key);
+    childrenOf.set(source, [...(childrenOf.get(source) || []), target]);
+    links.push({ source, target, value: 1 });
+  });
+
+  // --- ORPHANS ---
+  const linkedTargets = new Set(links.map(l => l.target as string));
+  nodes.forEach(node => {
+    if (linkedTargets.has(node.id)) return;
+    // Rule 1 of the prompt allows linking straight to root by leaving the link out, so only documents are reported
+    if (node.type === NodeType.DOCUMENT) repair('reattached', `"${node.name}" had no parent, linked to root`, { nodeId: node.id });
+    links.push({ source: 'root', target: node.id, value: 1 });
+  });
+
+  const counts: Partial<Record<GraphRepairKind, number>> = {};
+  repairs.forEach(r => { counts[r.kind] = (counts[r.kind] || 0) + 1; });
+
+  return { graph: { nodes, links }, report: { query: context.query, repairs, counts } };
+};
+
+/**
+ * One collapsed console group per search that needed repairs.
+ */
+export const logRepairReport = (report: GraphRepairReport) => {
+  if (report.repairs.length === 0) return;
+  console.groupCollapsed(`Repaired generated graph for "${report.query}" (${report.repairs.length} change${report.repairs.length === 1 ? '' : 's'})`);
+  console.table(report.repairs.map(({ kind, message, nodeId }) => ({ kind, message, nodeId })));
+  console.info(report);
+  console.groupEnd();
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Node, NodeType } from '../types';
+import { EMPTY_HISTORY, MAX_HISTORY_ENTRIES, WorkspaceSnapshot, jumpToHistoryEntry, patchHistoryNode, recordHistoryEntry, redoHistory, undoHistory } from './historyService';
+
+// A workspace whose root node carries the given name, so snapshots are easy to tell apart
+const snapshot = (name: string): WorkspaceSnapshot => ({
+  graph: { nodes: [{ id: 'root', name, type: NodeType.ROOT, val: 20 }], links: [] },
+  documents: []
+});
+const rootName = (ws: WorkspaceSnapshot) => ws.graph.nodes[0].name;
+
+const recordSteps = (...names: string[]) => names.reduce(
+  (history, name, i) => recordHistoryEntry(history, { label: `Rename to ${name}`, before: snapshot(i === 0 ? 'start' : names[i - 1]), after: snapshot(name) }),
+  EMPTY_HISTORY
+);
+
+describe('history', () => {
+  it('undoes and redoes one step at a time', () => {
+    const history = recordSteps('a', 'b');
+    const undone = undoHistory(history)!;
+    expect(rootName(undone.snapshot)).toBe('a');
+    const redone = redoHistory(undone.history)!;
+    expect(rootName(redone.snapshot)).toBe('b');
+    expect(redone.history.future).toEqual([]);
+  });
+
+  it('returns null when there is nothing to undo or redo', () => {
+    expect(undoHistory(EMPTY_HISTORY)).toBeNull();
+    expect(redoHistory(recordSteps('a'))).toBeNull();
+  });
+
+  it('drops the redo stack when a new step is recorded', () => {
+    const undone = undoHistory(recordSteps('a', 'b'))!.history;
+    const history = recordHistoryEntry(undone, { label: 'Rename to c', before: snapshot('a'), after: snapshot('c') });
+    expect(history.future).toEqual([]);
+    expect(history.past.map(e => e.label)).toEqual(['Rename to a', 'Rename to c']);
+  });
+
+  it('merges steps of the same group into one undo step', () => {
+    let history = recordHistoryEntry(EMPTY_HISTORY, { label: 'Upload', before: snapshot('start'), after: snapshot('a'), groupId: 'g1' });
+    history = recordHistoryEntry(history, { label: 'Expand', before: snapshot('a'), after: snapshot('b'), groupId: 'g1' });
+    expect(history.past).toHaveLength(1);
+    expect(history.past[0].label).toBe('Upload');
+    expect(rootName(undoHistory(history)!.snapshot)).toBe('start');
+  });
+
+  it('keeps at most MAX_HISTORY_ENTRIES steps', () => {
+    const names = Array.from({ length: MAX_HISTORY_ENTRIES + 5 }, (_, i) => `n${i}`);
+    const history = recordSteps(...names);
+    expect(history.past).toHaveLength(MAX_HISTORY_ENTRIES);
+    expect(history.past[0].label).toBe('Rename to n5');
+  });
+
+  it('jumps backwards and forwards to the state after an entry', () => {
+    const history = recordSteps('a', 'b', 'c');
+    const back = jumpToHistoryEntry(history, history.past[0].id)!;
+    expect(rootName(back.snapshot)).toBe('a');
+    expect(back.history.future).toHaveLength(2);
+    const forward = jumpToHistoryEntry(back.history, history.past[2].id)!;
+    expect(rootName(forward.snapshot)).toBe('c');
+    expect(jumpToHistoryEntry(history, 'missing')).toBeNull();
+  });
+});
+
+describe('patchHistoryNode', () => {
+  const folder = (query: string, resultIds: string[]): Node => ({
+    id: 'smart-1',
+    name: 'Smart',
+    type: NodeType.CATEGORY,
+    val: 18,
+    smartFolder: { query, resultIds, refreshedAt: '2026-01-01T00:00:00.000Z' }
+  });
+  const folderSnapshot = (node: Node): WorkspaceSnapshot => ({ graph: { nodes: [node], links: [] }, documents: [] });
+
+  it('stamps the node in every snapshot so undo does not bring back old results', () => {
+    const history = recordHistoryEntry(EMPTY_HISTORY, {
+      label: 'Rename',
+      before: folderSnapshot(folder('auth', ['1'])),
+      after: folderSnapshot({ ...folder('auth', ['1']), name: 'Renamed' })
+    });
+    const stamp = (node: Node): Node => ({ ...node, smartFolder: { ...node.smartFolder!, resultIds: ['1', '2'], refreshedAt: 'later' } });
+    const patched = patchHistoryNode(history, 'smart-1', stamp);
+
+    const undone = undoHistory(patched)!;
+    expect(undone.snapshot.graph.nodes[0].smartFolder).toEqual({ query: 'auth', resultIds: ['1', '2'], refreshedAt: 'later' });
+    expect(undone.snapshot.graph.nodes[0].name).toBe('Smart');
+  });
+});
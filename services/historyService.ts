@@ -0,0 +1,136 @@
+import { Document, GraphData, Node } from '../types';
+
+// Everything an undoable command is allowed to change
+export interface WorkspaceSnapshot {
+  graph: GraphData;
+  documents: Document[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  timestamp: number;
+  groupId?: string; // Entries recorded inside the same group collapse into one undo step
+  before: WorkspaceSnapshot;
+  after: WorkspaceSnapshot;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// Oldest steps are dropped beyond this depth to bound memory
+export const MAX_HISTORY_ENTRIES = 100;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+export const createHistoryGroupId = () => `group-${Date.now()}-${Math.floor(Math.random() * 100000)}`;
+
+/**
+ * Records a mutation. A new mutation invalidates the redo stack.
+ * If the previous entry belongs to the same group, the two are merged so they undo as one step.
+ */
+export const recordHistoryEntry = (
+  history: HistoryState,
+  entry: { label: string; before: WorkspaceSnapshot; after: WorkspaceSnapshot; groupId?: string }
+): HistoryState => {
+  const last = history.past[history.past.length - 1];
+
+  if (entry.groupId && last && last.groupId === entry.groupId) {
+    const merged: HistoryEntry = { ...last, after: entry.after, timestamp: Date.now() };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  const newEntry: HistoryEntry = {
+    id: `history-${Date.now()}-${Math.floor(Math.random() * 100000)}`,
+    label: entry.label,
+    timestamp: Date.now(),
+    groupId: entry.groupId,
+    before: entry.before,
+    after: entry.after
+  };
+
+  return {
+    past: [...history.past, newEntry].slice(-MAX_HISTORY_ENTRIES),
+    future: []
+  };
+};
+
+/**
+ * Steps back one entry. Returns null when there is nothing to undo.
+ */
+export const undoHistory = (history: HistoryState): { history: HistoryState; snapshot: WorkspaceSnapshot } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    snapshot: entry.before
+  };
+};
+
+/**
+ * Re-applies the most recently undone entry. Returns null when there is nothing to redo.
+ */
+export const redoHistory = (history: HistoryState): { history: HistoryState; snapshot: WorkspaceSnapshot } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+    snapshot: entry.after
+  };
+};
+
+/**
+ * Moves to the state right after the given entry, undoing or redoing as many steps as needed.
+ */
+export const jumpToHistoryEntry = (history: HistoryState, entryId: string): { history: HistoryState; snapshot: WorkspaceSnapshot } | null => {
+  const pastIndex = history.past.findIndex(e => e.id === entryId);
+  if (pastIndex !== -1) {
+    const kept = history.past.slice(0, pastIndex + 1);
+    const undone = history.past.slice(pastIndex + 1);
+    return {
+      history: { past: kept, future: [...undone, ...history.future] },
+      snapshot: kept[kept.length - 1].after
+    };
+  }
+
+  const futureIndex = history.future.findIndex(e => e.id === entryId);
+  if (futureIndex !== -1) {
+    const redone = history.future.slice(0, futureIndex + 1);
+    return {
+      history: { past: [...history.past, ...redone], future: history.future.slice(futureIndex + 1) },
+      snapshot: redone[redone.length - 1].after
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Applies a background update (e.g. finished text extraction) to a document in every snapshot,
+ * so undo/redo never brings back stale content. Snapshots without the document are left untouched.
+ */
+export const patchHistoryDocument = (history: HistoryState, documentId: string, updates: Partial<Document>): HistoryState => {
+  const patchSnapshot = (snapshot: WorkspaceSnapshot): WorkspaceSnapshot =>
+    snapshot.documents.some(d => d.id === documentId)
+      ? { ...snapshot, documents: snapshot.documents.map(d => d.id === documentId ? { ...d, ...updates } : d) }
+      : snapshot;
+  const patchEntry = (entry: HistoryEntry): HistoryEntry => ({ ...entry, before: patchSnapshot(entry.before), after: patchSnapshot(entry.after) });
+
+  return { past: history.past.map(patchEntry), future: history.future.map(patchEntry) };
+};
+
+/**
+ * Node counterpart of patchHistoryDocument, for background updates such as smart folder refresh stamps.
+ * `update` sees each snapshot's own version of the node and returns it unchanged where it does not apply.
+ */
+export const patchHistoryNode = (history: HistoryState, nodeId: string, update: (node: Node) => Node): HistoryState => {
+  const patchSnapshot = (snapshot: WorkspaceSnapshot): WorkspaceSnapshot =>
+    snapshot.graph.nodes.some(n => n.id === nodeId)
+      ? { ...snapshot, graph: { ...snapshot.graph, nodes: snapshot.graph.nodes.map(n => n.id === nodeId ? update(n) : n) } }
+      : snapshot;
+  const patchEntry = (entry: HistoryEntry): HistoryEntry => ({ ...entry, before: patchSnapshot(entry.before), after: patchSnapshot(entry.after) });
+
+  return { past: history.past.map(patchEntry), future: history.future.map(patchEntry) };
+};
@@ -0,0 +1,193 @@
+export type ImageExportArea = 'view' | 'full';
+export type PngScale = 1 | 2 | 4;
+
+export interface SvgExportOptions {
+  area: ImageExportArea;
+  hideScenery: boolean;
+  subtreeIds?: Set<string>; // When set, only these nodes (and links between them) are exported
+  backgroundColor?: string | null; // null keeps the background transparent
+}
+
+export interface SvgExportResult {
+  svgText: string;
+  width: number;
+  height: number;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// Padding around the graph extent so labels and glows are not clipped
+const EXTENT_PADDING = 60;
+
+// Browsers refuse canvases much larger than this on either side
+const MAX_CANVAS_SIZE = 16384;
+
+// Layers that only exist for the Seed-mode landscape or for interaction
+const SCENERY_SELECTORS = ['.bg-layer', '.particles-layer', '.shadow-layer'];
+const INTERACTION_SELECTORS = ['.hint-layer', '.expand-btn'];
+
+interface Box { x: number; y: number; width: number; height: number; }
+
+const unionBoxes = (boxes: Box[]): Box | null => {
+  const valid = boxes.filter(b => b.width > 0 || b.height > 0);
+  if (valid.length === 0) return null;
+  const minX = Math.min(...valid.map(b => b.x));
+  const minY = Math.min(...valid.map(b => b.y));
+  const maxX = Math.max(...valid.map(b => b.x + b.width));
+  const maxY = Math.max(...valid.map(b => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+/**
+ * Bounding box of a node group in graph coordinates (its local box shifted by its translate()).
+ */
+const nodeGroupBox = (el: SVGGElement): Box => {
+  const box = el.getBBox();
+  const matrix = el.transform.baseVal.consolidate()?.matrix;
+  return { x: box.x + (matrix?.e || 0), y: box.y + (matrix?.f || 0), width: box.width, height: box.height };
+};
+
+const isExportedLink = (el: Element, subtreeIds?: Set<string>) => {
+  if (!subtreeIds) return true;
+  return subtreeIds.has(el.getAttribute('data-source') || '') && subtreeIds.has(el.getAttribute('data-target') || '');
+};
+
+/**
+ * Measures the graph (or subtree) extent on the live SVG, in the coordinate space of `.mindmap-group`.
+ */
+const measureGraphExtent = (svg: SVGSVGElement, subtreeIds?: Set<string>): Box | null => {
+  const nodeBoxes = Array.from(svg.querySelectorAll<SVGGElement>('.node-group'))
+    .filter(el => !subtreeIds || subtreeIds.has(el.getAttribute('data-node-id') || ''))
+    .map(nodeGroupBox);
+
+  const linkBoxes = Array.from(svg.querySelectorAll<SVGGElement>('.link-group'))
+    .filter(el => isExportedLink(el, subtreeIds))
+    .map(el => el.getBBox());
+
+  // The Seed-mode trunk belongs to the whole tree, not to a subtree
+  const trunkBoxes = subtreeIds ? [] : Array.from(svg.querySelectorAll<SVGGraphicsElement>('.bark-core')).map(el => el.getBBox());
+
+  return unionBoxes([...nodeBoxes, ...linkBoxes, ...trunkBoxes]);
+};
+
+/**
+ * Remote images would taint the canvas when rasterizing, so they are inlined as data URLs (or dropped).
+ */
+const inlineImages = async (root: SVGSVGElement) => {
+  const images = Array.from(root.querySelectorAll('image'));
+  await Promise.all(images.map(async img => {
+    const href = img.getAttribute('href') || img.getAttributeNS(XLINK_NS, 'href');
+    if (!href || href.startsWith('data:')) return;
+    try {
+      const blob = await (await fetch(href)).blob();
+      const dataUrl = await new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result));
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      });
+      img.setAttribute('href', dataUrl);
+    } catch (e) {
+      console.warn('Dropping image that could not be embedded in the export', href, e);
+      img.remove();
+    }
+  }));
+};
+
+/**
+ * Serializes the rendered mind map into a standalone SVG document.
+ * The clone keeps the original <defs> (gradients, filters) so it renders the same outside the app.
+ */
+export const exportMindMapSvg = async (svg: SVGSVGElement, options: SvgExportOptions): Promise<SvgExportResult> => {
+  const liveGroup = svg.querySelector<SVGGElement>('.mindmap-group');
+  if (!liveGroup) throw new Error('The mind map has not been rendered yet.');
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const group = clone.querySelector<SVGGElement>('.mindmap-group')!;
+
+  INTERACTION_SELECTORS.forEach(sel => clone.querySelectorAll(sel).forEach(el => el.remove()));
+  if (options.hideScenery) SCENERY_SELECTORS.forEach(sel => clone.querySelectorAll(sel).forEach(el => el.remove()));
+
+  if (options.subtreeIds) {
+    const ids = options.subtreeIds;
+    clone.querySelectorAll('.node-group').forEach(el => { if (!ids.has(el.getAttribute('data-node-id') || '')) el.remove(); });
+    clone.querySelectorAll('.link-group').forEach(el => { if (!isExportedLink(el, ids)) el.remove(); });
+  }
+
+  // Work out the visible window, either the on-screen viewport or the graph extent
+  let viewBox: Box;
+  if (options.area === 'view') {
+    const rect = svg.getBoundingClientRect();
+    viewBox = { x: 0, y: 0, width: Math.round(rect.width), height: Math.round(rect.height) };
+  } else {
+    const extent = measureGraphExtent(svg, options.subtreeIds);
+    if (!extent) throw new Error('Nothing to export.');
+    viewBox = {
+      x: extent.x - EXTENT_PADDING,
+      y: extent.y - EXTENT_PADDING,
+      width: Math.ceil(extent.width + EXTENT_PADDING * 2),
+      height: Math.ceil(extent.height + EXTENT_PADDING * 2)
+    };
+    // The extent is in graph space, so drop the pan/zoom transform
+    group.removeAttribute('transform');
+  }
+
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('xmlns:xlink', XLINK_NS);
+  clone.setAttribute('viewBox', `${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}`);
+  clone.setAttribute('width', String(viewBox.width));
+  clone.setAttribute('height', String(viewBox.height));
+  clone.removeAttribute('class');
+  clone.removeAttribute('style');
+  // Labels inherit the page font, which a standalone file would not have
+  clone.style.fontFamily = getComputedStyle(svg).fontFamily;
+
+  if (options.backgroundColor) {
+    const bg = document.createElementNS(SVG_NS, 'rect');
+    bg.setAttribute('x', String(viewBox.x));
+    bg.setAttribute('y', String(viewBox.y));
+    bg.setAttribute('width', String(viewBox.width));
+    bg.setAttribute('height', String(viewBox.height));
+    bg.setAttribute('fill', options.backgroundColor);
+    const defs = clone.querySelector('defs');
+    clone.insertBefore(bg, defs ? defs.nextSibling : clone.firstChild);
+  }
+
+  await inlineImages(clone);
+
+  const svgText = `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+  return { svgText, width: viewBox.width, height: viewBox.height };
+};
+
+/**
+ * Largest usable scale for the given size (browsers cap canvas dimensions).
+ */
+export const clampPngScale = (width: number, height: number, scale: PngScale) =>
+  Math.min(scale, MAX_CANVAS_SIZE / Math.max(width, height, 1));
+
+/**
+ * Draws an exported SVG onto a canvas and encodes it as PNG.
+ */
+export const rasterizeSvg = (exported: SvgExportResult, scale: PngScale): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const effectiveScale = clampPngScale(exported.width, exported.height, scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(exported.width * effectiveScale);
+    canvas.height = Math.round(exported.height * effectiveScale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) { reject(new Error('Canvas is not available')); return; }
+
+    const url = URL.createObjectURL(new Blob([exported.svgText], { type: 'image/svg+xml;charset=utf-8' }));
+    const img = new Image();
+    img.onload = () => {
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('The exported SVG could not be rendered'));
+    };
+    img.src = url;
+  });
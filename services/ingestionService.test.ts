@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_CONTENT_CHARS, TRUNCATION_MARKER, decodeText, extractionUpdate, getExtractableKind, normalizeText, parseCsv, truncateContent } from './ingestionService';
+
+const bytes = (...values: number[]) => new Uint8Array(values).buffer;
+
+describe('getExtractableKind', () => {
+  it('maps known extensions case-insensitively and rejects the rest', () => {
+    expect(['notes.TXT', 'server.log', 'README.markdown', 'data.csv', 'config.json', 'photo.png', 'noextension'].map(getExtractableKind))
+      .toEqual(['txt', 'txt', 'md', 'csv', 'json', null, null]);
+  });
+});
+
+describe('decodeText', () => {
+  it('decodes UTF-8 and honours UTF-16 byte order marks', () => {
+    expect(decodeText(new TextEncoder().encode('héllo').buffer)).toBe('héllo');
+    expect(decodeText(bytes(0xff, 0xfe, 0x68, 0x00, 0x69, 0x00))).toBe('hi');
+    expect(decodeText(bytes(0xfe, 0xff, 0x00, 0x68, 0x00, 0x69))).toBe('hi');
+  });
+
+  it('rejects binary data but tolerates a character cut off by a partial read', () => {
+    expect(() => decodeText(bytes(0x89, 0x50, 0x4e, 0x47, 0xff))).toThrow('File is not valid UTF-8 text');
+    // "é" is 0xC3 0xA9; the read stopped after the first byte
+    expect(decodeText(bytes(0x61, 0xc3), true)).toBe('a');
+  });
+});
+
+describe('normalizeText', () => {
+  it('unifies line endings, strips control characters and collapses blank lines', () => {
+    expect(normalizeText('\uFEFFone  \r\ntwo\u0007\r\r\r\n\nthree\t\n')).toBe('one\ntwo\n\nthree');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted fields with delimiters and escaped quotes', () => {
+    expect(parseCsv('name,note\n"Smith, J","said ""hi"""\n\n')).toEqual([['name', 'note'], ['Smith, J', 'said "hi"']]);
+  });
+
+  it('guesses the delimiter from the header', () => {
+    expect(parseCsv('a;b;c\n1;2;3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('truncateContent', () => {
+  it('leaves short text alone', () => {
+    expect(truncateContent('short')).toEqual({ content: 'short', truncated: false });
+  });
+
+  it('cuts at a nearby line break and adds the marker', () => {
+    const text = `${'a'.repeat(MAX_CONTENT_CHARS - 10)}\n${'b'.repeat(100)}`;
+    const result = truncateContent(text);
+    expect(result.truncated).toBe(true);
+    expect(result.content).toBe('a'.repeat(MAX_CONTENT_CHARS - 10) + TRUNCATION_MARKER);
+  });
+
+  it('cuts hard when there is no line break near the limit', () => {
+    const result = truncateContent('x'.repeat(MAX_CONTENT_CHARS + 50));
+    expect(result.content).toHaveLength(MAX_CONTENT_CHARS + TRUNCATION_MARKER.length);
+  });
+});
+
+describe('extractionUpdate', () => {
+  it('marks finished and failed extractions', () => {
+    expect(extractionUpdate({ content: 'text', truncated: false }))
+      .toEqual({ content: 'text', extractionStatus: 'done', extractionError: undefined, isTruncated: undefined });
+    expect(extractionUpdate({ error: 'Unsupported file type' }))
+      .toEqual({ content: '', extractionStatus: 'error', extractionError: 'Unsupported file type' });
+  });
+});
@@ -0,0 +1,280 @@
+import { Document, TablePreview } from '../types';
+import { extractDocxText, extractXlsxSheets } from './officeExtractor';
+import { extractPdfPages } from './pdfExtractor';
+
+// Only the head of very large files is read; the rest is dropped with a marker
+export const MAX_READ_BYTES = 4 * 1024 * 1024;
+// Upper bound on text stored in Document.content (keeps IndexedDB records and prompts small)
+export const MAX_CONTENT_CHARS = 200_000;
+// Office files are zip containers and must be read whole
+export const MAX_OFFICE_BYTES = 50 * 1024 * 1024;
+// PDFs are parsed whole by pdf.js
+export const MAX_PDF_BYTES = 100 * 1024 * 1024;
+
+const PREVIEW_ROWS = 8;
+const PREVIEW_COLUMNS = 6;
+
+export const TRUNCATION_MARKER = '\n\n[... truncated ...]';
+
+export type ExtractableKind = 'txt' | 'md' | 'csv' | 'json' | 'docx' | 'xlsx' | 'pdf';
+
+export interface ExtractionResult {
+  content: string;
+  truncated: boolean;
+  tablePreview?: TablePreview;
+  pageOffsets?: number[];
+}
+
+export type ProgressCallback = (fraction: number) => void;
+
+const EXTENSION_KINDS: Record<string, ExtractableKind> = {
+  txt: 'txt',
+  text: 'txt',
+  log: 'txt',
+  md: 'md',
+  markdown: 'md',
+  csv: 'csv',
+  json: 'json',
+  docx: 'docx',
+  xlsx: 'xlsx',
+  pdf: 'pdf'
+};
+
+/**
+ * Returns the text kind of a file name, or null when its contents cannot be read as text here.
+ */
+export const getExtractableKind = (fileName: string): ExtractableKind | null => {
+  const extension = fileName.toLowerCase().split('.').pop() || '';
+  return EXTENSION_KINDS[extension] || null;
+};
+
+// --- READING ---
+
+const readAsArrayBuffer = (blob: Blob, onProgress?: ProgressCallback): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (e) => {
+      if (onProgress && e.lengthComputable && e.total > 0) onProgress(e.loaded / e.total);
+    };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error || new Error('Could not read file'));
+    reader.readAsArrayBuffer(blob);
+  });
+
+/**
+ * Decodes bytes as text, honouring a UTF-8/UTF-16 byte order mark.
+ * Throws when the bytes are not valid text in that encoding (e.g. a binary file renamed to .txt).
+ */
+export const decodeText = (buffer: ArrayBuffer, isPartial = false): string => {
+  const bytes = new Uint8Array(buffer);
+  let encoding = 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) encoding = 'utf-16le';
+  else if (bytes[0] === 0xfe && bytes[1] === 0xff) encoding = 'utf-16be';
+
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of a partial read
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: isPartial });
+  } catch (e) {
+    throw new Error(`File is not valid ${encoding.toUpperCase()} text`);
+  }
+};
+
+// --- NORMALIZATION ---
+
+/**
+ * Unifies line endings and whitespace and strips control characters.
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+/**
+ * Splits one CSV line into fields (RFC 4180 quoting, no embedded newlines).
+ */
+const parseCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (inQuotes) {
+      if (ch === '"' && line[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+/**
+ * Parses CSV into rows. The delimiter (comma, semicolon or tab) is guessed from the first line.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const lines = text.split('\n').filter(l => l.trim());
+  if (lines.length === 0) return [];
+  const header = lines[0];
+  const delimiter = [',', ';', '\t'].reduce((best, d) => header.split(d).length > header.split(best).length ? d : best, ',');
+  return lines.map(line => parseCsvLine(line, delimiter));
+};
+
+/**
+ * Tables become one line per row with `column: value` pairs, so column names are searchable next to their values.
+ */
+const tableToText = (table: string[][]): string => {
+  const [header, ...rows] = table;
+  if (!header) return '';
+  if (rows.length === 0) return header.join(' | ');
+  return [
+    header.join(' | '),
+    ...rows.map(row => row.map((value, i) => value && `${header[i] || `column ${i + 1}`}: ${value}`).filter(Boolean).join(' | '))
+  ].join('\n');
+};
+
+/**
+ * JSON becomes `path: value` lines. Falls back to the raw text when the file is not complete JSON
+ * (e.g. it was cut off by MAX_READ_BYTES).
+ */
+const jsonToText = (text: string): string => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return text;
+  }
+
+  const lines: string[] = [];
+  const walk = (value: unknown, path: string) => {
+    if (Array.isArray(value)) value.forEach((v, i) => walk(v, `${path}[${i}]`));
+    else if (value && typeof value === 'object') Object.entries(value).forEach(([k, v]) => walk(v, path ? `${path}.${k}` : k));
+    else if (value !== null && value !== undefined && value !== '') lines.push(`${path || 'value'}: ${String(value)}`);
+  };
+  walk(parsed, '');
+  return lines.join('\n');
+};
+
+const toSearchableText = (text: string, kind: ExtractableKind): string => {
+  if (kind === 'csv') return tableToText(parseCsv(text));
+  if (kind === 'json') return jsonToText(text);
+  return text;
+};
+
+const buildTablePreview = (rows: string[][], sheetName?: string): TablePreview => ({
+  sheetName,
+  rows: rows.slice(0, PREVIEW_ROWS).map(row => row.slice(0, PREVIEW_COLUMNS)),
+  totalRows: rows.length
+});
+
+/**
+ * Reads .docx/.xlsx containers. Workbooks contribute every sheet, each introduced by its name.
+ */
+const extractOfficeText = async (file: File, kind: 'docx' | 'xlsx', onProgress?: ProgressCallback): Promise<ExtractionResult> => {
+  if (file.size > MAX_OFFICE_BYTES) throw new Error(`File is too large to read (over ${MAX_OFFICE_BYTES / 1024 / 1024} MB)`);
+  const buffer = await readAsArrayBuffer(file, onProgress);
+
+  if (kind === 'docx') return truncateContent(normalizeText(await extractDocxText(buffer)));
+
+  const sheets = await extractXlsxSheets(buffer);
+  const text = sheets.map(sheet => `Sheet: ${sheet.name}\n${tableToText(sheet.rows)}`).join('\n\n');
+  const firstSheet = sheets.find(sheet => sheet.rows.length > 0);
+  return {
+    ...truncateContent(normalizeText(text)),
+    tablePreview: firstSheet ? buildTablePreview(firstSheet.rows, firstSheet.name) : undefined
+  };
+};
+
+/**
+ * Joins PDF pages with blank lines and records where each page starts in the joined text.
+ * Pages past the truncation point are dropped from the offsets.
+ */
+const extractPdfText = async (file: File, onProgress?: ProgressCallback): Promise<ExtractionResult> => {
+  if (file.size > MAX_PDF_BYTES) throw new Error(`File is too large to read (over ${MAX_PDF_BYTES / 1024 / 1024} MB)`);
+  // Reading the file is the quick part; most of the time goes into parsing pages
+  const buffer = await readAsArrayBuffer(file, fraction => onProgress?.(fraction * 0.1));
+  const { pages, pageCount } = await extractPdfPages(buffer, MAX_CONTENT_CHARS, (done, total) => onProgress?.(0.1 + 0.9 * done / total));
+
+  let text = '';
+  const pageOffsets: number[] = [];
+  pages.forEach(({ text: raw }) => {
+    if (text) text += '\n\n';
+    pageOffsets.push(text.length);
+    text += normalizeText(raw);
+  });
+  if (!text.trim()) throw new Error('This PDF has no selectable text (it may be a scanned image)');
+
+  const result = truncateContent(text);
+  if (pages.length < pageCount && !result.truncated) {
+    result.content = text + TRUNCATION_MARKER;
+    result.truncated = true;
+  }
+  const contentEnd = result.truncated ? result.content.length - TRUNCATION_MARKER.length : result.content.length;
+  return { ...result, pageOffsets: pageOffsets.filter(offset => offset <= contentEnd) };
+};
+
+/**
+ * Caps text at MAX_CONTENT_CHARS, cutting at a line break where possible.
+ */
+export const truncateContent = (text: string): ExtractionResult => {
+  if (text.length <= MAX_CONTENT_CHARS) return { content: text, truncated: false };
+  const cut = text.lastIndexOf('\n', MAX_CONTENT_CHARS);
+  const end = cut > MAX_CONTENT_CHARS * 0.9 ? cut : MAX_CONTENT_CHARS;
+  return { content: text.slice(0, end) + TRUNCATION_MARKER, truncated: true };
+};
+
+// --- PIPELINE ---
+
+/**
+ * Reads an uploaded text-like file and returns normalized, searchable content.
+ * Rejects with a readable error on unreadable or non-text files.
+ */
+export const extractText = async (file: File, onProgress?: ProgressCallback): Promise<ExtractionResult> => {
+  const kind = getExtractableKind(file.name);
+  if (!kind) throw new Error('Unsupported file type');
+  if (kind === 'docx' || kind === 'xlsx') return extractOfficeText(file, kind, onProgress);
+  if (kind === 'pdf') return extractPdfText(file, onProgress);
+
+  const isPartial = file.size > MAX_READ_BYTES;
+  const buffer = await readAsArrayBuffer(isPartial ? file.slice(0, MAX_READ_BYTES) : file, onProgress);
+  const raw = decodeText(buffer, isPartial);
+  const text = normalizeText(toSearchableText(raw, kind));
+
+  const result: ExtractionResult = truncateContent(text);
+  if (isPartial && !result.truncated) {
+    result.content = text + TRUNCATION_MARKER;
+    result.truncated = true;
+  }
+  if (kind === 'csv') result.tablePreview = buildTablePreview(parseCsv(raw));
+  return result;
+};
+
+/**
+ * Placeholder shown until extraction finishes.
+ */
+export const PENDING_CONTENT = 'Extracting text...';
+
+/**
+ * Document fields for a finished (or failed) extraction.
+ */
+export const extractionUpdate = (result: ExtractionResult | { error: string }): Partial<Document> =>
+  'error' in result
+    ? { content: '', extractionStatus: 'error', extractionError: result.error }
+    : {
+        content: result.content,
+        extractionStatus: 'done',
+        extractionError: undefined,
+        isTruncated: result.truncated || undefined,
+        tablePreview: result.tablePreview,
+        pageOffsets: result.pageOffsets
+      };
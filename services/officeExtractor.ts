@@ -0,0 +1,145 @@
+import { openZip } from './zipReader';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Large workbooks are capped per sheet; the text would be truncated later anyway
+const MAX_ROWS_PER_SHEET = 5000;
+
+export interface SheetData {
+  name: string;
+  rows: string[][];
+}
+
+const parseXml = (xml: string) => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Office file contains malformed XML');
+  return doc;
+};
+
+// --- DOCX ---
+
+/**
+ * Heading level from a paragraph style id ("Heading1", "Title"), or 0 for body text.
+ */
+const headingLevel = (styleId: string | null): number => {
+  if (!styleId) return 0;
+  if (/^title$/i.test(styleId)) return 1;
+  const match = styleId.match(/^heading\s*(\d)$/i);
+  return match ? Math.min(6, Number(match[1])) : 0;
+};
+
+const paragraphText = (paragraph: Element): string => {
+  let text = '';
+  const walk = (el: Element) => {
+    Array.from(el.children).forEach(child => {
+      if (child.namespaceURI !== WORD_NS) return;
+      if (child.localName === 't') text += child.textContent || '';
+      else if (child.localName === 'tab') text += '\t';
+      else if (child.localName === 'br' || child.localName === 'cr') text += '\n';
+      else if (child.localName !== 'pPr' && child.localName !== 'rPr') walk(child);
+    });
+  };
+  walk(paragraph);
+  return text;
+};
+
+/**
+ * Extracts paragraphs from a .docx. Headings are prefixed with Markdown `#` markers so they stand out in previews.
+ */
+export const extractDocxText = async (buffer: ArrayBuffer): Promise<string> => {
+  const zip = openZip(buffer);
+  const xml = await zip.readText('word/document.xml');
+  if (!xml) throw new Error('Not a Word document (word/document.xml missing)');
+
+  const doc = parseXml(xml);
+  const lines: string[] = [];
+  Array.from(doc.getElementsByTagNameNS(WORD_NS, 'p')).forEach(p => {
+    const text = paragraphText(p).trim();
+    if (!text) return;
+    const style = p.getElementsByTagNameNS(WORD_NS, 'pStyle')[0]?.getAttributeNS(WORD_NS, 'val') ?? null;
+    const level = headingLevel(style);
+    lines.push(level ? `${'#'.repeat(level)} ${text}` : text);
+  });
+  return lines.join('\n\n');
+};
+
+// --- XLSX ---
+
+/**
+ * Converts a cell reference column ("B", "AA") to a zero-based index.
+ */
+const columnIndex = (ref: string): number => {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() || 'A';
+  return letters.split('').reduce((acc, ch) => acc * 26 + (ch.charCodeAt(0) - 64), 0) - 1;
+};
+
+const textOf = (el: Element) =>
+  Array.from(el.getElementsByTagNameNS(SHEET_NS, 't')).map(t => t.textContent || '').join('');
+
+const readSharedStrings = async (zip: ReturnType<typeof openZip>): Promise<string[]> => {
+  const xml = await zip.readText('xl/sharedStrings.xml');
+  if (!xml) return [];
+  return Array.from(parseXml(xml).getElementsByTagNameNS(SHEET_NS, 'si')).map(textOf);
+};
+
+/**
+ * Resolves sheet names to their worksheet part paths via the workbook relationships.
+ */
+const readSheetParts = async (zip: ReturnType<typeof openZip>): Promise<{ name: string, path: string }[]> => {
+  const workbookXml = await zip.readText('xl/workbook.xml');
+  if (!workbookXml) throw new Error('Not an Excel workbook (xl/workbook.xml missing)');
+  const relsXml = await zip.readText('xl/_rels/workbook.xml.rels');
+
+  const targets = new Map<string, string>();
+  if (relsXml) {
+    Array.from(parseXml(relsXml).getElementsByTagName('Relationship')).forEach(rel => {
+      const target = rel.getAttribute('Target') || '';
+      targets.set(rel.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+    });
+  }
+
+  return Array.from(parseXml(workbookXml).getElementsByTagNameNS(SHEET_NS, 'sheet')).map((sheet, i) => {
+    const relId = sheet.getAttributeNS(REL_NS, 'id') || sheet.getAttribute('r:id') || '';
+    return { name: sheet.getAttribute('name') || `Sheet${i + 1}`, path: targets.get(relId) || `xl/worksheets/sheet${i + 1}.xml` };
+  });
+};
+
+const cellValue = (cell: Element, sharedStrings: string[]): string => {
+  const type = cell.getAttribute('t');
+  if (type === 'inlineStr') return textOf(cell);
+  const value = cell.getElementsByTagNameNS(SHEET_NS, 'v')[0]?.textContent ?? '';
+  if (type === 's') return sharedStrings[Number(value)] ?? '';
+  if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE';
+  return value;
+};
+
+/**
+ * Reads every sheet of an .xlsx as a grid of cell strings (formulas contribute their cached values).
+ */
+export const extractXlsxSheets = async (buffer: ArrayBuffer): Promise<SheetData[]> => {
+  const zip = openZip(buffer);
+  const sharedStrings = await readSharedStrings(zip);
+  const parts = await readSheetParts(zip);
+
+  const sheets: SheetData[] = [];
+  for (const part of parts) {
+    const xml = await zip.readText(part.path);
+    if (!xml) continue;
+
+    const rows: string[][] = [];
+    Array.from(parseXml(xml).getElementsByTagNameNS(SHEET_NS, 'row')).slice(0, MAX_ROWS_PER_SHEET).forEach(row => {
+      const cells: string[] = [];
+      Array.from(row.getElementsByTagNameNS(SHEET_NS, 'c')).forEach((cell, i) => {
+        const ref = cell.getAttribute('r');
+        cells[ref ? columnIndex(ref) : i] = cellValue(cell, sharedStrings).trim();
+      });
+      const filled = Array.from(cells, c => c ?? '');
+      if (filled.some(Boolean)) rows.push(filled);
+    });
+
+    sheets.push({ name: part.name, rows });
+  }
+  return sheets;
+};
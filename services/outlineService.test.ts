@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { Document, GraphData, Node, NodeType } from '../types';
+import { OutlineItem, graphToOutline, outlineToGraph, outlineToMarkdown, outlineToOpml, parseMarkdownOutline, parseOutlineFile } from './outlineService';
+
+const outline: OutlineItem = {
+  text: 'Research',
+  children: [
+    {
+      text: 'Papers [draft]',
+      note: 'Reading list\nSecond line',
+      children: [{ text: 'Spec', url: 'https://example.com/spec_(v2)', children: [] }]
+    },
+    { text: 'Ideas', children: [] }
+  ]
+};
+
+describe('Markdown outlines', () => {
+  it('round-trips headings, nesting, notes, links and escaped brackets', () => {
+    expect(parseMarkdownOutline(outlineToMarkdown(outline))).toEqual(outline);
+  });
+
+  it('reads numbered lists and tab indentation', () => {
+    const parsed = parseMarkdownOutline('1. One\n\t2) Two\n3. Three');
+    expect(parsed.children.map(c => c.text)).toEqual(['One', 'Three']);
+    expect(parsed.children[0].children[0].text).toBe('Two');
+  });
+
+  it('rejects files without any outline items', () => {
+    expect(() => parseOutlineFile('# Only a heading', 'notes.md')).toThrow('No outline items found');
+  });
+});
+
+describe('outlineToOpml', () => {
+  it('escapes attributes and writes notes and links', () => {
+    const opml = outlineToOpml({ text: 'A & B', children: [{ text: 'Say "hi"', note: 'x < y', url: 'https://e.com/?a=1&b=2', children: [] }] });
+    expect(opml).toContain('<title>A &amp; B</title>');
+    expect(opml).toContain('<outline text="Say &quot;hi&quot;" _note="x &lt; y" type="link" url="https://e.com/?a=1&amp;b=2"/>');
+  });
+});
+
+describe('graphToOutline', () => {
+  it('emits a node reachable from two parents only once', () => {
+    const node = (id: string, name: string): Node => ({ id, name, type: NodeType.CATEGORY, val: 10 });
+    const graph: GraphData = {
+      nodes: [{ ...node('root', 'Root'), type: NodeType.ROOT }, node('a', 'A'), node('b', 'B'), node('shared', 'Shared')],
+      links: [
+        { source: 'root', target: 'a', value: 1 },
+        { source: 'root', target: 'b', value: 1 },
+        { source: 'a', target: 'shared', value: 1 },
+        { source: 'b', target: 'shared', value: 1 }
+      ]
+    };
+    const tree = graphToOutline(graph, [] as Document[]);
+    expect(tree.children.map(c => c.children.map(g => g.text))).toEqual([['Shared'], []]);
+  });
+
+  it('exports external links but not session-only file URLs', () => {
+    const graph: GraphData = {
+      nodes: [
+        { id: 'root', name: 'Root', type: NodeType.ROOT, val: 20 },
+        { id: 'web', name: 'Web', type: NodeType.DOCUMENT, val: 10 },
+        { id: 'pdf', name: 'PDF', type: NodeType.DOCUMENT, val: 10 }
+      ],
+      links: [{ source: 'root', target: 'web', value: 1 }, { source: 'root', target: 'pdf', value: 1 }]
+    };
+    const documents = [
+      { id: 'web', title: 'Web', content: '', project: '', date: '', type: 'link', externalUrl: 'https://example.com' },
+      { id: 'pdf', title: 'PDF', content: '', project: '', date: '', type: 'pdf', fileUrl: 'blob:http://localhost/123' }
+    ] as Document[];
+    expect(graphToOutline(graph, documents).children.map(c => c.url)).toEqual(['https://example.com', undefined]);
+  });
+});
+
+describe('outlineToGraph', () => {
+  it('creates projects at the first level and link documents for leaf URLs', () => {
+    const parent: Node = { id: 'root', name: 'Root', type: NodeType.ROOT, val: 20, level: 0 };
+    const { nodes, links, documents } = outlineToGraph(outline.children, parent);
+
+    expect(nodes.map(n => n.type)).toEqual([NodeType.PROJECT, NodeType.DOCUMENT, NodeType.PROJECT]);
+    expect(links[0]).toMatchObject({ source: 'root', target: nodes[0].id });
+    expect(documents).toHaveLength(1);
+    expect(documents[0]).toMatchObject({ id: nodes[1].id, type: 'link', externalUrl: 'https://example.com/spec_(v2)', project: 'Papers [draft]' });
+  });
+
+  it('leaves the description of a link without a note empty so it does not export as a note', () => {
+    const parent: Node = { id: 'root', name: 'Root', type: NodeType.ROOT, val: 20, level: 0 };
+    const { nodes } = outlineToGraph([{ text: 'Spec', url: 'https://example.com', children: [] }], parent);
+    expect(nodes[0].description).toBeUndefined();
+  });
+});
@@ -0,0 +1,272 @@
+import { Document, GraphData, Link, Node, NodeType } from '../types';
+
+export type OutlineFormat = 'markdown' | 'opml';
+
+// Format-neutral tree shared by the Markdown and OPML readers/writers
+export interface OutlineItem {
+  text: string;
+  note?: string;
+  url?: string;
+  children: OutlineItem[];
+}
+
+const linkEndpointId = (endpoint: string | Node) => typeof endpoint === 'object' ? endpoint.id : endpoint;
+
+// --- GRAPH -> OUTLINE ---
+
+/**
+ * Walks the graph from `root` along its links and returns the node tree.
+ * Nodes reachable through more than one path are only emitted once.
+ */
+export const graphToOutline = (graph: GraphData, documents: Document[]): OutlineItem => {
+  const nodesById = new Map(graph.nodes.map(n => [n.id, n]));
+  const docsById = new Map(documents.map(d => [d.id, d]));
+  const childIds = new Map<string, string[]>();
+  graph.links.forEach(l => {
+    const source = linkEndpointId(l.source);
+    childIds.set(source, [...(childIds.get(source) || []), linkEndpointId(l.target)]);
+  });
+
+  const visited = new Set<string>();
+  const build = (node: Node): OutlineItem => {
+    const doc = docsById.get(node.id);
+    // Claim children before descending so a shared node stays under its shallowest parent
+    const ownIds = (childIds.get(node.id) || []).filter(id => !visited.has(id) && nodesById.has(id));
+    ownIds.forEach(id => visited.add(id));
+    const children = ownIds.map(id => build(nodesById.get(id)!));
+    return {
+      text: node.name,
+      note: node.description || undefined,
+      // Uploaded files only have session-scoped blob: URLs, which are useless outside this tab
+      url: doc?.externalUrl || undefined,
+      children
+    };
+  };
+
+  const root = nodesById.get('root') || graph.nodes[0];
+  if (!root) return { text: 'Mind Map', children: [] };
+  visited.add(root.id);
+  return build(root);
+};
+
+// --- MARKDOWN ---
+
+const escapeMarkdownText = (text: string) => text.replace(/([\[\]])/g, '\\$1');
+const unescapeMarkdownText = (text: string) => text.replace(/\\([\[\]])/g, '$1');
+
+/**
+ * Renders the outline as a heading (the root) followed by nested bullets.
+ * Links become `[text](url)` and notes are indented continuation lines under their bullet.
+ */
+export const outlineToMarkdown = (root: OutlineItem): string => {
+  const lines: string[] = [`# ${root.text}`];
+  if (root.note) lines.push('', root.note);
+  lines.push('');
+
+  const write = (item: OutlineItem, depth: number) => {
+    const indent = '  '.repeat(depth);
+    const label = escapeMarkdownText(item.text);
+    lines.push(`${indent}- ${item.url ? `[${label}](${item.url})` : label}`);
+    if (item.note) item.note.split('\n').forEach(line => lines.push(`${indent}  ${line}`));
+    item.children.forEach(child => write(child, depth + 1));
+  };
+  root.children.forEach(child => write(child, 0));
+
+  return lines.join('\n') + '\n';
+};
+
+const BULLET_PATTERN = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+// URL is greedy up to the closing paren at the end, so URLs containing parentheses survive
+const LINK_PATTERN = /^\[((?:\\.|[^\]])*)\]\((\S+)\)$/;
+
+const measureIndent = (whitespace: string) => whitespace.replace(/\t/g, '    ').length;
+
+/**
+ * Parses nested Markdown bullets. A leading `# Heading` names the root; indented
+ * non-bullet lines are attached to the bullet above them as its note.
+ */
+export const parseMarkdownOutline = (text: string): OutlineItem => {
+  const root: OutlineItem = { text: '', children: [] };
+  // Stack of open items with the indentation their bullet started at
+  const stack: { item: OutlineItem, indent: number }[] = [{ item: root, indent: -1 }];
+  let lastItem: OutlineItem | null = null;
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(rawLine => {
+    if (!rawLine.trim()) return;
+
+    const heading = rawLine.match(/^#{1,6}\s+(.*)$/);
+    if (heading && !root.text && root.children.length === 0) {
+      root.text = heading[1].trim();
+      return;
+    }
+
+    const bullet = rawLine.match(BULLET_PATTERN);
+    if (bullet) {
+      const indent = measureIndent(bullet[1]);
+      while (stack.length > 1 && stack[stack.length - 1].indent >= indent) stack.pop();
+
+      const content = bullet[2].trim();
+      const link = content.match(LINK_PATTERN);
+      const item: OutlineItem = link
+        ? { text: unescapeMarkdownText(link[1]), url: link[2], children: [] }
+        : { text: unescapeMarkdownText(content), children: [] };
+
+      stack[stack.length - 1].item.children.push(item);
+      stack.push({ item, indent });
+      lastItem = item;
+      return;
+    }
+
+    // Continuation line: a note on the previous bullet (or on the root before any bullet)
+    const target = lastItem || root;
+    const line = rawLine.trim();
+    target.note = target.note ? `${target.note}\n${line}` : line;
+  });
+
+  return root;
+};
+
+// --- OPML ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+
+/**
+ * Renders the outline as OPML 2.0. Notes use the `_note` attribute understood by most outliners.
+ */
+export const outlineToOpml = (root: OutlineItem): string => {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(root.text)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>'
+  ];
+
+  const write = (item: OutlineItem, depth: number) => {
+    const indent = '  '.repeat(depth + 2);
+    const attrs = [`text="${escapeXml(item.text)}"`];
+    if (item.note) attrs.push(`_note="${escapeXml(item.note)}"`);
+    if (item.url) attrs.push('type="link"', `url="${escapeXml(item.url)}"`);
+
+    if (item.children.length === 0) {
+      lines.push(`${indent}<outline ${attrs.join(' ')}/>`);
+      return;
+    }
+    lines.push(`${indent}<outline ${attrs.join(' ')}>`);
+    item.children.forEach(child => write(child, depth + 1));
+    lines.push(`${indent}</outline>`);
+  };
+  root.children.forEach(child => write(child, 0));
+
+  lines.push('  </body>', '</opml>');
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Parses an OPML document. Throws if the file is not well-formed OPML.
+ */
+export const parseOpml = (text: string): OutlineItem => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  if (xml.getElementsByTagName('parsererror').length > 0) throw new Error('File is not well-formed XML.');
+
+  const body = xml.querySelector('opml > body');
+  if (!body) throw new Error('File is not OPML (missing <opml><body>).');
+
+  const readOutline = (el: Element): OutlineItem => ({
+    text: el.getAttribute('text') ?? el.getAttribute('title') ?? '',
+    note: el.getAttribute('_note') || undefined,
+    url: el.getAttribute('url') || el.getAttribute('htmlUrl') || el.getAttribute('xmlUrl') || undefined,
+    children: Array.from(el.children).filter(c => c.tagName === 'outline').map(readOutline)
+  });
+
+  return {
+    text: xml.querySelector('opml > head > title')?.textContent?.trim() || '',
+    children: Array.from(body.children).filter(c => c.tagName === 'outline').map(readOutline)
+  };
+};
+
+/**
+ * Picks the parser from the file name, falling back to sniffing the content.
+ */
+export const parseOutlineFile = (text: string, fileName: string): OutlineItem => {
+  const isOpml = /\.(opml|xml)$/i.test(fileName) || /^\s*(<\?xml|<opml)/i.test(text);
+  const outline = isOpml ? parseOpml(text) : parseMarkdownOutline(text);
+  if (outline.children.length === 0) throw new Error('No outline items found in that file.');
+  return outline;
+};
+
+// --- OUTLINE -> GRAPH ---
+
+/**
+ * Converts outline items into nodes and links under an existing parent node.
+ * Items with a URL become link documents so they open like links added by hand.
+ */
+export const outlineToGraph = (
+  items: OutlineItem[],
+  parent: Node
+): { nodes: Node[]; links: Link[]; documents: Document[] } => {
+  const nodes: Node[] = [];
+  const links: Link[] = [];
+  const documents: Document[] = [];
+  const batchId = Date.now();
+  let counter = 0;
+  const today = new Date().toISOString().split('T')[0];
+
+  const add = (item: OutlineItem, parentNode: Node, level: number, project: string) => {
+    const id = `outline-${batchId}-${counter++}`;
+    const name = item.text.trim() || 'Untitled';
+    const hasChildren = item.children.length > 0;
+    const branchProject = level === 1 ? name : project;
+
+    const node: Node = item.url && !hasChildren
+      ? {
+          id,
+          name,
+          type: NodeType.DOCUMENT,
+          val: 10,
+          // No placeholder text: the description is exported as the note again
+          description: item.note,
+          iconType: 'link',
+          color: '#8b5cf6', // Violet for links
+          level,
+          project: branchProject
+        }
+      : {
+          id,
+          name,
+          type: level === 1 ? NodeType.PROJECT : NodeType.CATEGORY,
+          val: level === 1 ? 20 : hasChildren ? 15 : 12,
+          description: item.note,
+          iconType: hasChildren ? 'folder' : 'default',
+          level,
+          project: branchProject,
+          // Keep large outlines readable: only the first level starts unfolded
+          collapsed: hasChildren && level > 1
+        };
+
+    nodes.push(node);
+    links.push({ source: parentNode.id, target: id, value: level === 1 ? 3 : 1 });
+
+    if (item.url) {
+      documents.push({
+        id,
+        title: name,
+        content: item.note || `External Link to: ${item.url}`,
+        project: branchProject,
+        date: today,
+        type: 'link',
+        tags: ['outline', 'link'],
+        parentId: parentNode.id,
+        externalUrl: item.url
+      });
+    }
+
+    item.children.forEach(child => add(child, node, level + 1, branchProject));
+  };
+
+  items.forEach(item => add(item, parent, (parent.level || 0) + 1, parent.project || ''));
+  return { nodes, links, documents };
+};
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { pageForOffset } from './pageOffsets';
+
+describe('pageForOffset', () => {
+  it('finds the page a content offset falls on', () => {
+    const offsets = [0, 100, 250];
+    expect([0, 99, 100, 249, 250, 10_000].map(offset => pageForOffset(offsets, offset))).toEqual([1, 1, 2, 2, 3, 3]);
+  });
+
+  it('treats content without page offsets as one page', () => {
+    expect(pageForOffset(undefined, 500)).toBe(1);
+    expect(pageForOffset([], 500)).toBe(1);
+  });
+});
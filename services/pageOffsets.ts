@@ -0,0 +1,11 @@
+// Page lookups for extracted PDF text; kept free of pdf.js so search and snippets can use them without loading it.
+
+/**
+ * 1-based page containing a character offset of a PDF's content, e.g. to open the viewer at a search hit.
+ */
+export const pageForOffset = (pageOffsets: number[] | undefined, offset: number): number => {
+  if (!pageOffsets || pageOffsets.length === 0) return 1;
+  let page = 1;
+  while (page < pageOffsets.length && pageOffsets[page] <= offset) page++;
+  return page;
+};
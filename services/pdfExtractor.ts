@@ -0,0 +1,58 @@
+import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import workerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+// pdf.js parses in a web worker; Vite serves the worker script as a separate asset
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export interface PdfPageText {
+  page: number; // 1-based, as shown in the viewer
+  text: string;
+}
+
+/**
+ * Opens a PDF from raw bytes or a (blob) URL. Callers own the returned document and must `destroy()` it.
+ */
+export const openPdf = async (source: ArrayBuffer | string): Promise<PDFDocumentProxy> => {
+  try {
+    return await getDocument(typeof source === 'string' ? { url: source } : { data: source }).promise;
+  } catch (err) {
+    if (err instanceof Error && err.name === 'PasswordException') throw new Error('Password-protected PDFs are not supported');
+    if (err instanceof Error && err.name === 'InvalidPDFException') throw new Error('File is not a valid PDF');
+    throw err;
+  }
+};
+
+/**
+ * Joins the text runs of one page. pdf.js marks line ends with `hasEOL`; other runs are already spaced.
+ */
+const pageText = (items: unknown[]): string =>
+  items
+    .filter((item): item is TextItem => typeof (item as TextItem).str === 'string')
+    .map(item => item.str + (item.hasEOL ? '\n' : ''))
+    .join('');
+
+/**
+ * Extracts text page by page. Stops early once `maxChars` have been collected, since the rest would be truncated anyway.
+ */
+export const extractPdfPages = async (
+  buffer: ArrayBuffer,
+  maxChars: number,
+  onPage?: (done: number, total: number) => void
+): Promise<{ pages: PdfPageText[], pageCount: number }> => {
+  const pdf = await openPdf(buffer);
+  try {
+    const pages: PdfPageText[] = [];
+    let collected = 0;
+    for (let page = 1; page <= pdf.numPages && collected <= maxChars; page++) {
+      const content = await (await pdf.getPage(page)).getTextContent();
+      const text = pageText(content.items);
+      pages.push({ page, text });
+      collected += text.length;
+      onPage?.(page, pdf.numPages);
+    }
+    return { pages, pageCount: pdf.numPages };
+  } finally {
+    pdf.destroy();
+  }
+};
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MOCK_DOCUMENTS } from '../constants';
+import { QATurn } from '../types';
+import { AIProvider, mockAIProvider } from './aiProvider';
+import { SearchContext } from './contextBuilder';
+import { appendTurn, askDocuments, resolveCitations } from './qaService';
+import { createSearchIndex, syncSearchIndex } from './searchIndex';
+
+const context: SearchContext = {
+  documents: [],
+  passages: [
+    { id: 'P1', docId: 'a', start: 0, end: 100, text: '', score: 1 },
+    { id: 'P2', docId: 'b', start: 50, end: 200, text: '', score: 1 }
+  ],
+  usedTokens: 0,
+  budgetTokens: 8000,
+  omittedDocuments: 0
+};
+
+const indexedDocuments = () => {
+  const index = createSearchIndex();
+  syncSearchIndex(index, MOCK_DOCUMENTS);
+  return index;
+};
+
+describe('resolveCitations', () => {
+  it('numbers passages in order of first use', () => {
+    expect(resolveCitations('Logins use OAuth [P2]. Passwords too [P1, P2]. Again [P2].', context)).toEqual({
+      answer: 'Logins use OAuth [1]. Passwords too [2][1]. Again [1].',
+      citations: [{ docId: 'b', start: 50, end: 200 }, { docId: 'a', start: 0, end: 100 }]
+    });
+  });
+
+  it('drops labels that were not in the context', () => {
+    expect(resolveCitations('Made up [P7]. Real [P1][P9].', context)).toEqual({
+      answer: 'Made up. Real [1].',
+      citations: [{ docId: 'a', start: 0, end: 100 }]
+    });
+  });
+});
+
+describe('askDocuments', () => {
+  it('answers from the passages with citations', async () => {
+    const turn = await askDocuments('How do users log in with OAuth?', MOCK_DOCUMENTS, indexedDocuments(), mockAIProvider, []);
+    expect(turn.answeredBy).toBe('ai');
+    expect(turn.answer).toMatch(/OAuth.*\[1\]/);
+    expect(turn.citations[0].docId).toBe('1');
+  });
+
+  it('says so when no document matches', async () => {
+    const turn = await askDocuments('zebra migration', MOCK_DOCUMENTS, indexedDocuments(), mockAIProvider, []);
+    expect(turn).toMatchObject({ answeredBy: 'none', citations: [] });
+  });
+
+  it('quotes the closest passages when the provider fails', async () => {
+    const failing: AIProvider = { ...mockAIProvider, label: 'Failing', answerQuestion: async () => { throw new Error('quota exceeded'); } };
+    const logError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const turn = await askDocuments('OAuth login', MOCK_DOCUMENTS, indexedDocuments(), failing, []);
+    logError.mockRestore();
+    expect(turn.answeredBy).toBe('fallback');
+    expect(turn.answer).toMatch(/^The AI provider could not answer, so here are the closest passages: .*\[1\]/);
+  });
+
+  it('sends the last turns along without their citation numbers', async () => {
+    const answerQuestion = vi.fn(async (..._args: Parameters<AIProvider['answerQuestion']>) => 'Yes [P1].');
+    const provider: AIProvider = { ...mockAIProvider, answerQuestion };
+    const thread = ['one', 'two', 'three', 'four'].map(q => ({ question: q, answer: `About ${q} [1].` }) as QATurn);
+
+    await askDocuments('and OAuth?', MOCK_DOCUMENTS, indexedDocuments(), provider, thread);
+    const priorTurns = answerQuestion.mock.calls[0][2];
+    expect(priorTurns.map(turn => turn.question)).toEqual(['two', 'three', 'four']);
+    expect(priorTurns.some(turn => turn.answer.includes('[1]'))).toBe(false);
+  });
+});
+
+describe('appendTurn', () => {
+  it('keeps the newest 50 turns', () => {
+    let thread: QATurn[] = [];
+    for (let i = 0; i < 55; i++) thread = appendTurn(thread, { id: `${i}` } as QATurn);
+    expect(thread).toHaveLength(50);
+    expect(thread[0].id).toBe('5');
+  });
+});
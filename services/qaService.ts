@@ -0,0 +1,96 @@
+import { Document, PassageCitation, QATurn } from '../types';
+import { SearchIndex, SemanticScores, rankForQuestion } from './searchIndex';
+import { DEFAULT_CONTEXT_TOKENS, SearchContext, buildSearchContext } from './contextBuilder';
+import { AIProvider, extractiveAnswer } from './aiProvider';
+import { isAbortError } from './aiRequestLayer';
+
+// Oldest turns are dropped beyond this; the thread is saved with the map
+const MAX_QA_TURNS = 50;
+// Earlier turns sent along so follow-up questions ("and in Q3?") make sense
+const PRIOR_TURNS_SENT = 3;
+
+export interface AskOptions {
+  semantic?: SemanticScores;
+  contextTokens?: number;
+  signal?: AbortSignal; // Rejects with an AbortError instead of answering
+}
+
+const createTurn = (question: string, answer: string, citations: PassageCitation[], answeredBy: QATurn['answeredBy']): QATurn => ({
+  id: `qa-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+  question: question.trim(),
+  answer,
+  citations,
+  askedAt: new Date().toISOString(),
+  answeredBy
+});
+
+/**
+ * Replaces the provider's passage labels ([P3], [P3, P5]) with citation numbers in order of first use.
+ * Labels that were not in the context are dropped.
+ */
+export const resolveCitations = (text: string, context: SearchContext): { answer: string, citations: PassageCitation[] } => {
+  const passages = new Map(context.passages.map(p => [p.id, p]));
+  const numbers = new Map<string, number>();
+  const citations: PassageCitation[] = [];
+
+  const answer = text.replace(/\[((?:P\d+\s*,?\s*)+)\]/g, (_, labels: string) =>
+    (labels.match(/P\d+/g) || []).map(label => {
+      const passage = passages.get(label);
+      if (!passage) return '';
+      if (!numbers.has(label)) {
+        citations.push({ docId: passage.docId, start: passage.start, end: passage.end });
+        numbers.set(label, citations.length);
+      }
+      return `[${numbers.get(label)}]`;
+    }).join('')
+  ).replace(/ +([.,;:])/g, '$1');
+
+  return { answer, citations };
+};
+
+/**
+ * Answers a question from the documents: ranks them, packs the best passages into the budget and asks the
+ * provider. When the provider fails the best matching sentences are quoted instead.
+ */
+export const askDocuments = async (
+  question: string,
+  documents: Document[],
+  index: SearchIndex,
+  provider: AIProvider,
+  thread: QATurn[],
+  { semantic, contextTokens = DEFAULT_CONTEXT_TOKENS, signal }: AskOptions = {}
+): Promise<QATurn> => {
+  const docsById = new Map(documents.map(doc => [doc.id, doc]));
+  const ranked = rankForQuestion(index, documents, question, semantic)
+    .filter(hit => docsById.has(hit.docId))
+    .map(hit => ({ doc: docsById.get(hit.docId)!, score: hit.score }));
+  if (ranked.length === 0) {
+    return createTurn(question, "Nothing in this map's documents matches that question.", [], 'none');
+  }
+
+  const context = buildSearchContext(question, ranked, index, contextTokens);
+  // Earlier answers are sent without their citation numbers, which mean nothing to the provider
+  const priorTurns = thread.slice(-PRIOR_TURNS_SENT).map(turn => ({ question: turn.question, answer: turn.answer.replace(/\[\d+\]/g, '') }));
+
+  try {
+    const text = await provider.answerQuestion(question, context, priorTurns, { signal });
+    const { answer, citations } = resolveCitations(text, context);
+    return createTurn(question, answer, citations, 'ai');
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error(`${provider.label} answer error:`, error);
+    const quoted = extractiveAnswer(question, context);
+    const { answer, citations } = resolveCitations(quoted, context);
+    return createTurn(
+      question,
+      answer ? `The AI provider could not answer, so here are the closest passages: ${answer}` : "The AI provider could not answer and no passage matched the question closely.",
+      citations,
+      'fallback'
+    );
+  }
+};
+
+/**
+ * Adds a turn at the end of the thread, dropping the oldest beyond the limit.
+ */
+export const appendTurn = (thread: QATurn[], turn: QATurn): QATurn[] => [...thread, turn].slice(-MAX_QA_TURNS);
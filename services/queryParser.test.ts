@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { isPlainTextQuery, parseSearchQuery } from './queryParser';
+
+describe('parseSearchQuery', () => {
+  it('joins words with an implicit AND', () => {
+    const parsed = parseSearchQuery('budget report');
+    expect(parsed.ast).toEqual({ kind: 'and', operands: [{ kind: 'term', value: 'budget' }, { kind: 'term', value: 'report' }] });
+    expect(parsed.text).toBe('budget report');
+    expect(isPlainTextQuery(parsed)).toBe(true);
+  });
+
+  it('binds AND tighter than OR and honours parentheses', () => {
+    expect(parseSearchQuery('a b OR c').ast).toEqual({
+      kind: 'or',
+      operands: [{ kind: 'and', operands: [{ kind: 'term', value: 'a' }, { kind: 'term', value: 'b' }] }, { kind: 'term', value: 'c' }]
+    });
+    expect(parseSearchQuery('(a | b) c').ast).toEqual({
+      kind: 'and',
+      operands: [{ kind: 'or', operands: [{ kind: 'term', value: 'a' }, { kind: 'term', value: 'b' }] }, { kind: 'term', value: 'c' }]
+    });
+  });
+
+  it('treats a lone dash as a word', () => {
+    expect(parseSearchQuery('a -')).toMatchObject({ errors: [], text: 'a -' });
+  });
+
+  it('parses phrases and exclusions and leaves excluded words out of the ranking text', () => {
+    const parsed = parseSearchQuery('"design system" -draft e-mail');
+    expect(parsed.ast).toEqual({
+      kind: 'and',
+      operands: [
+        { kind: 'phrase', value: 'design system' },
+        { kind: 'not', operand: { kind: 'term', value: 'draft' } },
+        { kind: 'term', value: 'e-mail' }
+      ]
+    });
+    expect(parsed.text).toBe('"design system" e-mail');
+    expect(isPlainTextQuery(parsed)).toBe(false);
+  });
+
+  it('parses field filters, including quoted values and date operators', () => {
+    expect(parseSearchQuery('project:"Project Alpha" type:PDF date:>=2024-01').ast).toEqual({
+      kind: 'and',
+      operands: [
+        { kind: 'field', field: 'project', value: 'Project Alpha' },
+        { kind: 'field', field: 'type', value: 'pdf' },
+        { kind: 'field', field: 'date', value: '2024-01', operator: '>=' }
+      ]
+    });
+    expect(parseSearchQuery('date:2023').ast).toEqual({ kind: 'field', field: 'date', value: '2023', operator: '=' });
+  });
+
+  it('returns a null AST and no errors for an empty query', () => {
+    expect(parseSearchQuery('   ')).toEqual({ ast: null, errors: [], text: '' });
+  });
+
+  it('reports invalid filter values with their position', () => {
+    const { errors } = parseSearchQuery('budget type:exe date:soon tag:');
+    expect(errors.map(e => e.message)).toEqual([
+      expect.stringContaining('Unknown type "exe"'),
+      expect.stringContaining('Invalid date "soon"'),
+      '"tag:" needs a value'
+    ]);
+    expect(errors[0]).toMatchObject({ start: 7, end: 15 });
+  });
+
+  it('reports broken syntax instead of throwing', () => {
+    const messages = (query: string) => parseSearchQuery(query).errors.map(e => e.message);
+    expect(messages('"open phrase')).toEqual(['Missing closing quote']);
+    expect(messages('(a b')).toEqual(['Missing closing parenthesis']);
+    expect(messages('()')).toEqual(['Empty parentheses']);
+    expect(messages('a OR')).toEqual(['OR needs a term on both sides']);
+    expect(messages('a -|b')).toEqual(['"-" must be followed by something to exclude']);
+    expect(messages('a ) b')).toEqual(['Unmatched closing parenthesis']);
+  });
+
+  it('reports every stray closing parenthesis and keeps the terms after them', () => {
+    const parsed = parseSearchQuery('a ) b ) c');
+    expect(parsed.errors.map(e => e.message)).toEqual(['Unmatched closing parenthesis', 'Unmatched closing parenthesis']);
+    expect(parsed.errors.map(e => e.start)).toEqual([2, 6]);
+    expect(parsed.ast).toEqual({
+      kind: 'and',
+      operands: [{ kind: 'term', value: 'a' }, { kind: 'term', value: 'b' }, { kind: 'term', value: 'c' }]
+    });
+  });
+});
+
+describe('words with a colon', () => {
+  it('reads a name that is not a filter as a plain word', () => {
+    expect(parseSearchQuery('Q3: Budget')).toMatchObject({
+      errors: [],
+      ast: { kind: 'and', operands: [{ kind: 'term', value: 'Q3:' }, { kind: 'term', value: 'Budget' }] }
+    });
+    expect(parseSearchQuery('re: invoice').errors).toEqual([]);
+    expect(parseSearchQuery('Note: budget').text).toBe('Note: budget');
+  });
+
+  it('keeps URLs whole', () => {
+    expect(parseSearchQuery('https://example.com/a?b=c')).toEqual({
+      ast: { kind: 'term', value: 'https://example.com/a?b=c' },
+      errors: [],
+      text: 'https://example.com/a?b=c'
+    });
+  });
+
+  it('still reads known filter names in any case', () => {
+    expect(parseSearchQuery('Tag:finance re: invoice').ast).toEqual({
+      kind: 'and',
+      operands: [{ kind: 'field', field: 'tag', value: 'finance' }, { kind: 'term', value: 're:' }, { kind: 'term', value: 'invoice' }]
+    });
+  });
+});
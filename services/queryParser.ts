@@ -0,0 +1,236 @@
+import { Document } from '../types';
+
+// Search query language:
+//   budget report            both words (AND is implicit)
+//   "design system"          exact phrase
+//   -draft                   exclude
+//   pdf OR docx              either side (also `|`)
+//   (a OR b) c               grouping
+//   project:Alpha  tag:finance  type:pdf  title:roadmap
+//   date:2024  date:>2024-01-01  date:<=2023-12
+
+export type QueryField = 'project' | 'tag' | 'type' | 'date' | 'title';
+export type DateOperator = '=' | '>' | '<' | '>=' | '<=';
+
+export type QueryNode =
+  | { kind: 'term', value: string }
+  | { kind: 'phrase', value: string }
+  | { kind: 'field', field: QueryField, value: string, operator?: DateOperator }
+  | { kind: 'not', operand: QueryNode }
+  | { kind: 'and', operands: QueryNode[] }
+  | { kind: 'or', operands: QueryNode[] };
+
+export interface QueryError {
+  message: string;
+  start: number; // Character range in the query string
+  end: number;
+}
+
+export interface ParsedQuery {
+  ast: QueryNode | null; // null for an empty query
+  errors: QueryError[];
+  text: string; // Positive words and phrases only, for ranking and for the AI prompt
+}
+
+const QUERY_FIELDS: QueryField[] = ['project', 'tag', 'type', 'date', 'title'];
+
+const DOCUMENT_TYPES: Document['type'][] = ['pdf', 'docx', 'txt', 'md', 'mp4', 'png', 'jpg', 'mp3', 'wav', 'xlsx', 'csv', 'json', 'link'];
+
+// Year, year-month or full ISO day
+const DATE_PATTERN = /^\d{4}(-\d{2}(-\d{2})?)?$/;
+
+// --- LEXER ---
+
+type Token =
+  | { type: 'word', value: string, start: number, end: number }
+  | { type: 'phrase', value: string, start: number, end: number }
+  | { type: 'field', field: QueryField, value: string, start: number, end: number }
+  | { type: 'minus' | 'or' | 'lparen' | 'rparen', start: number, end: number };
+
+const isBoundary = (ch: string | undefined) => ch === undefined || /[\s()]/.test(ch);
+
+const lex = (input: string, errors: QueryError[]): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): { value: string, end: number } => {
+    const close = input.indexOf('"', start + 1);
+    if (close === -1) {
+      errors.push({ message: 'Missing closing quote', start, end: input.length });
+      return { value: input.slice(start + 1), end: input.length };
+    }
+    return { value: input.slice(start + 1, close), end: close + 1 };
+  };
+
+  const readWord = (start: number) => {
+    let end = start;
+    while (end < input.length && !isBoundary(input[end]) && input[end] !== '"') end++;
+    return end;
+  };
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (ch === '(') { tokens.push({ type: 'lparen', start: i, end: i + 1 }); i++; continue; }
+    if (ch === ')') { tokens.push({ type: 'rparen', start: i, end: i + 1 }); i++; continue; }
+    if (ch === '|') { tokens.push({ type: 'or', start: i, end: i + 1 }); i++; continue; }
+    // A dash only negates at the start of a word ("-draft"), not inside one ("e-mail")
+    if (ch === '-' && !isBoundary(input[i + 1])) { tokens.push({ type: 'minus', start: i, end: i + 1 }); i++; continue; }
+
+    if (ch === '"') {
+      const { value, end } = readQuoted(i);
+      tokens.push({ type: 'phrase', value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    // Only known filter names start a filter; "https://...", "re: invoice" or "Q3:" are plain words
+    const fieldMatch = input.slice(i).match(/^([a-z]+):/i);
+    const field = fieldMatch && QUERY_FIELDS.find(f => f === fieldMatch[1].toLowerCase());
+    if (fieldMatch && field) {
+      const valueStart = i + fieldMatch[0].length;
+      const quoted = input[valueStart] === '"' ? readQuoted(valueStart) : null;
+      const end = quoted ? quoted.end : readWord(valueStart);
+      tokens.push({ type: 'field', field, value: quoted ? quoted.value : input.slice(valueStart, end), start: i, end });
+      i = end;
+      continue;
+    }
+
+    const end = readWord(i);
+    const value = input.slice(i, end);
+    tokens.push(value === 'OR' ? { type: 'or', start: i, end } : { type: 'word', value, start: i, end });
+    i = end;
+  }
+  return tokens;
+};
+
+// --- PARSER ---
+
+const fieldNode = (token: Extract<Token, { type: 'field' }>, errors: QueryError[]): QueryNode | null => {
+  const error = (message: string) => { errors.push({ message, start: token.start, end: token.end }); return null; };
+  const field = token.field;
+  if (!token.value) return error(`"${field}:" needs a value`);
+
+  if (field === 'type') {
+    const value = token.value.toLowerCase();
+    if (!DOCUMENT_TYPES.includes(value as Document['type'])) return error(`Unknown type "${token.value}". Try ${DOCUMENT_TYPES.slice(0, 5).join(', ')}...`);
+    return { kind: 'field', field, value };
+  }
+
+  if (field === 'date') {
+    const match = token.value.match(/^(>=|<=|>|<|=)?(.*)$/)!;
+    if (!DATE_PATTERN.test(match[2])) return error(`Invalid date "${match[2]}". Use YYYY, YYYY-MM or YYYY-MM-DD`);
+    return { kind: 'field', field, value: match[2], operator: (match[1] as DateOperator) || '=' };
+  }
+
+  return { kind: 'field', field, value: token.value };
+};
+
+/**
+ * Recursive descent over: or := and (OR and)* ; and := unary+ ; unary := '-' unary | primary ;
+ * primary := '(' or ')' | phrase | field | word. Errors are collected rather than thrown so the
+ * search bar can show all of them while the user types.
+ */
+const parseTokens = (tokens: Token[], errors: QueryError[]): QueryNode | null => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const parseOr = (): QueryNode | null => {
+    const operands: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) operands.push(first);
+    while (peek()?.type === 'or') {
+      const orToken = tokens[pos++];
+      const next = parseAnd();
+      if (!next || operands.length === 0) errors.push({ message: 'OR needs a term on both sides', start: orToken.start, end: orToken.end });
+      if (next) operands.push(next);
+    }
+    if (operands.length === 0) return null;
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const operands: QueryNode[] = [];
+    while (pos < tokens.length && peek().type !== 'or' && peek().type !== 'rparen') {
+      const node = parseUnary();
+      if (node) operands.push(node);
+    }
+    if (operands.length === 0) return null;
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[pos++];
+    switch (token.type) {
+      case 'minus': {
+        if (pos >= tokens.length || peek().type === 'or' || peek().type === 'rparen') {
+          errors.push({ message: '"-" must be followed by something to exclude', start: token.start, end: token.end });
+          return null;
+        }
+        const operand = parseUnary();
+        return operand ? { kind: 'not', operand } : null;
+      }
+      case 'lparen': {
+        const inner = parseOr();
+        if (peek()?.type === 'rparen') pos++;
+        else errors.push({ message: 'Missing closing parenthesis', start: token.start, end: token.end });
+        if (!inner) errors.push({ message: 'Empty parentheses', start: token.start, end: token.end });
+        return inner;
+      }
+      case 'phrase':
+        return token.value.trim() ? { kind: 'phrase', value: token.value.trim() } : null;
+      case 'field':
+        return fieldNode(token, errors);
+      case 'word':
+        return { kind: 'term', value: token.value };
+      default:
+        return null;
+    }
+  };
+
+  // parseOr only stops early at a stray ')'; each one is reported and the terms after it still count
+  const operands: QueryNode[] = [];
+  const first = parseOr();
+  if (first) operands.push(first);
+  while (pos < tokens.length) {
+    const stray = tokens[pos++];
+    errors.push({ message: 'Unmatched closing parenthesis', start: stray.start, end: stray.end });
+    const rest = parseOr();
+    if (rest) operands.push(rest);
+  }
+  if (operands.length === 0) return null;
+  return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+};
+
+/**
+ * Words and phrases that a match must (or may) contain; excluded ones are left out.
+ */
+const positiveText = (node: QueryNode | null): string[] => {
+  if (!node) return [];
+  switch (node.kind) {
+    case 'term': return [node.value];
+    case 'phrase': return [`"${node.value}"`];
+    case 'and':
+    case 'or': return node.operands.flatMap(positiveText);
+    default: return [];
+  }
+};
+
+/**
+ * Parses a search box query into an AST. Never throws; problems are returned in `errors`.
+ */
+export const parseSearchQuery = (input: string): ParsedQuery => {
+  const errors: QueryError[] = [];
+  const ast = parseTokens(lex(input, errors), errors);
+  return { ast, errors, text: positiveText(ast).join(' ') };
+};
+
+/**
+ * True when the query is nothing but plain words (no filters, phrases or operators).
+ */
+export const isPlainTextQuery = (parsed: ParsedQuery): boolean => {
+  const isPlain = (node: QueryNode): boolean =>
+    node.kind === 'term' || (node.kind === 'and' && node.operands.every(isPlain));
+  return !!parsed.ast && parsed.errors.length === 0 && isPlain(parsed.ast);
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { SearchHistoryEntry } from '../types';
+import { createSearchHistoryEntry, diffResults, previousRunOf, recordSearch } from './searchHistoryService';
+
+const entry = (id: string, query: string, resultIds: string[]): SearchHistoryEntry => ({
+  id, query, resultIds, ranAt: '2026-01-01T00:00:00.000Z', answeredBy: 'local'
+});
+
+describe('search history', () => {
+  it('creates trimmed entries and records them newest first', () => {
+    const first = createSearchHistoryEntry('  budget  ', ['a'], 'ai');
+    expect(first).toMatchObject({ query: 'budget', resultIds: ['a'], answeredBy: 'ai' });
+
+    const history = recordSearch(recordSearch([], first), entry('2', 'roadmap', []));
+    expect(history.map(e => e.query)).toEqual(['roadmap', 'budget']);
+  });
+
+  it('keeps at most 100 entries', () => {
+    let history: SearchHistoryEntry[] = [];
+    for (let i = 0; i < 105; i++) history = recordSearch(history, entry(`${i}`, `q${i}`, []));
+    expect(history).toHaveLength(100);
+    expect(history[99].id).toBe('5');
+  });
+
+  it('finds the earlier run of the same query regardless of case and spacing', () => {
+    const latest = entry('3', 'Budget  Report', ['a', 'c']);
+    const history = [latest, entry('2', 'roadmap', []), entry('1', ' budget report', ['a', 'b'])];
+    const previous = previousRunOf(history, latest)!;
+    expect(previous.id).toBe('1');
+    expect(previousRunOf(history, previous)).toBeUndefined();
+    expect(diffResults(previous, latest)).toEqual({ added: ['c'], removed: ['b'] });
+  });
+});
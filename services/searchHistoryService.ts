@@ -0,0 +1,42 @@
+import { SearchAnswer, SearchHistoryEntry } from '../types';
+
+// Oldest entries are dropped beyond this; every entry is saved with the map
+const MAX_SEARCH_HISTORY = 100;
+
+export interface ResultDiff {
+  added: string[]; // Document ids returned now but not by the previous run
+  removed: string[]; // Document ids the previous run returned that are gone now
+}
+
+/**
+ * Runs of the same query are compared with each other, regardless of case and spacing.
+ */
+const normalizeQuery = (query: string) => query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const createSearchHistoryEntry = (query: string, resultIds: string[], answeredBy: SearchAnswer): SearchHistoryEntry => ({
+  id: `search-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+  query: query.trim(),
+  ranAt: new Date().toISOString(),
+  resultIds,
+  answeredBy
+});
+
+/**
+ * Adds an entry at the front of the history, dropping the oldest beyond the limit.
+ */
+export const recordSearch = (history: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry[] =>
+  [entry, ...history].slice(0, MAX_SEARCH_HISTORY);
+
+/**
+ * The run of the same query just before `entry`, or undefined for a first run.
+ */
+export const previousRunOf = (history: SearchHistoryEntry[], entry: SearchHistoryEntry): SearchHistoryEntry | undefined => {
+  const index = history.indexOf(entry);
+  const query = normalizeQuery(entry.query);
+  return history.slice(index + 1).find(other => normalizeQuery(other.query) === query);
+};
+
+export const diffResults = (previous: SearchHistoryEntry, current: SearchHistoryEntry): ResultDiff => ({
+  added: current.resultIds.filter(id => !previous.resultIds.includes(id)),
+  removed: previous.resultIds.filter(id => !current.resultIds.includes(id))
+});
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { Document } from '../types';
+import { parseSearchQuery } from './queryParser';
+import { buildVocabulary } from './fuzzyMatch';
+import { addToIndex, createSearchIndex, queryDocuments, removeFromIndex, searchIndex, stem, suggestQuery, syncSearchIndex, tokenize } from './searchIndex';
+
+const doc = (id: string, fields: Partial<Document> = {}): Document => ({
+  id,
+  title: '',
+  content: '',
+  project: 'General',
+  date: 'unknown', // No recency boost, so scores depend on the text alone
+  type: 'txt',
+  tags: [],
+  ...fields
+});
+
+describe('analysis', () => {
+  it('folds inflections onto one stem and leaves tokens with digits alone', () => {
+    expect(new Set(['reports', 'reporting', 'reported'].map(stem))).toEqual(new Set([stem('report')]));
+    expect(stem('planning')).toBe(stem('plan'));
+    expect(stem('q1')).toBe('q1');
+  });
+
+  it('drops stop words and single letters but keeps short terms with digits', () => {
+    expect(tokenize('The Q1 report of a UI team')).toEqual(['q1', stem('report'), 'ui', 'team']);
+  });
+});
+
+describe('BM25F ranking', () => {
+  it('ranks a title match above a body match', () => {
+    const index = createSearchIndex();
+    addToIndex(index, doc('body', { title: 'Notes', content: 'budget planning for next year' }));
+    addToIndex(index, doc('title', { title: 'Budget', content: 'numbers for next year' }));
+    expect(searchIndex(index, 'budget').map(hit => hit.docId)).toEqual(['title', 'body']);
+  });
+
+  it('ranks a rare term above a common one', () => {
+    const index = createSearchIndex();
+    addToIndex(index, doc('common', { content: 'meeting' }));
+    addToIndex(index, doc('both', { content: 'meeting' }));
+    addToIndex(index, doc('rare', { content: 'roadmap' }));
+    const [best] = searchIndex(index, 'meeting roadmap');
+    expect(best.docId).toBe('rare');
+  });
+
+  it('boosts recent documents', () => {
+    const index = createSearchIndex();
+    addToIndex(index, doc('old', { content: 'launch', date: '2000-01-01' }));
+    addToIndex(index, doc('new', { content: 'launch', date: new Date().toISOString().slice(0, 10) }));
+    expect(searchIndex(index, 'launch')[0].docId).toBe('new');
+  });
+
+  it('returns nothing for stop words only or an empty index', () => {
+    const index = createSearchIndex();
+    expect(searchIndex(index, 'budget')).toEqual([]);
+    addToIndex(index, doc('a', { content: 'budget' }));
+    expect(searchIndex(index, 'the and of')).toEqual([]);
+  });
+});
+
+describe('prefix and typo matching', () => {
+  const index = createSearchIndex();
+  syncSearchIndex(index, [
+    doc('exact', { title: 'Road works' }),
+    doc('prefix', { title: 'Roadmap' }),
+    doc('report', { title: 'Quarterly report' })
+  ]);
+
+  it('expands a word to title words it starts, ranked below the word itself', () => {
+    expect(searchIndex(index, 'road').map(hit => hit.docId)).toEqual(['exact', 'prefix']);
+  });
+
+  it('corrects typos only when the word itself is not indexed', () => {
+    expect(searchIndex(index, 'reprot').map(hit => hit.docId)).toEqual(['report']);
+    expect(searchIndex(index, 'works').map(hit => hit.docId)).toEqual(['exact']);
+  });
+
+  it('applies the same expansion when filtering with a parsed query', () => {
+    expect(queryDocuments(index, Array.from(index.documents.values(), e => e.source), parseSearchQuery('quartely -road')).map(hit => hit.docId)).toEqual(['report']);
+  });
+});
+
+describe('suggestQuery', () => {
+  const index = createSearchIndex();
+  syncSearchIndex(index, [doc('a', { title: 'Quarterly budget', tags: ['finance'] })]);
+
+  it('replaces unknown words with their closest known word', () => {
+    expect(suggestQuery(index, 'quartrly budgte')).toBe('quarterly budget');
+    expect(suggestQuery(index, 'fiannce type:pdf')).toBe('finance type:pdf');
+  });
+
+  it('also draws on an extra vocabulary such as node names', () => {
+    expect(suggestQuery(index, 'kubernets', buildVocabulary(['Kubernetes cluster']))).toBe('kubernetes');
+  });
+
+  it('returns null when nothing could be corrected', () => {
+    expect(suggestQuery(index, 'budget')).toBeNull();
+    expect(suggestQuery(index, 'zzzzzz')).toBeNull();
+  });
+});
+
+describe('incremental updates', () => {
+  it('replaces a re-added document and cleans up its old terms', () => {
+    const index = createSearchIndex();
+    addToIndex(index, doc('a', { content: 'alpha beta' }));
+    addToIndex(index, doc('a', { content: 'gamma' }));
+    expect(searchIndex(index, 'alpha')).toEqual([]);
+    expect(index.postings.has('alpha')).toBe(false);
+    expect(index.totalFieldLengths).toEqual([0, 0, 1]);
+  });
+
+  it('removes documents and ignores unknown ids', () => {
+    const index = createSearchIndex();
+    addToIndex(index, doc('a', { content: 'alpha' }));
+    removeFromIndex(index, 'missing');
+    removeFromIndex(index, 'a');
+    expect(index.documents.size).toBe(0);
+    expect(index.postings.size).toBe(0);
+    expect(index.totalFieldLengths).toEqual([0, 0, 0]);
+    expect(index.vocabulary.size).toBe(0);
+  });
+
+  it('re-indexes only documents whose object changed', () => {
+    const index = createSearchIndex();
+    const unchanged = doc('a', { content: 'alpha' });
+    syncSearchIndex(index, [unchanged, doc('b', { content: 'beta' })]);
+    const entryBefore = index.documents.get('a');
+
+    syncSearchIndex(index, [unchanged, doc('c', { content: 'gamma' })]);
+    expect(index.documents.get('a')).toBe(entryBefore);
+    expect(Array.from(index.documents.keys()).sort()).toEqual(['a', 'c']);
+    expect(searchIndex(index, 'beta')).toEqual([]);
+  });
+});
+
+describe('queryDocuments', () => {
+  const documents = [
+    doc('alpha-pdf', { title: 'Budget', content: 'quarterly budget', project: 'Alpha', type: 'pdf', date: '2024-03-01', tags: ['finance'] }),
+    doc('alpha-md', { title: 'Notes', content: 'design system draft', project: 'Alpha', type: 'md', date: '2023-06-01' }),
+    doc('beta-pdf', { title: 'Roadmap', content: 'budget overview', project: 'Beta', type: 'pdf', date: '2022-01-01' })
+  ];
+  const index = createSearchIndex();
+  syncSearchIndex(index, documents);
+  const run = (query: string) => queryDocuments(index, documents, parseSearchQuery(query)).map(hit => hit.docId);
+
+  it('filters by fields and ranks by the remaining words', () => {
+    expect(run('budget type:pdf')).toEqual(['alpha-pdf', 'beta-pdf']);
+    expect(run('budget -project:alpha')).toEqual(['beta-pdf']);
+    // The phrase is ranked; the filter-only OR branch follows unranked
+    expect(run('tag:finance OR "design system"')).toEqual(['alpha-md', 'alpha-pdf']);
+  });
+
+  it('compares dates at the precision given', () => {
+    expect(run('date:>2023')).toEqual(['alpha-pdf']);
+    expect(run('date:<=2023-06')).toEqual(['alpha-md', 'beta-pdf']);
+  });
+
+  it('returns nothing while the query has errors', () => {
+    expect(run('budget type:exe')).toEqual([]);
+  });
+
+  it('admits semantic matches that pass the filters and blends the scores', () => {
+    const semantic = new Map([['alpha-md', 0.9], ['beta-pdf', 0.9]]);
+    const hybrid = (query: string) => queryDocuments(index, documents, parseSearchQuery(query), semantic).map(hit => hit.docId);
+    // The exact keyword match still comes first
+    expect(hybrid('quarterly')).toEqual(['alpha-pdf', 'alpha-md', 'beta-pdf']);
+    // Filters and exclusions still apply to semantic matches
+    expect(hybrid('quarterly project:alpha')).toEqual(['alpha-pdf', 'alpha-md']);
+    expect(hybrid('quarterly -draft')).toEqual(['alpha-pdf', 'beta-pdf']);
+  });
+});
@@ -0,0 +1,429 @@
+import { Document } from '../types';
+import { ParsedQuery, QueryNode, parseSearchQuery } from './queryParser';
+import { Vocabulary, addToVocabulary, findSimilarWords, removeFromVocabulary, splitWords } from './fuzzyMatch';
+
+// In-memory inverted index over documents, ranked with BM25F (BM25 with per-field weights and length normalization).
+// The index is updated incrementally: only added, changed or removed documents are (re)processed.
+
+export type SearchField = 'title' | 'tags' | 'content';
+
+const FIELDS: SearchField[] = ['title', 'tags', 'content'];
+
+// A match in the title counts four times as much as one in the body; tags sit in between
+export const FIELD_WEIGHTS: Record<SearchField, number> = { title: 4, tags: 3, content: 1 };
+// How strongly a field's length dampens its term frequency (0 = not at all)
+const FIELD_LENGTH_NORMALIZATION: Record<SearchField, number> = { title: 0.5, tags: 0.3, content: 0.75 };
+// Term frequency saturation
+const BM25_K1 = 1.2;
+
+// Newer documents get up to this much extra score, decaying linearly to 0 over RECENCY_DECAY_DAYS
+const RECENCY_MAX_BOOST = 1;
+const RECENCY_DECAY_DAYS = 365;
+
+// Expanded query words count for less than the word as typed, so exact matches rank first
+const PREFIX_MATCH_WEIGHT = 0.8;
+const FUZZY_MATCH_WEIGHT: Record<number, number> = { 1: 0.6, 2: 0.4 };
+
+// Share of the hybrid score that comes from keywords; the rest is semantic similarity
+const KEYWORD_SHARE = 0.6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'than',
+  'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'to', 'too', 'was', 'we', 'were',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Suffixes stripped after plurals, longest first; each maps to its replacement
+const SUFFIXES: [string, string][] = [
+  ['ational', 'ate'], ['ization', 'ize'], ['fulness', 'ful'], ['iveness', 'ive'], ['ousness', 'ous'],
+  ['ations', 'ate'], ['ation', 'ate'], ['ement', ''], ['ment', ''], ['ness', ''], ['ingly', ''], ['edly', ''],
+  ['ing', ''], ['ed', ''], ['ly', '']
+];
+
+export interface IndexedDocument {
+  source: Document; // The exact object that was indexed, used to detect changes
+  terms: Map<string, number[]>; // term -> frequency per field (in FIELDS order)
+  fieldLengths: number[];
+  recency: number;
+  vocabularyWords: string[]; // Unstemmed title and tag words contributed to the vocabulary
+}
+
+export interface SearchIndex {
+  documents: Map<string, IndexedDocument>;
+  postings: Map<string, Set<string>>; // term -> ids of documents containing it
+  totalFieldLengths: number[];
+  vocabulary: Vocabulary; // Title and tag words, the candidates for prefix and typo matching
+}
+
+export interface SearchHit {
+  docId: string;
+  score: number;
+}
+
+/**
+ * Document id -> similarity (0..1) of its best chunk to the query, from the vector index.
+ */
+export type SemanticScores = Map<string, number>;
+
+/**
+ * An index term a query word stands for, with how much a hit on it counts (1 = the word itself).
+ */
+interface TermExpansion {
+  term: string;
+  weight: number;
+}
+
+// --- ANALYSIS ---
+
+/**
+ * Light English stemmer: folds plurals and common inflections ("reports", "reporting", "reported" -> "report").
+ * Tokens containing digits ("q1", "2024") are left alone.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let result = word;
+  if (result.endsWith('ies') && result.length > 4) result = result.slice(0, -3) + 'y';
+  else if (result.endsWith('sses')) result = result.slice(0, -2);
+  else if (result.endsWith('s') && !/(ss|us|is)$/.test(result)) result = result.slice(0, -1);
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= 3) {
+      result = result.slice(0, -suffix.length) + replacement;
+      // "planning" -> "plann" -> "plan"
+      if (!replacement && /([^aeiouslz])\1$/.test(result)) result = result.slice(0, -1);
+      break;
+    }
+  }
+
+  // "create" and "created" should meet at "creat"
+  if (result.endsWith('e') && result.length > 4) result = result.slice(0, -1);
+  return result;
+};
+
+/**
+ * Lowercases, splits on anything that is not a letter or digit, drops stop words and stems.
+ * Short terms such as "Q1" or "UI" are kept.
+ */
+export const tokenize = (text: string): string[] => significantWords(text).map(stem);
+
+/**
+ * Lowercased words minus stop words and single letters, before stemming.
+ */
+const significantWords = (text: string): string[] =>
+  splitWords(text).filter(token => !STOP_WORDS.has(token) && (token.length > 1 || /\d/.test(token)));
+
+const fieldText = (doc: Document, field: SearchField): string => {
+  if (field === 'title') return doc.title;
+  if (field === 'tags') return (doc.tags || []).join(' ');
+  return doc.content;
+};
+
+/**
+ * 1 for a document dated today, falling to 0 after RECENCY_DECAY_DAYS. Unparseable dates get 0.
+ */
+const recencyOf = (date: string): number => {
+  const time = new Date(date).getTime();
+  if (Number.isNaN(time)) return 0;
+  const ageDays = Math.abs(Date.now() - time) / (1000 * 60 * 60 * 24);
+  return Math.max(0, 1 - ageDays / RECENCY_DECAY_DAYS);
+};
+
+// --- INDEXING ---
+
+export const createSearchIndex = (): SearchIndex => ({
+  documents: new Map(),
+  postings: new Map(),
+  totalFieldLengths: FIELDS.map(() => 0),
+  vocabulary: new Map()
+});
+
+/**
+ * Removes a document from the index. Unknown ids are ignored.
+ */
+export const removeFromIndex = (index: SearchIndex, docId: string) => {
+  const entry = index.documents.get(docId);
+  if (!entry) return;
+  entry.terms.forEach((_, term) => {
+    const postings = index.postings.get(term);
+    postings?.delete(docId);
+    if (postings && postings.size === 0) index.postings.delete(term);
+  });
+  entry.fieldLengths.forEach((length, i) => { index.totalFieldLengths[i] -= length; });
+  removeFromVocabulary(index.vocabulary, entry.vocabularyWords);
+  index.documents.delete(docId);
+};
+
+/**
+ * Adds a document, replacing any previous version with the same id.
+ */
+export const addToIndex = (index: SearchIndex, doc: Document) => {
+  removeFromIndex(index, doc.id);
+
+  const terms = new Map<string, number[]>();
+  const fieldLengths = FIELDS.map((field, fieldIndex) => {
+    const tokens = tokenize(fieldText(doc, field));
+    tokens.forEach(term => {
+      let counts = terms.get(term);
+      if (!counts) {
+        counts = FIELDS.map(() => 0);
+        terms.set(term, counts);
+      }
+      counts[fieldIndex]++;
+    });
+    return tokens.length;
+  });
+
+  terms.forEach((_, term) => {
+    let postings = index.postings.get(term);
+    if (!postings) {
+      postings = new Set();
+      index.postings.set(term, postings);
+    }
+    postings.add(doc.id);
+  });
+  fieldLengths.forEach((length, i) => { index.totalFieldLengths[i] += length; });
+  const vocabularyWords = Array.from(new Set(significantWords(`${doc.title} ${(doc.tags || []).join(' ')}`)));
+  addToVocabulary(index.vocabulary, vocabularyWords);
+  index.documents.set(doc.id, { source: doc, terms, fieldLengths, recency: recencyOf(doc.date), vocabularyWords });
+};
+
+/**
+ * Brings the index in line with the current document list. Documents are compared by reference,
+ * so only new, edited or deleted documents cost any work.
+ */
+export const syncSearchIndex = (index: SearchIndex, documents: Document[]) => {
+  const currentIds = new Set<string>();
+  documents.forEach(doc => {
+    currentIds.add(doc.id);
+    if (index.documents.get(doc.id)?.source !== doc) addToIndex(index, doc);
+  });
+  Array.from(index.documents.keys()).forEach(id => {
+    if (!currentIds.has(id)) removeFromIndex(index, id);
+  });
+};
+
+// --- RANKING ---
+
+/**
+ * Index terms a query word stands for: the word itself, title/tag words it is a prefix of, and -
+ * only when the word itself is not in the index - words within its typo budget.
+ */
+const expandWord = (index: SearchIndex, word: string): TermExpansion[] => {
+  const exact = stem(word);
+  const hasExact = index.postings.has(exact);
+  const expansions = new Map<string, number>();
+  if (hasExact) expansions.set(exact, 1);
+
+  findSimilarWords(word, [index.vocabulary]).forEach(similar => {
+    if (!similar.isPrefix && hasExact) return;
+    const weight = similar.isPrefix ? PREFIX_MATCH_WEIGHT : FUZZY_MATCH_WEIGHT[similar.distance] || 0;
+    const term = stem(similar.word);
+    if (weight > (expansions.get(term) || 0) && index.postings.has(term)) expansions.set(term, weight);
+  });
+  return Array.from(expansions, ([term, weight]) => ({ term, weight }));
+};
+
+/**
+ * Memoizes word expansion for the duration of one query.
+ */
+const createExpander = (index: SearchIndex) => {
+  const cache = new Map<string, TermExpansion[]>();
+  return (word: string) => {
+    let expansions = cache.get(word);
+    if (!expansions) {
+      expansions = expandWord(index, word);
+      cache.set(word, expansions);
+    }
+    return expansions;
+  };
+};
+
+/**
+ * Ranks indexed documents against a free-text query, best first. Documents matching no term are left out.
+ * Each query word scores a document once, through its best-weighted expansion.
+ */
+export const searchIndex = (index: SearchIndex, query: string, expand = createExpander(index)): SearchHit[] => {
+  const queryWords = Array.from(new Set(significantWords(query)));
+  const docCount = index.documents.size;
+  if (queryWords.length === 0 || docCount === 0) return [];
+
+  const averageLengths = index.totalFieldLengths.map(total => total / docCount || 1);
+  const scores = new Map<string, number>();
+
+  const termScore = (term: string, entry: IndexedDocument, idf: number) => {
+    const counts = entry.terms.get(term)!;
+    // Weighted, length-normalized frequency summed over fields, then saturated once
+    const weightedTf = FIELDS.reduce((sum, field, i) => {
+      if (counts[i] === 0) return sum;
+      const b = FIELD_LENGTH_NORMALIZATION[field];
+      return sum + FIELD_WEIGHTS[field] * counts[i] / (1 - b + b * entry.fieldLengths[i] / averageLengths[i]);
+    }, 0);
+    return idf * weightedTf / (BM25_K1 + weightedTf);
+  };
+
+  queryWords.forEach(word => {
+    const best = new Map<string, number>();
+    expand(word).forEach(({ term, weight }) => {
+      const postings = index.postings.get(term)!;
+      const idf = Math.log(1 + (docCount - postings.size + 0.5) / (postings.size + 0.5));
+      postings.forEach(docId => {
+        const score = weight * termScore(term, index.documents.get(docId)!, idf);
+        if (score > (best.get(docId) || 0)) best.set(docId, score);
+      });
+    });
+    best.forEach((score, docId) => scores.set(docId, (scores.get(docId) || 0) + score));
+  });
+
+  return Array.from(scores.entries())
+    .map(([docId, score]) => ({ docId, score: score + RECENCY_MAX_BOOST * index.documents.get(docId)!.recency }))
+    .sort((a, b) => b.score - a.score);
+};
+
+/**
+ * What to highlight for a query: index terms (stems, including prefix and typo expansions) with their
+ * match weight, and exact phrases. Excluded words and phrases are not highlighted.
+ */
+export const highlightTermsFor = (index: SearchIndex, query: string): { terms: Map<string, number>, phrases: string[] } => {
+  const parsed = parseSearchQuery(query);
+  const expand = createExpander(index);
+  const terms = new Map<string, number>();
+  const phrases: string[] = [];
+
+  const walk = (node: QueryNode | null) => {
+    if (!node) return;
+    if (node.kind === 'term') {
+      significantWords(node.value).forEach(word => {
+        // The word as typed is highlighted even when the index has no exact entry for it
+        terms.set(stem(word), 1);
+        expand(word).forEach(({ term, weight }) => { if (weight > (terms.get(term) || 0)) terms.set(term, weight); });
+      });
+    } else if (node.kind === 'phrase') {
+      phrases.push(node.value);
+    } else if (node.kind === 'and' || node.kind === 'or') {
+      node.operands.forEach(walk);
+    }
+  };
+  walk(parsed.ast);
+  return { terms, phrases };
+};
+
+// --- QUERIES ---
+
+const collapseWhitespace = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+
+const matchesField = (node: Extract<QueryNode, { kind: 'field' }>, doc: Document): boolean => {
+  const value = node.value.toLowerCase();
+  switch (node.field) {
+    case 'project': return doc.project.toLowerCase().includes(value);
+    case 'title': return doc.title.toLowerCase().includes(value);
+    case 'tag': return (doc.tags || []).some(tag => tag.toLowerCase() === value);
+    case 'type': return doc.type === value;
+    case 'date': {
+      // Compare at the precision given: date:>2024 means "after 2024", not "after 2024-01-01"
+      const docPart = doc.date.slice(0, value.length);
+      if (node.operator === '>') return docPart > value;
+      if (node.operator === '>=') return docPart >= value;
+      if (node.operator === '<') return docPart < value;
+      if (node.operator === '<=') return docPart <= value;
+      return docPart === value;
+    }
+  }
+};
+
+/**
+ * `relaxWords` accepts any document for positive words and phrases, leaving only filters and exclusions:
+ * used for semantic matches, which are related to the query without sharing its words.
+ */
+const matchesNode = (node: QueryNode, doc: Document, entry: IndexedDocument | undefined, expand: (word: string) => TermExpansion[], relaxWords = false): boolean => {
+  switch (node.kind) {
+    case 'term':
+      if (relaxWords) return true;
+      // Stop words have no expansions to check and match everything
+      return significantWords(node.value).every(word => expand(word).some(({ term }) => !!entry?.terms.has(term)));
+    case 'phrase': {
+      if (relaxWords) return true;
+      const phrase = collapseWhitespace(node.value);
+      return [doc.title, (doc.tags || []).join(' '), doc.content].some(text => collapseWhitespace(text).includes(phrase));
+    }
+    case 'field': return matchesField(node, doc);
+    // An excluded word still excludes
+    case 'not': return !matchesNode(node.operand, doc, entry, expand);
+    case 'and': return node.operands.every(operand => matchesNode(operand, doc, entry, expand, relaxWords));
+    case 'or': return node.operands.some(operand => matchesNode(operand, doc, entry, expand, relaxWords));
+  }
+};
+
+/**
+ * Blends keyword and semantic relevance into one 0..1 score. Keyword scores are relative to the best hit,
+ * so an exact title match still beats a merely related document.
+ */
+const hybridRank = (keywordHits: SearchHit[], semantic: SemanticScores, candidateIds: Set<string>): SearchHit[] => {
+  const maxKeyword = Math.max(0, ...keywordHits.map(hit => hit.score));
+  const keyword = new Map(keywordHits.map(hit => [hit.docId, maxKeyword > 0 ? hit.score / maxKeyword : 0]));
+  const ids = new Set([...keyword.keys(), ...Array.from(semantic.keys()).filter(id => candidateIds.has(id))]);
+  return Array.from(ids, docId => ({
+    docId,
+    score: KEYWORD_SHARE * (keyword.get(docId) || 0) + (1 - KEYWORD_SHARE) * (semantic.get(docId) || 0)
+  })).sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Runs a parsed query: filters documents with the full AST, then ranks the survivors by the query's words.
+ * With semantic scores, documents that pass the filters and are close in meaning also match, and the ranking
+ * blends both signals. Matches without any ranked words (filter-only queries, OR branches of filters) follow, newest first.
+ */
+export const queryDocuments = (index: SearchIndex, documents: Document[], query: ParsedQuery, semantic?: SemanticScores): SearchHit[] => {
+  const ast = query.ast;
+  if (!ast || query.errors.length > 0) return [];
+
+  const expand = createExpander(index);
+  const matching = documents.filter(doc => matchesNode(ast, doc, index.documents.get(doc.id), expand));
+  const matchingIds = new Set(matching.map(doc => doc.id));
+  let ranked = query.text ? searchIndex(index, query.text, expand).filter(hit => matchingIds.has(hit.docId)) : [];
+
+  if (semantic && semantic.size > 0 && query.text) {
+    const semanticMatches = documents.filter(doc =>
+      !matchingIds.has(doc.id) && semantic.has(doc.id) && matchesNode(ast, doc, index.documents.get(doc.id), expand, true)
+    );
+    semanticMatches.forEach(doc => { matching.push(doc); matchingIds.add(doc.id); });
+    ranked = hybridRank(ranked, semantic, matchingIds);
+  }
+  const rankedIds = new Set(ranked.map(hit => hit.docId));
+
+  const unranked = matching
+    .filter(doc => !rankedIds.has(doc.id))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map(doc => ({ docId: doc.id, score: 0 }));
+  return [...ranked, ...unranked];
+};
+
+/**
+ * Ranks documents for a natural-language question. Unlike queryDocuments any word may match and query syntax
+ * has no meaning; semantic scores are blended in when given.
+ */
+export const rankForQuestion = (index: SearchIndex, documents: Document[], question: string, semantic?: SemanticScores): SearchHit[] => {
+  const keywordHits = searchIndex(index, question);
+  if (!semantic || semantic.size === 0) return keywordHits;
+  return hybridRank(keywordHits, semantic, new Set(documents.map(doc => doc.id)));
+};
+
+/**
+ * "Did you mean" for a query without hits: each word that is neither indexed nor a known title, tag or
+ * node-name word is replaced by its closest known word. Returns null when nothing could be corrected.
+ */
+export const suggestQuery = (index: SearchIndex, query: string, extraVocabulary?: Vocabulary): string | null => {
+  const vocabularies = extraVocabulary ? [index.vocabulary, extraVocabulary] : [index.vocabulary];
+  let suggestion = query;
+
+  // Only free-text words are candidates; filter names and values are left to the query parser
+  Array.from(new Set(significantWords(parseSearchQuery(query).text))).forEach(word => {
+    if (index.postings.has(stem(word)) || vocabularies.some(v => v.has(word))) return;
+    const best = findSimilarWords(word, vocabularies, { prefix: false })[0];
+    if (!best) return;
+    // Whole words only, and never a filter name ("type:")
+    suggestion = suggestion.replace(new RegExp(`(^|[^\\p{L}\\p{N}])${word}(?![\\p{L}\\p{N}:])`, 'giu'), `$1${best.word}`);
+  });
+  return suggestion !== query ? suggestion : null;
+};
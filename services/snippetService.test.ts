@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Document } from '../types';
+import { createSearchIndex, syncSearchIndex } from './searchIndex';
+import { buildSnippets, snippetDescription } from './snippetService';
+
+const doc = (fields: Partial<Document>): Document => ({
+  id: 'd1', title: 'Notes', content: '', project: 'General', date: 'unknown', type: 'txt', tags: [], ...fields
+});
+
+const snippetsFor = (document: Document, query: string) => {
+  const index = createSearchIndex();
+  syncSearchIndex(index, [document]);
+  return buildSnippets(document, query, index);
+};
+
+const highlighted = (snippet: { text: string, highlights: [number, number][] }) =>
+  snippet.highlights.map(([start, end]) => snippet.text.slice(start, end));
+
+describe('buildSnippets', () => {
+  it('highlights stemmed matches in the title, tags and content', () => {
+    const snippets = snippetsFor(doc({ title: 'Budget report', tags: ['reports'], content: 'We are reporting on the budget.' }), 'report');
+    expect(snippets.map(s => s.field)).toEqual(['title', 'tags', 'content']);
+    expect(snippets.map(highlighted)).toEqual([['report'], ['reports'], ['reporting']]);
+  });
+
+  it('cuts long content at word boundaries around the best passages', () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(20);
+    const content = `${filler}the budget was approved ${filler}budget and roadmap review ${filler}`;
+    const [best, second] = snippetsFor(doc({ content }), 'budget roadmap');
+
+    // The passage with both words wins over the one with only "budget"
+    expect(highlighted(best)).toEqual(['budget', 'roadmap']);
+    expect(highlighted(second)).toEqual(['budget']);
+    expect(best.text.startsWith('…')).toBe(true);
+    expect(best.text.endsWith('…')).toBe(true);
+  });
+
+  it('keeps highlight offsets right after collapsing whitespace', () => {
+    const [snippet] = snippetsFor(doc({ content: 'first\n\n\nline   then   budget' }), 'budget');
+    expect(snippet.text).toBe('first line then budget');
+    expect(highlighted(snippet)).toEqual(['budget']);
+  });
+
+  it('matches phrases and leaves excluded words unhighlighted', () => {
+    const [snippet] = snippetsFor(doc({ content: 'The design system is not a draft.' }), '"design system" -draft');
+    expect(highlighted(snippet)).toEqual(['design system']);
+  });
+
+  it('labels content passages with their PDF page', () => {
+    const firstPage = 'intro '.repeat(20);
+    const content = `${firstPage}page two opens with a few words before the Budget line.`;
+    const snippets = snippetsFor(doc({ type: 'pdf', content, pageOffsets: [0, firstPage.length] }), 'budget');
+    expect(snippets[0].page).toBe(2);
+    expect(snippetDescription(snippets)).toBe('p. 2: …two opens with a few words before the Budget line.');
+  });
+
+  it('returns nothing for a query without words', () => {
+    expect(snippetsFor(doc({ content: 'anything' }), 'the')).toEqual([]);
+  });
+});
+
+describe('snippetDescription', () => {
+  it('prefers a content passage over the title', () => {
+    const snippets = snippetsFor(doc({ title: 'Budget', content: 'Budget for the year' }), 'budget');
+    expect(snippetDescription(snippets)).toBe('Budget for the year');
+    expect(snippetDescription([])).toBeNull();
+  });
+});
@@ -0,0 +1,138 @@
+import { Document } from '../types';
+import { FIELD_WEIGHTS, SearchField, SearchIndex, highlightTermsFor, stem } from './searchIndex';
+import { pageForOffset } from './pageOffsets';
+
+export interface Snippet {
+  field: SearchField;
+  text: string; // Excerpt, with an ellipsis where it was cut
+  highlights: [number, number][]; // Matched ranges within `text`
+  offset: number; // Where the excerpt starts in the field
+  page?: number; // PDF page of a content excerpt
+  score: number;
+}
+
+interface Match {
+  start: number;
+  end: number;
+  key: string; // Term or phrase matched, to count distinct terms in a passage
+  weight: number;
+}
+
+// Characters of context shown around the first match of a passage
+const PASSAGE_LENGTH = 180;
+const LEADING_CONTEXT = 40;
+const MAX_CONTENT_PASSAGES = 2;
+const ELLIPSIS = '…';
+
+/**
+ * Finds query terms (compared by stem) and phrases in a text.
+ */
+const findMatches = (text: string, terms: Map<string, number>, phrases: string[]): Match[] => {
+  const matches: Match[] = [];
+  for (const word of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const key = stem(word[0].toLowerCase());
+    const weight = terms.get(key);
+    if (weight) matches.push({ start: word.index!, end: word.index! + word[0].length, key, weight });
+  }
+
+  const lower = text.toLowerCase();
+  phrases.forEach(phrase => {
+    const needle = phrase.toLowerCase();
+    for (let at = lower.indexOf(needle); at !== -1; at = lower.indexOf(needle, at + needle.length)) {
+      // A phrase is worth more than its words on their own
+      matches.push({ start: at, end: at + needle.length, key: `"${needle}"`, weight: 2 });
+    }
+  });
+
+  return matches.sort((a, b) => a.start - b.start || b.end - a.end);
+};
+
+/**
+ * Distinct terms count most, repeats a little: a passage with both query words beats one with the same word twice.
+ */
+const scoreMatches = (matches: Match[]) => {
+  const best = new Map<string, number>();
+  matches.forEach(m => best.set(m.key, Math.max(best.get(m.key) || 0, m.weight)));
+  return Array.from(best.values()).reduce((sum, w) => sum + w, 0) * 2 + matches.length * 0.25;
+};
+
+/**
+ * Cuts `text[start, end)` at word boundaries and maps matches into the excerpt.
+ */
+const excerpt = (text: string, start: number, end: number, matches: Match[]) => {
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < (matches[0]?.start ?? end)) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > (matches[matches.length - 1]?.end ?? start)) end = space;
+  }
+
+  const prefix = start > 0 ? ELLIPSIS : '';
+  const suffix = end < text.length ? ELLIPSIS : '';
+  // Newlines would break the one-paragraph layout of tooltips and descriptions
+  const body = text.slice(start, end).replace(/\s+/g, ' ');
+  // Collapsing whitespace shifts offsets, so map each match through the same collapse
+  const shift = (offset: number) => prefix.length + text.slice(start, offset).replace(/\s+/g, ' ').length;
+  const highlights = matches
+    .filter(m => m.start >= start && m.end <= end)
+    .map(m => [shift(m.start), shift(m.end)] as [number, number]);
+  return { text: prefix + body + suffix, highlights, offset: start };
+};
+
+const contentPassages = (text: string, matches: Match[]) => {
+  // Candidate windows start just before each match; the best non-overlapping ones win
+  const windows = matches.map(anchor => {
+    const start = Math.max(0, anchor.start - LEADING_CONTEXT);
+    const end = Math.min(text.length, start + PASSAGE_LENGTH);
+    const inside = matches.filter(m => m.start >= start && m.end <= end);
+    return { start, end, inside, score: scoreMatches(inside) };
+  }).sort((a, b) => b.score - a.score || a.start - b.start);
+
+  const chosen: typeof windows = [];
+  for (const window of windows) {
+    if (chosen.length >= MAX_CONTENT_PASSAGES) break;
+    if (chosen.some(c => window.start < c.end && c.start < window.end)) continue;
+    chosen.push(window);
+  }
+  return chosen;
+};
+
+/**
+ * Best-scoring passages of a document for a query, from title, tags and content, best first.
+ * Title and tag matches count with the same field weights as the ranking.
+ */
+export const buildSnippets = (doc: Document, query: string, index: SearchIndex): Snippet[] => {
+  const { terms, phrases } = highlightTermsFor(index, query);
+  if (terms.size === 0 && phrases.length === 0) return [];
+
+  const snippets: Snippet[] = [];
+  const fields: [SearchField, string][] = [['title', doc.title], ['tags', (doc.tags || []).join(', ')]];
+  fields.forEach(([field, text]) => {
+    const matches = findMatches(text, terms, phrases);
+    if (matches.length === 0) return;
+    snippets.push({ field, ...excerpt(text, 0, text.length, matches), score: scoreMatches(matches) * FIELD_WEIGHTS[field] });
+  });
+
+  const contentMatches = findMatches(doc.content, terms, phrases);
+  contentPassages(doc.content, contentMatches).forEach(passage => {
+    const cut = excerpt(doc.content, passage.start, passage.end, passage.inside);
+    snippets.push({
+      field: 'content',
+      ...cut,
+      page: doc.pageOffsets ? pageForOffset(doc.pageOffsets, cut.offset) : undefined,
+      score: passage.score * FIELD_WEIGHTS.content
+    });
+  });
+
+  return snippets.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Best passage as plain text for node descriptions: content is preferred since the title is already the node label.
+ */
+export const snippetDescription = (snippets: Snippet[]): string | null => {
+  const best = snippets.find(s => s.field === 'content') || snippets[0];
+  return best ? (best.page ? `p. ${best.page}: ${best.text}` : best.text) : null;
+};
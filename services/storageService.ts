@@ -0,0 +1,342 @@
+import { Document, GraphData, Link, Node, WorkspaceSettings, MindMapWorkspace, MapSummary, LayoutMode } from '../types';
+
+const DB_NAME = 'mindsearch-ai';
+const DB_VERSION = 3;
+
+const MAP_STORE = 'maps';
+const SETTINGS_STORE = 'settings';
+const BLOB_STORE = 'blobs';
+const AI_CACHE_STORE = 'aiResponses';
+
+const SETTINGS_KEY = 'app';
+const ACTIVE_MAP_KEY = 'activeMapId';
+
+// Version 1 kept a single workspace under this store/key
+const LEGACY_WORKSPACE_STORE = 'workspace';
+const LEGACY_WORKSPACE_KEY = 'current';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Wraps an IDBRequest in a Promise.
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolves once every request queued on the transaction has been committed.
+ */
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+
+/**
+ * Blobs are namespaced per map so duplicated maps can be deleted independently.
+ */
+const blobKey = (mapId: string, documentId: string) => `${mapId}:${documentId}`;
+
+// Every blob key of one map sorts between these bounds
+const mapBlobRange = (mapId: string) => IDBKeyRange.bound(`${mapId}:`, `${mapId}:\uffff`);
+
+export const createMapId = () => `map-${Date.now()}-${Math.floor(Math.random() * 100000)}`;
+
+/**
+ * Moves the single v1 workspace into the maps store and re-keys its blobs under the new map.
+ */
+const migrateLegacyWorkspace = (tx: IDBTransaction) => {
+  const legacyStore = tx.objectStore(LEGACY_WORKSPACE_STORE);
+  const getRequest = legacyStore.get(LEGACY_WORKSPACE_KEY);
+
+  getRequest.onsuccess = () => {
+    const legacy = getRequest.result;
+    if (legacy) {
+      const mapId = createMapId();
+      const { layoutMode, ...settings } = legacy.settings || {};
+      const map: MindMapWorkspace = {
+        id: mapId,
+        name: 'My Mind Map',
+        graph: legacy.graph,
+        documents: legacy.documents,
+        layoutMode: layoutMode || LayoutMode.SPIDER,
+        createdAt: legacy.savedAt,
+        updatedAt: legacy.savedAt
+      };
+      tx.objectStore(MAP_STORE).put(map);
+      tx.objectStore(SETTINGS_STORE).put(settings, SETTINGS_KEY);
+      tx.objectStore(SETTINGS_STORE).put(mapId, ACTIVE_MAP_KEY);
+
+      // Read everything first: re-keyed entries would otherwise be revisited by a cursor
+      const blobStore = tx.objectStore(BLOB_STORE);
+      const keysRequest = blobStore.getAllKeys();
+      const valuesRequest = blobStore.getAll();
+      valuesRequest.onsuccess = () => {
+        keysRequest.result.forEach((key, i) => {
+          blobStore.delete(key);
+          blobStore.put(valuesRequest.result[i], blobKey(mapId, String(key)));
+        });
+      };
+    }
+    tx.db.deleteObjectStore(LEGACY_WORKSPACE_STORE);
+  };
+};
+
+/**
+ * Opens (and lazily upgrades) the app database. The connection is shared for the lifetime of the page.
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(MAP_STORE)) db.createObjectStore(MAP_STORE, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+      if (!db.objectStoreNames.contains(BLOB_STORE)) db.createObjectStore(BLOB_STORE);
+      if (!db.objectStoreNames.contains(AI_CACHE_STORE)) db.createObjectStore(AI_CACHE_STORE);
+
+      if (db.objectStoreNames.contains(LEGACY_WORKSPACE_STORE) && request.transaction) {
+        migrateLegacyWorkspace(request.transaction);
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed (e.g. private mode)
+  dbPromise.catch(() => { dbPromise = null; });
+
+  return dbPromise;
+};
+
+// --- SERIALIZATION ---
+
+const linkEndpointId = (endpoint: string | Node) => typeof endpoint === 'object' ? endpoint.id : endpoint;
+
+/**
+ * Strips simulation-only state (velocities, resolved link objects) so the graph can be stored as plain data.
+ */
+export const serializeGraph = (graph: GraphData): GraphData => ({
+  nodes: graph.nodes.map(({ vx, vy, ...node }) => ({ ...node })),
+  links: graph.links.map((l): Link => ({
+    source: linkEndpointId(l.source),
+    target: linkEndpointId(l.target),
+    value: l.value
+  }))
+});
+
+/**
+ * Blob URLs die with the page, so they are never persisted. They are rebuilt from the blob store on load.
+ */
+const serializeDocuments = (documents: Document[]): Document[] =>
+  documents.map(({ fileUrl, ...doc }) => ({ ...doc }));
+
+export const summarizeMap = (map: MindMapWorkspace): MapSummary => ({
+  id: map.id,
+  name: map.name,
+  layoutMode: map.layoutMode,
+  nodeCount: map.graph.nodes.length,
+  documentCount: map.documents.length,
+  updatedAt: map.updatedAt
+});
+
+// --- MAPS ---
+
+/**
+ * Lists every stored map, most recently updated first.
+ */
+export const listMaps = async (): Promise<MapSummary[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MAP_STORE, 'readonly');
+  const maps = await requestToPromise<MindMapWorkspace[]>(tx.objectStore(MAP_STORE).getAll());
+  return maps
+    .map(summarizeMap)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Saves a map and returns the stored copy (with a fresh updatedAt).
+ */
+export const saveMap = async (map: MindMapWorkspace): Promise<MindMapWorkspace> => {
+  const db = await openDatabase();
+  const record: MindMapWorkspace = {
+    ...map,
+    graph: serializeGraph(map.graph),
+    documents: serializeDocuments(map.documents),
+    updatedAt: new Date().toISOString()
+  };
+
+  const tx = db.transaction(MAP_STORE, 'readwrite');
+  tx.objectStore(MAP_STORE).put(record);
+  await transactionDone(tx);
+  return record;
+};
+
+/**
+ * Loads a map and recreates blob URLs for its uploaded files. Returns null for unknown ids.
+ */
+export const loadMap = async (mapId: string): Promise<MindMapWorkspace | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([MAP_STORE, BLOB_STORE], 'readonly');
+  const record = await requestToPromise<MindMapWorkspace | undefined>(tx.objectStore(MAP_STORE).get(mapId));
+  if (!record) return null;
+
+  const blobStore = tx.objectStore(BLOB_STORE);
+  const documents = await Promise.all(record.documents.map(async doc => {
+    const blob = await requestToPromise<Blob | undefined>(blobStore.get(blobKey(mapId, doc.id)));
+    return blob ? { ...doc, fileUrl: URL.createObjectURL(blob) } : doc;
+  }));
+
+  return { ...record, documents };
+};
+
+/**
+ * Copies a stored map (including its file blobs) under a new id and name.
+ */
+export const duplicateMap = async (mapId: string, name: string): Promise<MindMapWorkspace | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([MAP_STORE, BLOB_STORE], 'readwrite');
+  const source = await requestToPromise<MindMapWorkspace | undefined>(tx.objectStore(MAP_STORE).get(mapId));
+  if (!source) return null;
+
+  const now = new Date().toISOString();
+  const copy: MindMapWorkspace = { ...source, id: createMapId(), name, createdAt: now, updatedAt: now };
+  tx.objectStore(MAP_STORE).put(copy);
+
+  const blobStore = tx.objectStore(BLOB_STORE);
+  await Promise.all(source.documents.map(async doc => {
+    const blob = await requestToPromise<Blob | undefined>(blobStore.get(blobKey(mapId, doc.id)));
+    if (blob) blobStore.put(blob, blobKey(copy.id, doc.id));
+  }));
+
+  await transactionDone(tx);
+  return copy;
+};
+
+export const renameMap = async (mapId: string, name: string): Promise<MapSummary | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(MAP_STORE, 'readwrite');
+  const store = tx.objectStore(MAP_STORE);
+  const record = await requestToPromise<MindMapWorkspace | undefined>(store.get(mapId));
+  if (!record) return null;
+
+  const renamed: MindMapWorkspace = { ...record, name, updatedAt: new Date().toISOString() };
+  store.put(renamed);
+  await transactionDone(tx);
+  return summarizeMap(renamed);
+};
+
+export const deleteMap = async (mapId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([MAP_STORE, BLOB_STORE], 'readwrite');
+  tx.objectStore(MAP_STORE).delete(mapId);
+  tx.objectStore(BLOB_STORE).delete(mapBlobRange(mapId));
+  await transactionDone(tx);
+};
+
+// --- SETTINGS ---
+
+export const loadSettings = async (): Promise<{ settings: WorkspaceSettings | null, activeMapId: string | null }> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SETTINGS_STORE, 'readonly');
+  const store = tx.objectStore(SETTINGS_STORE);
+  const [settings, activeMapId] = await Promise.all([
+    requestToPromise<WorkspaceSettings | undefined>(store.get(SETTINGS_KEY)),
+    requestToPromise<string | undefined>(store.get(ACTIVE_MAP_KEY))
+  ]);
+  return { settings: settings || null, activeMapId: activeMapId || null };
+};
+
+export const saveSettings = async (settings: WorkspaceSettings, activeMapId: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(SETTINGS_STORE, 'readwrite');
+  tx.objectStore(SETTINGS_STORE).put(settings, SETTINGS_KEY);
+  tx.objectStore(SETTINGS_STORE).put(activeMapId, ACTIVE_MAP_KEY);
+  await transactionDone(tx);
+};
+
+// --- FILE BLOBS ---
+
+export const saveFileBlob = async (mapId: string, documentId: string, blob: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(BLOB_STORE, 'readwrite');
+  tx.objectStore(BLOB_STORE).put(blob, blobKey(mapId, documentId));
+  await transactionDone(tx);
+};
+
+/**
+ * Removes a map's stored blobs that no longer belong to any of its documents.
+ * Only safe to call when nothing in memory can bring those documents back (i.e. right after a load).
+ */
+export const pruneFileBlobs = async (mapId: string, keepDocumentIds: Iterable<string>): Promise<void> => {
+  const keep = new Set(Array.from(keepDocumentIds, id => blobKey(mapId, id)));
+  const db = await openDatabase();
+  const tx = db.transaction(BLOB_STORE, 'readwrite');
+  const store = tx.objectStore(BLOB_STORE);
+  const keys = await requestToPromise(store.getAllKeys(mapBlobRange(mapId)));
+  keys.forEach(key => {
+    if (!keep.has(String(key))) store.delete(key);
+  });
+  await transactionDone(tx);
+};
+
+// --- AI RESPONSE CACHE ---
+
+export interface CachedResponse<T> {
+  value: T;
+  storedAt: string;
+}
+
+export const loadCachedResponse = async <T>(key: string): Promise<CachedResponse<T> | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AI_CACHE_STORE, 'readonly');
+  const entry = await requestToPromise<CachedResponse<T> | undefined>(tx.objectStore(AI_CACHE_STORE).get(key));
+  return entry || null;
+};
+
+export const saveCachedResponse = async <T>(key: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AI_CACHE_STORE, 'readwrite');
+  const entry: CachedResponse<T> = { value, storedAt: new Date().toISOString() };
+  tx.objectStore(AI_CACHE_STORE).put(entry, key);
+  await transactionDone(tx);
+};
+
+/**
+ * Keeps the newest `maxEntries` responses and deletes the rest.
+ */
+export const pruneResponseCache = async (maxEntries: number): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AI_CACHE_STORE, 'readwrite');
+  const store = tx.objectStore(AI_CACHE_STORE);
+  const [keys, entries] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise<CachedResponse<unknown>[]>(store.getAll())
+  ]);
+  keys
+    .map((key, i) => ({ key, storedAt: entries[i].storedAt }))
+    .sort((a, b) => b.storedAt.localeCompare(a.storedAt))
+    .slice(maxEntries)
+    .forEach(({ key }) => store.delete(key));
+  await transactionDone(tx);
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(AI_CACHE_STORE, 'readwrite');
+  tx.objectStore(AI_CACHE_STORE).clear();
+  await transactionDone(tx);
+};
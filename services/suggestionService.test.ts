@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { Document, Node, NodeType } from '../types';
+import { Suggestion, applyFilterSuggestion, buildSuggestions } from './suggestionService';
+
+const doc = (id: string, title: string, project: string, tags: string[]): Document => ({
+  id, title, project, tags, content: '', date: '2024-01-01', type: 'md'
+});
+
+const node = (id: string, name: string, type = NodeType.CATEGORY): Node => ({ id, name, type, val: 10 });
+
+const documents = [
+  doc('d1', 'Budget 2024', 'Finance Team', ['finance', 'budget']),
+  doc('d2', 'Roadmap', 'Product', ['planning']),
+  doc('d3', 'Budget review', 'Finance Team', ['finance'])
+];
+const nodes = [node('root', 'Budget Root', NodeType.ROOT), node('c1', 'Budgeting'), node('d1', 'Budget 2024', NodeType.DOCUMENT)];
+
+const labels = (input: string) => buildSuggestions(input, nodes, documents).map(group => [group.kind, group.items.map(item => item.label)]);
+
+describe('buildSuggestions', () => {
+  it('groups matches by kind, best match first', () => {
+    expect(labels('budget')).toEqual([
+      ['node', ['Budgeting']],
+      ['document', ['Budget 2024', 'Budget review']],
+      ['tag', ['budget']]
+    ]);
+  });
+
+  it('waits for a couple of letters of plain text', () => {
+    expect(labels('b')).toEqual([]);
+  });
+
+  it('lists filter values right away while a filter is being typed', () => {
+    expect(labels('report tag:')).toEqual([['tag', ['budget', 'finance', 'planning']]]);
+    expect(labels('-project:"fin')).toEqual([['project', ['Finance Team']]]);
+    expect(buildSuggestions('tag:fin', nodes, documents)[0].items[0].detail).toBe('2 docs');
+  });
+});
+
+describe('applyFilterSuggestion', () => {
+  const project: Suggestion = { kind: 'project', id: 'Finance Team', label: 'Finance Team', score: 1 };
+  const tag: Suggestion = { kind: 'tag', id: 'finance', label: 'finance', score: 1 };
+
+  it('completes the filter being typed and keeps what came before it', () => {
+    expect(applyFilterSuggestion('budget -project:fin', project)).toBe('budget -project:"Finance Team" ');
+    expect(applyFilterSuggestion('budget tag:"fi', tag)).toBe('budget tag:finance ');
+  });
+
+  it('replaces plain text with the filter', () => {
+    expect(applyFilterSuggestion('fin', tag)).toBe('tag:finance ');
+  });
+});
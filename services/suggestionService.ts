@@ -0,0 +1,97 @@
+import { Document, Node, NodeType } from '../types';
+import { scoreNameMatch } from './fuzzyMatch';
+
+export type SuggestionKind = 'node' | 'document' | 'tag' | 'project';
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  id: string; // Node or document id; the tag or project name itself for those kinds
+  label: string;
+  detail?: string;
+  score: number;
+}
+
+export interface SuggestionGroup {
+  kind: SuggestionKind;
+  title: string;
+  items: Suggestion[];
+}
+
+const GROUP_TITLES: Record<SuggestionKind, string> = {
+  node: 'Nodes',
+  document: 'Documents',
+  tag: 'Tags',
+  project: 'Projects'
+};
+
+const GROUP_ORDER: SuggestionKind[] = ['node', 'document', 'tag', 'project'];
+
+const MAX_PER_GROUP = 5;
+// Plain text needs a couple of letters before suggesting; a filter such as "tag:" lists values right away
+const MIN_TEXT_LENGTH = 2;
+
+// A trailing `tag:` or `project:` filter being typed, optionally with an opening quote
+const FILTER_COMPLETION = /(?:^|\s)-?(tag|project):"?([^"\s]*)$/i;
+
+/**
+ * The part of the input a suggestion replaces when chosen, and the kinds it can complete to.
+ */
+const completionContext = (input: string): { text: string, kinds: SuggestionKind[] } => {
+  const filter = input.match(FILTER_COMPLETION);
+  if (filter) return { text: filter[2], kinds: [filter[1].toLowerCase() as SuggestionKind] };
+  return { text: input.trim(), kinds: GROUP_ORDER };
+};
+
+const topMatches = (items: Suggestion[], text: string) =>
+  items
+    .map(item => ({ ...item, score: text ? scoreNameMatch(item.label, text) : 1 }))
+    .filter(item => item.score > 0)
+    .sort((a, b) => b.score - a.score || a.label.localeCompare(b.label))
+    .slice(0, MAX_PER_GROUP);
+
+/**
+ * Suggestions for the search box, grouped by kind. Purely local; runs on every keystroke.
+ */
+export const buildSuggestions = (input: string, nodes: Node[], documents: Document[]): SuggestionGroup[] => {
+  const { text, kinds } = completionContext(input);
+  const isFilter = kinds.length === 1;
+  if (!isFilter && text.length < MIN_TEXT_LENGTH) return [];
+
+  const candidates: Record<SuggestionKind, () => Suggestion[]> = {
+    // Document nodes are listed under documents when the document exists
+    node: () => {
+      const documentIds = new Set(documents.map(d => d.id));
+      return nodes
+        .filter(n => n.type !== NodeType.ROOT && !documentIds.has(n.id))
+        .map(n => ({ kind: 'node' as const, id: n.id, label: n.name, detail: n.project, score: 0 }));
+    },
+    document: () => documents.map(d => ({ kind: 'document' as const, id: d.id, label: d.title, detail: `${d.project} · ${d.type}`, score: 0 })),
+    tag: () => {
+      const counts = new Map<string, number>();
+      documents.forEach(d => (d.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+      return Array.from(counts, ([tag, count]) => ({ kind: 'tag' as const, id: tag, label: tag, detail: `${count} doc${count === 1 ? '' : 's'}`, score: 0 }));
+    },
+    project: () => {
+      const counts = new Map<string, number>();
+      documents.forEach(d => counts.set(d.project, (counts.get(d.project) || 0) + 1));
+      return Array.from(counts, ([project, count]) => ({ kind: 'project' as const, id: project, label: project, detail: `${count} doc${count === 1 ? '' : 's'}`, score: 0 }));
+    }
+  };
+
+  return kinds
+    .map(kind => ({ kind, title: GROUP_TITLES[kind], items: topMatches(candidates[kind](), text) }))
+    .filter(group => group.items.length > 0);
+};
+
+/**
+ * Search box text after choosing a tag or project: completes the filter being typed, or replaces plain text with the filter.
+ */
+export const applyFilterSuggestion = (input: string, suggestion: Suggestion): string => {
+  const value = /\s/.test(suggestion.label) ? `"${suggestion.label}"` : suggestion.label;
+  const filter = `${suggestion.kind}:${value} `;
+  const match = input.match(FILTER_COMPLETION);
+  if (!match) return filter;
+  // Keep everything before the filter, including a leading "-" for exclusions
+  const start = match.index! + match[0].indexOf(match[1]);
+  return input.slice(0, start) + filter;
+};
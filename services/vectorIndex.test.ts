@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Document } from '../types';
+import { EmbeddingProvider, cosineSimilarity, localEmbeddingProvider } from './embeddingService';
+import { chunkDocument, createVectorIndex, semanticSearch, syncVectorIndex } from './vectorIndex';
+
+const doc = (id: string, fields: Partial<Document> = {}): Document => ({
+  id, title: id, content: '', project: 'General', date: '2024-01-01', type: 'txt', tags: [], ...fields
+});
+
+/**
+ * The local provider, counting how many texts it was asked to embed.
+ */
+const countingProvider = (id = localEmbeddingProvider.id) => {
+  const provider = { ...localEmbeddingProvider, id, embedded: 0 };
+  provider.embed = async (texts: string[]) => {
+    provider.embedded += texts.length;
+    return localEmbeddingProvider.embed(texts);
+  };
+  return provider as EmbeddingProvider & { embedded: number };
+};
+
+describe('chunkDocument', () => {
+  it('puts title and tags first, then content cut at sentence ends', () => {
+    const sentence = 'This sentence is about forty characters. ';
+    const chunks = chunkDocument(doc('d', { title: 'Roadmap', tags: ['planning', 'q3'], content: sentence.repeat(30) }));
+    expect(chunks[0]).toBe('Roadmap. planning, q3');
+    expect(chunks.length).toBe(4);
+    chunks.slice(1).forEach(chunk => {
+      expect(chunk.length).toBeLessThanOrEqual(600);
+      expect(chunk.startsWith('This sentence')).toBe(true);
+    });
+    expect(chunks.slice(1).join('')).toBe(sentence.repeat(30));
+  });
+
+  it('splits text without sentence ends into several chunks instead of truncating it', () => {
+    const runOn = 'word '.repeat(300);
+    const chunks = chunkDocument(doc('d', { content: `Intro. ${runOn}` })).slice(1);
+    expect(chunks.join('')).toBe(`Intro. ${runOn}`);
+    chunks.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(600));
+    expect(chunks.length).toBe(4);
+  });
+
+  it('caps the number of chunks for very large documents', () => {
+    const content = `${'x'.repeat(500)}. `.repeat(100);
+    expect(chunkDocument(doc('d', { content }))).toHaveLength(40);
+  });
+
+  it('has only the title chunk for an empty document', () => {
+    expect(chunkDocument(doc('d'))).toEqual(['d. ']);
+  });
+});
+
+describe('localEmbeddingProvider', () => {
+  it('gives deterministic unit vectors', async () => {
+    const [a, b] = await localEmbeddingProvider.embed(['Quarterly budget', 'Quarterly budget']);
+    expect(Array.from(a)).toEqual(Array.from(b));
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 5);
+  });
+
+  it('places related words closer than unrelated ones', async () => {
+    const [login, oauth, recipe] = await localEmbeddingProvider.embed(['login problems', 'OAuth token flow', 'banana bread recipe']);
+    expect(cosineSimilarity(login, oauth)).toBeGreaterThan(cosineSimilarity(login, recipe));
+  });
+});
+
+describe('vector index', () => {
+  const auth = doc('auth', { title: 'SSO rollout', content: 'We are moving every app to OAuth and single sign-on.' });
+  const food = doc('food', { title: 'Team lunch', content: 'Pizza or sushi on Friday.' });
+
+  it('finds documents related in meaning and leaves unrelated ones out', async () => {
+    const index = createVectorIndex(localEmbeddingProvider.id);
+    await syncVectorIndex(index, [auth, food], localEmbeddingProvider);
+    const scores = await semanticSearch(index, localEmbeddingProvider, 'login issues');
+    expect(scores.has('auth')).toBe(true);
+    expect(scores.has('food')).toBe(false);
+  });
+
+  it('only embeds new or changed documents and drops deleted ones', async () => {
+    const provider = countingProvider();
+    const index = createVectorIndex(provider.id);
+    await syncVectorIndex(index, [auth, food], provider);
+    const afterFirstSync = provider.embedded;
+
+    const edited = { ...food, content: 'Tacos instead.' };
+    await syncVectorIndex(index, [edited], provider);
+    expect(provider.embedded - afterFirstSync).toBe(chunkDocument(edited).length);
+    expect(Array.from(index.documents.keys())).toEqual(['food']);
+  });
+
+  it('rebuilds when the provider changes and ignores queries from another provider', async () => {
+    const index = createVectorIndex(localEmbeddingProvider.id);
+    await syncVectorIndex(index, [auth], localEmbeddingProvider);
+
+    const other = countingProvider('other-provider');
+    expect((await semanticSearch(index, other, 'login')).size).toBe(0);
+    await syncVectorIndex(index, [auth], other);
+    expect(index.providerId).toBe('other-provider');
+    expect(other.embedded).toBe(chunkDocument(auth).length);
+  });
+
+  it('returns no scores for a blank query', async () => {
+    const index = createVectorIndex(localEmbeddingProvider.id);
+    await syncVectorIndex(index, [auth], localEmbeddingProvider);
+    expect((await semanticSearch(index, localEmbeddingProvider, '  ')).size).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { Document } from '../types';
+import { EmbeddingProvider, cosineSimilarity } from './embeddingService';
+import { SemanticScores } from './searchIndex';
+
+// Chunks are embedded separately so one relevant paragraph in a long file is not averaged away
+const CHUNK_LENGTH = 600;
+// Caps the work for very large files; later content still counts for keyword search
+const MAX_CHUNKS_PER_DOCUMENT = 40;
+// Below this a document is not considered a semantic match at all
+export const MIN_SEMANTIC_SIMILARITY = 0.2;
+
+export interface VectorIndex {
+  providerId: string;
+  documents: Map<string, { source: Document, vectors: Float32Array[] }>; // One vector per chunk
+  pending: Promise<void>; // Settles when every queued sync has been applied
+}
+
+export const createVectorIndex = (providerId: string): VectorIndex => ({
+  providerId,
+  documents: new Map(),
+  pending: Promise.resolve()
+});
+
+/**
+ * A run-on sentence longer than a chunk (a table dump, text without punctuation) is cut hard into
+ * chunk-sized pieces so none of it is lost.
+ */
+const splitRunOn = (sentence: string): string[] => {
+  if (sentence.length <= CHUNK_LENGTH) return [sentence];
+  const pieces: string[] = [];
+  for (let at = 0; at < sentence.length; at += CHUNK_LENGTH) pieces.push(sentence.slice(at, at + CHUNK_LENGTH));
+  return pieces;
+};
+
+/**
+ * Title and tags as one chunk, then the content cut at sentence ends into pieces of about CHUNK_LENGTH.
+ */
+export const chunkDocument = (doc: Document): string[] => {
+  const chunks = [`${doc.title}. ${(doc.tags || []).join(', ')}`];
+  const sentences = doc.content.match(/[^.!?\n]+[.!?]*\s*/g) || [];
+  let current = '';
+  for (const piece of sentences.flatMap(splitRunOn)) {
+    if (chunks.length >= MAX_CHUNKS_PER_DOCUMENT) break;
+    if (current && current.length + piece.length > CHUNK_LENGTH) {
+      chunks.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+  if (current.trim() && chunks.length < MAX_CHUNKS_PER_DOCUMENT) chunks.push(current);
+  return chunks;
+};
+
+// Lets the page paint between documents while a big folder is embedded
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Embeds new and edited documents and drops deleted ones. Documents are compared by reference, like the
+ * keyword index. Syncs are queued so overlapping calls never interleave.
+ */
+export const syncVectorIndex = (index: VectorIndex, documents: Document[], provider: EmbeddingProvider): Promise<void> => {
+  index.pending = index.pending.then(async () => {
+    if (provider.id !== index.providerId) {
+      index.documents.clear();
+      index.providerId = provider.id;
+    }
+
+    const currentIds = new Set(documents.map(doc => doc.id));
+    Array.from(index.documents.keys()).forEach(id => { if (!currentIds.has(id)) index.documents.delete(id); });
+
+    for (const doc of documents) {
+      if (index.documents.get(doc.id)?.source === doc) continue;
+      const vectors = await provider.embed(chunkDocument(doc));
+      index.documents.set(doc.id, { source: doc, vectors });
+      await yieldToBrowser();
+    }
+  }).catch(err => console.error("Embedding failed", err));
+  return index.pending;
+};
+
+/**
+ * Best chunk similarity per document for a query, above MIN_SEMANTIC_SIMILARITY.
+ * Waits for queued syncs so freshly added documents are included.
+ */
+export const semanticSearch = async (index: VectorIndex, provider: EmbeddingProvider, text: string): Promise<SemanticScores> => {
+  const scores: SemanticScores = new Map();
+  if (!text.trim()) return scores;
+  await index.pending;
+  if (provider.id !== index.providerId) return scores;
+
+  const [queryVector] = await provider.embed([text]);
+  index.documents.forEach(({ vectors }, docId) => {
+    const best = Math.max(...vectors.map(vector => cosineSimilarity(queryVector, vector)));
+    if (best >= MIN_SEMANTIC_SIMILARITY) scores.set(docId, best);
+  });
+  return scores;
+};
@@ -0,0 +1,86 @@
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { openZip } from './zipReader';
+
+interface FixtureEntry {
+  name: string;
+  text: string;
+  deflate?: boolean;
+  flags?: number;
+}
+
+/**
+ * Builds a ZIP archive in memory: local headers with data, then the central directory and its end record.
+ */
+const buildZip = (entries: FixtureEntry[]): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const raw = encoder.encode(entry.text);
+    const data = entry.deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+    const method = entry.deflate ? 8 : 0;
+
+    const local = new DataView(new ArrayBuffer(30 + name.length + data.length));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(6, entry.flags || 0, true);
+    local.setUint16(8, method, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, raw.length, true);
+    local.setUint16(26, name.length, true);
+    new Uint8Array(local.buffer).set(name, 30);
+    new Uint8Array(local.buffer).set(data, 30 + name.length);
+
+    const central = new DataView(new ArrayBuffer(46 + name.length));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(8, entry.flags || 0, true);
+    central.setUint16(10, method, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    new Uint8Array(central.buffer).set(name, 46);
+
+    locals.push(new Uint8Array(local.buffer));
+    centrals.push(new Uint8Array(central.buffer));
+    offset += local.byteLength;
+  });
+
+  const directorySize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let at = 0;
+  parts.forEach(part => { out.set(part, at); at += part.length; });
+  return out.buffer;
+};
+
+describe('openZip', () => {
+  it('lists entries and reads stored and deflated ones', async () => {
+    const zip = openZip(buildZip([
+      { name: '[Content_Types].xml', text: '<Types/>' },
+      { name: 'word/document.xml', text: '<w:document>héllo</w:document>'.repeat(20), deflate: true }
+    ]));
+    expect(Array.from(zip.entries.keys())).toEqual(['[Content_Types].xml', 'word/document.xml']);
+    expect(await zip.readText('[Content_Types].xml')).toBe('<Types/>');
+    expect(await zip.readText('word/document.xml')).toBe('<w:document>héllo</w:document>'.repeat(20));
+  });
+
+  it('returns null for a missing entry', async () => {
+    expect(await openZip(buildZip([{ name: 'a.txt', text: 'a' }])).readText('b.txt')).toBeNull();
+  });
+
+  it('rejects files that are not ZIP archives or are encrypted', () => {
+    expect(() => openZip(new TextEncoder().encode('plain text, not a zip archive').buffer)).toThrow('File is not a valid ZIP archive');
+    expect(() => openZip(buildZip([{ name: 'secret.xml', text: 'x', flags: 0x1 }]))).toThrow('Password-protected files are not supported');
+  });
+});
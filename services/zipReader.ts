@@ -0,0 +1,95 @@
+// Minimal ZIP reader for Office Open XML containers (.docx, .xlsx).
+// Supports stored and deflated entries; ZIP64 and encrypted archives are rejected.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+export interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchive {
+  entries: Map<string, ZipEntry>;
+  readText: (name: string) => Promise<string | null>;
+}
+
+/**
+ * Finds the End Of Central Directory record, which sits at the end of the file after an optional comment.
+ */
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+    if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+  }
+  throw new Error('File is not a valid ZIP archive');
+};
+
+const inflateRaw = async (data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+  if (typeof DecompressionStream === 'undefined') throw new Error('This browser cannot decompress Office files');
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Reads the central directory of a ZIP archive. Entry data is only decompressed on demand.
+ */
+export const openZip = (buffer: ArrayBuffer): ZipArchive => {
+  const view = new DataView(buffer);
+  const eocd = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(eocd + 10, true);
+  const directoryOffset = view.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) throw new Error('ZIP64 archives are not supported');
+
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+  let offset = directoryOffset;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_ENTRY_SIGNATURE) throw new Error('Corrupt ZIP central directory');
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (flags & 0x1) throw new Error('Password-protected files are not supported');
+
+    entries.set(name, {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      localHeaderOffset: view.getUint32(offset + 42, true)
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  const readBytes = async (entry: ZipEntry): Promise<Uint8Array> => {
+    const header = entry.localHeaderOffset;
+    if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) throw new Error(`Corrupt ZIP entry ${entry.name}`);
+    // The local header repeats name/extra with its own lengths, which may differ from the central directory
+    const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+    const data = new Uint8Array(buffer, dataStart, entry.compressedSize);
+
+    if (entry.method === METHOD_STORED) return data;
+    if (entry.method === METHOD_DEFLATE) return inflateRaw(data);
+    throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+  };
+
+  return {
+    entries,
+    readText: async (name: string) => {
+      const entry = entries.get(name);
+      if (!entry) return null;
+      return decoder.decode(await readBytes(entry));
+    }
+  };
+};
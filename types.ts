@@ -15,7 +15,7 @@ export enum LayoutMode {
   SEED = 'Seed'
 }
 
-export type NodeIconType = 'default' | 'folder' | 'video' | 'image' | 'file' | 'seed' | 'tree' | 'leaf' | 'music' | 'spreadsheet' | 'link';
+export type NodeIconType = 'default' | 'folder' | 'video' | 'image' | 'file' | 'seed' | 'tree' | 'leaf' | 'music' | 'spreadsheet' | 'link' | 'smart';
 
 export interface Node {
   id: string;
@@ -39,6 +39,21 @@ export interface Node {
   level?: number; // For tree hierarchy depth
   collapsed?: boolean; // Blossom feature: true if children are hidden
   trunkTier?: number; // 0 to 1, where along the trunk this node attaches (Seed mode)
+  smartFolder?: SmartFolder; // Saved search whose matching documents are shown as children
+  citations?: PassageCitation[]; // Document passages a generated description was drawn from
+}
+
+// A range of a document's content that an AI answer is based on
+export interface PassageCitation {
+  docId: string;
+  start: number; // Character offsets in the document content
+  end: number;
+}
+
+export interface SmartFolder {
+  query: string; // Search box syntax, filters included
+  resultIds: string[]; // Matching document ids as of the last refresh
+  refreshedAt: string; // ISO time the results last changed
 }
 
 export interface Link {
@@ -58,16 +73,105 @@ export interface Document {
   content: string;
   project: string;
   date: string;
-  type: 'pdf' | 'docx' | 'txt' | 'md' | 'mp4' | 'png' | 'jpg' | 'mp3' | 'wav' | 'xlsx' | 'csv' | 'link';
+  type: 'pdf' | 'docx' | 'txt' | 'md' | 'mp4' | 'png' | 'jpg' | 'mp3' | 'wav' | 'xlsx' | 'csv' | 'json' | 'link';
   tags: string[];
   parentId?: string; // ID of the node this document belongs to
   fileUrl?: string; // Blob URL for local preview
   externalUrl?: string; // URL to external resource (Drive, Website)
+  extractionStatus?: ExtractionStatus; // Unset for documents that were never extracted (mock data, links)
+  extractionError?: string;
+  isTruncated?: boolean; // Content was cut to fit the size limit
+  tablePreview?: TablePreview; // First rows of a spreadsheet (xlsx/csv) for the sidebar
+  pageOffsets?: number[]; // PDF only: offset in `content` where each page starts (index 0 = page 1)
+  contentHash?: string; // SHA-256 of the uploaded file, used to detect duplicates
 }
 
+export interface TablePreview {
+  sheetName?: string;
+  rows: string[][];
+  totalRows: number;
+}
+
+export type ExtractionStatus = 'pending' | 'done' | 'error';
+
 export enum AppTheme {
   DEFAULT = 'Default',
   CYBER = 'Cyberpunk',
   NATURE = 'Nature',
   MINIMAL = 'Minimal'
+}
+
+export type GraphicsQuality = 'low' | 'mid' | 'high';
+
+export type AIProviderKind = 'gemini' | 'mock';
+
+export interface AIProviderSettings {
+  provider: AIProviderKind; // mock: deterministic answers computed in the browser, no network
+  model: string;
+  apiKey: string; // Empty: use the key the app was built with
+  contextTokens?: number; // Budget for document passages sent with a search; missing in older settings
+  autoCategorize?: boolean; // Suggest tags, a project and a category for uploads once their text is extracted
+}
+
+export interface WorkspaceSettings {
+  theme: AppTheme;
+  linkStyle: LinkStyle;
+  graphicsQuality: GraphicsQuality;
+  ai?: AIProviderSettings; // Missing in settings saved before the provider was configurable
+}
+
+// A named mind map with its own graph, documents and layout
+export interface MindMapWorkspace {
+  id: string;
+  name: string;
+  graph: GraphData;
+  documents: Document[];
+  layoutMode: LayoutMode;
+  createdAt: string;
+  updatedAt: string;
+  searchHistory?: SearchHistoryEntry[]; // Newest first; missing in maps saved before search history existed
+  qaThread?: QATurn[]; // Oldest first; missing in maps saved before questions could be asked
+  tagSuggestions?: TagSuggestion[]; // Review queue, oldest first; missing in maps saved before auto-categorization
+}
+
+// local: a node already in the map matched; ai / fallback: the generated result graph; none: no document matched
+export type SearchAnswer = 'local' | 'ai' | 'fallback' | 'none';
+
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  ranAt: string; // ISO time
+  resultIds: string[]; // Documents the search returned, best first
+  answeredBy: SearchAnswer;
+}
+
+// One question asked about a map's documents and its answer
+export interface QATurn {
+  id: string;
+  question: string;
+  answer: string; // Cites as [1], [2], ... numbering `citations`
+  citations: PassageCitation[];
+  askedAt: string; // ISO time
+  answeredBy: Exclude<SearchAnswer, 'local'>; // fallback: passages quoted because the provider failed
+}
+
+// Tags, project and category suggested for an uploaded document, waiting to be accepted or rejected
+export interface TagSuggestion {
+  id: string;
+  docId: string;
+  tags: string[]; // Only tags the document does not have yet
+  project: string;
+  category: string; // Name of the category node the document moves under
+  suggestedAt: string; // ISO time
+  suggestedBy: string; // Provider label
+}
+
+// Lightweight listing entry used by the map switcher and landing page
+export interface MapSummary {
+  id: string;
+  name: string;
+  layoutMode: LayoutMode;
+  nodeCount: number;
+  documentCount: number;
+  updatedAt: string;
 }
\ No newline at end of file